@@ -1,15 +1,33 @@
 'use client';
 
-import { useState, useEffect, useCallback, Suspense } from 'react';
-import { useSearchParams } from 'next/navigation';
+import { useState, useEffect, useCallback, useMemo, Suspense } from 'react';
 import dynamic from 'next/dynamic';
 import Link from 'next/link';
 import { motion, AnimatePresence } from 'framer-motion';
 import toast from 'react-hot-toast';
-import { Flag, Archive, ArchiveRestore, SearchX } from 'lucide-react';
+import { Flag, Archive, ArchiveRestore, SearchX, GitMerge, ImageUp, Copy, Merge } from 'lucide-react';
 import Header from '@/components/Header';
-import { Report, getAllReports, bulkMarkResolved, toggleFlagged, toggleNoGlassFound, archiveReport, unarchiveReport } from '@/lib/db';
-import { formatDate } from '@/lib/utils';
+import PhotoGallery from '@/components/PhotoGallery';
+import { Report, getAllReports } from '@/lib/db';
+import {
+  adminBulkMarkResolved,
+  adminSetResolved,
+  adminToggleFlagged,
+  adminToggleNoGlassFound,
+  adminArchiveReport,
+  adminUnarchiveReport,
+  adminResolveConflict,
+  adminMergeReports,
+} from '@/lib/sync';
+import { ROLE_LABELS } from '@/lib/auth';
+import { migrateInlinePhotos, getReportPhotos, getPhotoThumbnailSrc } from '@/lib/photos';
+import { useAdminAuth } from '@/lib/useAdminAuth';
+import { formatDate, calculateDistance } from '@/lib/utils';
+import { findDuplicateGroups, DUPLICATE_RADIUS_METERS } from '@/lib/duplicates';
+import { isExpired, isLiveHazard } from '@/lib/decay';
+import { trustConfig } from '@/lib/reputation';
+import { confirmationRules, createRuleContext, explainResolution, WeightedVote } from '@/lib/confirmationRules';
+import { HazardCategory, HAZARD_CATEGORIES, HAZARD_CATEGORY_ORDER, HAZARD_SEVERITIES, DEFAULT_HAZARD_CATEGORY } from '@/lib/hazards';
 
 // Dynamically import Map for admin view
 const Map = dynamic(() => import('@/components/Map'), {
@@ -21,25 +39,64 @@ const Map = dynamic(() => import('@/components/Map'), {
   ),
 });
 
-const ADMIN_PASSWORD = 'council123';
+// Thumbnail of a report's first photo that opens its gallery
+function PhotoThumbnailButton({ report, onOpen }: { report: Report; onOpen: () => void }) {
+  const photos = getReportPhotos(report);
+  if (photos.length === 0) return null;
+
+  return (
+    <button onClick={onOpen} className="relative flex-shrink-0" aria-label="View photos">
+      <img
+        src={getPhotoThumbnailSrc(photos[0])}
+        alt=""
+        loading="lazy"
+        decoding="async"
+        className="w-12 h-12 rounded-lg object-cover"
+      />
+      {photos.length > 1 && (
+        <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 bg-emerald-600 text-white text-xs font-semibold rounded-full flex items-center justify-center">
+          {photos.length}
+        </span>
+      )}
+    </button>
+  );
+}
+
+const VOTE_STYLES: Record<WeightedVote['kind'], { label: string; className: string }> = {
+  stillThere: { label: 'Still there', className: 'text-red-600 dark:text-red-400' },
+  cleared: { label: "It's cleared", className: 'text-green-600 dark:text-green-400' },
+  overturned: { label: "It's cleared (overturned)", className: 'text-gray-500 dark:text-gray-400 line-through' },
+};
+
+// Show a specific message when a write is rejected for lack of role
+function toastActionError(error: unknown, fallback: string) {
+  const err = error as { code?: string };
+  if (err.code === 'PERMISSION_DENIED') {
+    toast.error('Your council role does not allow this action');
+  } else {
+    toast.error(fallback);
+  }
+}
 
 function AdminContent() {
-  const searchParams = useSearchParams();
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const { session, role, isLoading: isAuthLoading, signIn, signOut, can } = useAdminAuth();
+  const isAuthenticated = session !== null && can('viewReports');
+  const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
-  const [passwordError, setPasswordError] = useState(false);
+  const [loginError, setLoginError] = useState<string | null>(null);
+  const [isSigningIn, setIsSigningIn] = useState(false);
   const [reports, setReports] = useState<Report[]>([]);
   const [selectedReports, setSelectedReports] = useState<Set<string>>(new Set());
   const [viewMode, setViewMode] = useState<'list' | 'map'>('list');
-  const [filterStatus, setFilterStatus] = useState<'all' | 'active' | 'resolved' | 'archived' | 'flagged' | 'noGlassFound'>('all');
+  const [filterStatus, setFilterStatus] = useState<'all' | 'active' | 'expired' | 'resolved' | 'archived' | 'flagged' | 'noGlassFound'>('all');
+  const [filterCategory, setFilterCategory] = useState<HazardCategory | 'all'>('all');
   const [isLoading, setIsLoading] = useState(true);
-
-  // Auto-authenticate if ?admin=true is in URL
-  useEffect(() => {
-    if (searchParams.get('admin') === 'true') {
-      setIsAuthenticated(true);
-    }
-  }, [searchParams]);
+  const [migrationProgress, setMigrationProgress] = useState<string | null>(null);
+  const [galleryReport, setGalleryReport] = useState<Report | null>(null);
+  const [mergeCandidates, setMergeCandidates] = useState<Report[] | null>(null);
+  const [mergeSurvivorId, setMergeSurvivorId] = useState<string | null>(null);
+  const [isMerging, setIsMerging] = useState(false);
+  const [explainReport, setExplainReport] = useState<Report | null>(null);
 
   // Load reports
   useEffect(() => {
@@ -58,18 +115,46 @@ function AdminContent() {
     }
   }, [isAuthenticated]);
 
-  const handleLogin = (e: React.FormEvent) => {
+  const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (password === ADMIN_PASSWORD) {
-      setIsAuthenticated(true);
-      setPasswordError(false);
-    } else {
-      setPasswordError(true);
+    setIsSigningIn(true);
+    setLoginError(null);
+    try {
+      const newSession = await signIn(email, password);
+      if (!newSession.role) {
+        setLoginError('This account does not have a council role.');
+      }
+      setPassword('');
+    } catch (error: unknown) {
+      const err = error as { code?: string };
+      console.error('Council sign-in failed:', error);
+      if (err.code === 'auth/invalid-credential' || err.code === 'auth/wrong-password' || err.code === 'auth/user-not-found') {
+        setLoginError('Incorrect email or password. Please try again.');
+      } else if (err.code === 'auth/too-many-requests') {
+        setLoginError('Too many attempts. Please wait and try again.');
+      } else {
+        setLoginError('Sign-in failed. Please try again.');
+      }
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
+  const handleLogout = async () => {
+    try {
+      await signOut();
+      setReports([]);
+      setSelectedReports(new Set());
+    } catch (error) {
+      console.error('Sign-out failed:', error);
+      toast.error('Failed to sign out');
     }
   };
 
   const filteredReports = reports.filter(report => {
-    if (filterStatus === 'active') return !report.resolved && !report.archived;
+    if (filterCategory !== 'all' && (report.category ?? DEFAULT_HAZARD_CATEGORY) !== filterCategory) return false;
+    if (filterStatus === 'active') return isLiveHazard(report);
+    if (filterStatus === 'expired') return isExpired(report);
     if (filterStatus === 'resolved') return report.resolved && !report.archived;
     if (filterStatus === 'archived') return report.archived;
     if (filterStatus === 'flagged') return report.flagged;
@@ -78,6 +163,13 @@ function AdminContent() {
     return !report.archived;
   });
 
+  // Active reports close enough to be the same hazard
+  const duplicateGroups = useMemo(() => findDuplicateGroups(reports), [reports]);
+
+  // Each device's track record, for the confirmations breakdown
+  const ruleContext = useMemo(() => createRuleContext(reports), [reports]);
+  const explanation = explainReport ? explainResolution(explainReport, ruleContext) : null;
+
   const handleSelectAll = () => {
     if (selectedReports.size === filteredReports.length) {
       setSelectedReports(new Set());
@@ -100,7 +192,7 @@ function AdminContent() {
     if (selectedReports.size === 0) return;
 
     try {
-      await bulkMarkResolved(Array.from(selectedReports));
+      await adminBulkMarkResolved(Array.from(selectedReports));
       setReports(prev =>
         prev.map(r =>
           selectedReports.has(r.id) ? { ...r, resolved: true } : r
@@ -110,13 +202,46 @@ function AdminContent() {
       toast.success(`Marked ${selectedReports.size} reports as cleaned`);
     } catch (error) {
       console.error('Failed to mark reports as cleaned:', error);
-      toast.error('Failed to update reports');
+      toastActionError(error, 'Failed to update reports');
+    }
+  };
+
+  // Open the merge dialog for the selected reports, keeping the oldest by default
+  const handleOpenMerge = () => {
+    const candidates = reports
+      .filter(r => selectedReports.has(r.id))
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    if (candidates.length < 2) return;
+    setMergeCandidates(candidates);
+    setMergeSurvivorId(candidates[0].id);
+  };
+
+  const handleMerge = async () => {
+    if (!mergeCandidates || !mergeSurvivorId) return;
+    const duplicateIds = mergeCandidates.map(r => r.id).filter(id => id !== mergeSurvivorId);
+
+    setIsMerging(true);
+    try {
+      await adminMergeReports(mergeSurvivorId, duplicateIds);
+      setReports(await getAllReports());
+      setSelectedReports(new Set());
+      setMergeCandidates(null);
+      toast.success(`Merged ${duplicateIds.length} duplicate report${duplicateIds.length === 1 ? '' : 's'}`);
+    } catch (error) {
+      console.error('Failed to merge reports:', error);
+      toastActionError(error, 'Failed to merge reports');
+    } finally {
+      setIsMerging(false);
     }
   };
 
+  // Furthest distance between any two reports in the merge dialog
+  const mergeSpreadMeters = (mergeCandidates ?? []).reduce((max, a, i, all) =>
+    Math.max(max, ...all.slice(i + 1).map(b => calculateDistance(a.lat, a.lng, b.lat, b.lng))), 0);
+
   const handleToggleFlagged = async (id: string) => {
     try {
-      const newFlagged = await toggleFlagged(id);
+      const newFlagged = await adminToggleFlagged(id);
       setReports(prev =>
         prev.map(r =>
           r.id === id ? { ...r, flagged: newFlagged } : r
@@ -125,13 +250,13 @@ function AdminContent() {
       toast.success(newFlagged ? 'Report flagged for review' : 'Flag removed');
     } catch (error) {
       console.error('Failed to toggle flag:', error);
-      toast.error('Failed to update flag');
+      toastActionError(error, 'Failed to update flag');
     }
   };
 
   const handleToggleNoGlassFound = async (id: string) => {
     try {
-      const newNoGlassFound = await toggleNoGlassFound(id);
+      const newNoGlassFound = await adminToggleNoGlassFound(id);
       setReports(prev =>
         prev.map(r =>
           r.id === id ? { ...r, noGlassFound: newNoGlassFound } : r
@@ -140,13 +265,13 @@ function AdminContent() {
       toast.success(newNoGlassFound ? 'Marked as no glass found' : 'No glass found removed');
     } catch (error) {
       console.error('Failed to toggle no glass found:', error);
-      toast.error('Failed to update status');
+      toastActionError(error, 'Failed to update status');
     }
   };
 
   const handleArchive = async (id: string) => {
     try {
-      await archiveReport(id);
+      await adminArchiveReport(id);
       setReports(prev =>
         prev.map(r =>
           r.id === id ? { ...r, archived: true, archivedAt: Date.now() } : r
@@ -155,13 +280,13 @@ function AdminContent() {
       toast.success('Report archived');
     } catch (error) {
       console.error('Failed to archive:', error);
-      toast.error('Failed to archive report');
+      toastActionError(error, 'Failed to archive report');
     }
   };
 
   const handleUnarchive = async (id: string) => {
     try {
-      await unarchiveReport(id);
+      await adminUnarchiveReport(id);
       setReports(prev =>
         prev.map(r =>
           r.id === id ? { ...r, archived: false, archivedAt: undefined } : r
@@ -170,7 +295,41 @@ function AdminContent() {
       toast.success('Report unarchived');
     } catch (error) {
       console.error('Failed to unarchive:', error);
-      toast.error('Failed to unarchive report');
+      toastActionError(error, 'Failed to unarchive report');
+    }
+  };
+
+  const handleResolveConflict = async (id: string, keep: 'local' | 'remote') => {
+    try {
+      await adminResolveConflict(id, keep);
+      setReports(await getAllReports());
+      toast.success(keep === 'local' ? 'Kept your changes' : 'Applied the synced changes');
+    } catch (error) {
+      console.error('Failed to resolve conflict:', error);
+      toastActionError(error, 'Failed to resolve conflict');
+    }
+  };
+
+  // Move photos stored inline in the database into Storage
+  const handleMigratePhotos = async () => {
+    setMigrationProgress('Starting...');
+    try {
+      const result = await migrateInlinePhotos((done, total) => {
+        setMigrationProgress(`${done}/${total}`);
+      });
+      setReports(await getAllReports());
+      if (result.failed > 0) {
+        toast.error(`Migrated ${result.migrated} photos, ${result.failed} failed`);
+      } else if (result.migrated > 0) {
+        toast.success(`Migrated ${result.migrated} photos to storage`);
+      } else {
+        toast.success('No inline photos left to migrate');
+      }
+    } catch (error) {
+      console.error('Photo migration failed:', error);
+      toastActionError(error, 'Photo migration failed');
+    } finally {
+      setMigrationProgress(null);
     }
   };
 
@@ -185,17 +344,7 @@ function AdminContent() {
       if (!report) return;
 
       const newResolved = !report.resolved;
-      await bulkMarkResolved(newResolved ? [id] : []); // This only marks as resolved
-
-      // For toggling off, we need direct update
-      if (!newResolved) {
-        const { db } = await import('@/lib/db');
-        await db.reports.update(id, {
-          resolved: false,
-          lastModified: Date.now(),
-          syncStatus: 'pending',
-        });
-      }
+      await adminSetResolved(id, newResolved);
 
       setReports(prev =>
         prev.map(r =>
@@ -205,14 +354,28 @@ function AdminContent() {
       toast.success(newResolved ? 'Marked as cleared' : 'Marked as active');
     } catch (error) {
       console.error('Failed to toggle resolved:', error);
-      toast.error('Failed to update status');
+      toastActionError(error, 'Failed to update status');
     }
   }, [reports]);
 
+  if (isAuthLoading) {
+    return (
+      <main className="min-h-screen bg-emerald-50 dark:bg-gray-900 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-4 border-emerald-200 border-t-emerald-600"></div>
+      </main>
+    );
+  }
+
   if (!isAuthenticated) {
+    const inputClassName = `w-full px-4 py-3 rounded-xl border ${
+      loginError
+        ? 'border-red-300 dark:border-red-600 focus:ring-red-500'
+        : 'border-gray-200 dark:border-gray-700 focus:ring-emerald-500'
+    } bg-gray-50 dark:bg-gray-900 text-gray-900 dark:text-white placeholder-gray-400 focus:ring-2 focus:border-transparent transition-all`;
+
     return (
       <main className="min-h-screen bg-emerald-50 dark:bg-gray-900">
-        <Header isAdmin />
+        <Header isAdmin onLogout={session ? handleLogout : undefined} />
         <div className="pt-[80px] px-4 flex items-center justify-center min-h-screen">
           <motion.div
             initial={{ opacity: 0, y: 20 }}
@@ -229,48 +392,81 @@ function AdminContent() {
                 Council Access
               </h1>
               <p className="text-gray-500 dark:text-gray-400 mt-2">
-                Enter the council password to access the admin dashboard
+                Sign in with your council account to access the admin dashboard
               </p>
             </div>
 
-            <form onSubmit={handleLogin}>
-              <div className="mb-4">
-                <label htmlFor="password" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                  Password
-                </label>
-                <input
-                  type="password"
-                  id="password"
-                  value={password}
-                  onChange={(e) => {
-                    setPassword(e.target.value);
-                    setPasswordError(false);
-                  }}
-                  placeholder="Enter council password"
-                  className={`w-full px-4 py-3 rounded-xl border ${
-                    passwordError
-                      ? 'border-red-300 dark:border-red-600 focus:ring-red-500'
-                      : 'border-gray-200 dark:border-gray-700 focus:ring-emerald-500'
-                  } bg-gray-50 dark:bg-gray-900 text-gray-900 dark:text-white placeholder-gray-400 focus:ring-2 focus:border-transparent transition-all`}
-                />
-                {passwordError && (
-                  <motion.p
-                    initial={{ opacity: 0, y: -10 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    className="mt-2 text-sm text-red-600 dark:text-red-400"
-                  >
-                    Incorrect password. Please try again.
-                  </motion.p>
-                )}
+            {session ? (
+              // Signed in, but the account has no council role claim
+              <div className="text-center">
+                <p className="text-sm text-gray-700 dark:text-gray-300 mb-4">
+                  {session.email || 'This account'} does not have a council role. Ask a council admin to grant access.
+                </p>
+                <button
+                  onClick={handleLogout}
+                  className="w-full py-3 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 font-semibold rounded-xl transition-colors"
+                >
+                  Sign Out
+                </button>
               </div>
+            ) : (
+              <form onSubmit={handleLogin}>
+                <div className="mb-4">
+                  <label htmlFor="email" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Email
+                  </label>
+                  <input
+                    type="email"
+                    id="email"
+                    autoComplete="username"
+                    value={email}
+                    onChange={(e) => {
+                      setEmail(e.target.value);
+                      setLoginError(null);
+                    }}
+                    placeholder="you@council.gov.uk"
+                    required
+                    className={inputClassName}
+                  />
+                </div>
 
-              <button
-                type="submit"
-                className="w-full py-3 bg-emerald-600 hover:bg-emerald-700 text-white font-semibold rounded-xl transition-colors"
-              >
-                Access Dashboard
-              </button>
-            </form>
+                <div className="mb-4">
+                  <label htmlFor="password" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Password
+                  </label>
+                  <input
+                    type="password"
+                    id="password"
+                    autoComplete="current-password"
+                    value={password}
+                    onChange={(e) => {
+                      setPassword(e.target.value);
+                      setLoginError(null);
+                    }}
+                    placeholder="Enter your password"
+                    required
+                    className={inputClassName}
+                  />
+                  {loginError && (
+                    <motion.p
+                      initial={{ opacity: 0, y: -10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      className="mt-2 text-sm text-red-600 dark:text-red-400"
+                    >
+                      {loginError}
+                    </motion.p>
+                  )}
+                </div>
+
+                <button
+                  type="submit"
+                  disabled={isSigningIn}
+                  className="w-full py-3 bg-emerald-600 hover:bg-emerald-700 disabled:bg-emerald-400 text-white font-semibold rounded-xl transition-colors"
+                >
+                  {isSigningIn ? 'Signing in...' : 'Sign In'}
+                </button>
+              </form>
+            )}
 
             <div className="mt-6 text-center">
               <Link
@@ -280,10 +476,6 @@ function AdminContent() {
                 Back to Map
               </Link>
             </div>
-
-            <p className="text-xs text-gray-400 dark:text-gray-500 text-center mt-6">
-              Demo password: council123
-            </p>
           </motion.div>
         </div>
       </main>
@@ -292,7 +484,7 @@ function AdminContent() {
 
   return (
     <main className="min-h-screen bg-emerald-50 dark:bg-gray-900">
-      <Header isAdmin onLogout={() => setIsAuthenticated(false)} />
+      <Header isAdmin onLogout={handleLogout} />
       <div className="pt-[70px] pb-8 px-4 md:px-8">
         <div className="max-w-7xl mx-auto">
           {/* Header */}
@@ -304,6 +496,11 @@ function AdminContent() {
               <p className="text-gray-500 dark:text-gray-400">
                 Manage glass hazard reports in your area
               </p>
+              {role && (
+                <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">
+                  Signed in as {session?.email} ({ROLE_LABELS[role]})
+                </p>
+              )}
             </div>
 
             <Link
@@ -332,7 +529,7 @@ function AdminContent() {
             >
               <p className="text-sm text-gray-500 dark:text-gray-400">Active</p>
               <p className="text-2xl font-bold text-red-600 dark:text-red-400">
-                {reports.filter(r => !r.resolved && !r.archived).length}
+                {reports.filter(r => isLiveHazard(r)).length}
               </p>
             </motion.div>
             <motion.div
@@ -422,15 +619,28 @@ function AdminContent() {
               >
                 <option value="all">All Reports</option>
                 <option value="active">Active Only</option>
+                <option value="expired">Expired</option>
                 <option value="resolved">Resolved Only</option>
                 <option value="archived">Archived</option>
                 <option value="flagged">Flagged</option>
                 <option value="noGlassFound">No Glass Found</option>
               </select>
+              <select
+                value={filterCategory}
+                onChange={(e) => setFilterCategory(e.target.value as typeof filterCategory)}
+                className="pl-4 pr-10 py-2 rounded-lg text-sm font-medium bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300 border border-gray-200 dark:border-gray-700 appearance-none bg-[url('data:image/svg+xml;charset=utf-8,%3Csvg%20xmlns%3D%22http%3A%2F%2Fwww.w3.org%2F2000%2Fsvg%22%20fill%3D%22none%22%20viewBox%3D%220%200%2024%2024%22%20stroke%3D%22%236b7280%22%3E%3Cpath%20stroke-linecap%3D%22round%22%20stroke-linejoin%3D%22round%22%20stroke-width%3D%222%22%20d%3D%22M19%209l-7%207-7-7%22%2F%3E%3C%2Fsvg%3E')] bg-[length:1.25rem] bg-[right_0.5rem_center] bg-no-repeat"
+              >
+                <option value="all">All Hazard Types</option>
+                {HAZARD_CATEGORY_ORDER.map(category => (
+                  <option key={category} value={category}>
+                    {HAZARD_CATEGORIES[category].icon} {HAZARD_CATEGORIES[category].label}
+                  </option>
+                ))}
+              </select>
             </div>
 
             <div className="flex items-center gap-2 flex-wrap">
-              {selectedReports.size > 0 && (
+              {selectedReports.size > 0 && can('markResolved') && (
                 <motion.button
                   initial={{ opacity: 0, scale: 0.9 }}
                   animate={{ opacity: 1, scale: 1 }}
@@ -440,6 +650,28 @@ function AdminContent() {
                   Mark {selectedReports.size} as Cleaned
                 </motion.button>
               )}
+              {selectedReports.size > 1 && can('merge') && (
+                <motion.button
+                  initial={{ opacity: 0, scale: 0.9 }}
+                  animate={{ opacity: 1, scale: 1 }}
+                  onClick={handleOpenMerge}
+                  className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-medium rounded-lg transition-colors flex items-center gap-2"
+                >
+                  <Merge className="w-4 h-4" />
+                  Merge {selectedReports.size} Reports
+                </motion.button>
+              )}
+              {can('migratePhotos') && (
+                <button
+                  onClick={handleMigratePhotos}
+                  disabled={migrationProgress !== null}
+                  className="px-4 py-2 bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 text-sm font-medium rounded-lg transition-colors flex items-center gap-2"
+                  title="Move photos stored inline in the database into Firebase Storage"
+                >
+                  <ImageUp className="w-4 h-4" />
+                  {migrationProgress ? `Migrating ${migrationProgress}` : 'Migrate Photos'}
+                </button>
+              )}
             </div>
           </div>
 
@@ -503,16 +735,15 @@ function AdminContent() {
                           />
                         </div>
                         <div className="flex items-start gap-3">
-                          {(report.photoBase64 || report.photoUrl) && (
-                            <img
-                              src={report.photoUrl || report.photoBase64}
-                              alt=""
-                              className="w-12 h-12 rounded-lg object-cover flex-shrink-0"
-                            />
-                          )}
+                          <PhotoThumbnailButton report={report} onOpen={() => setGalleryReport(report)} />
                           <div className="flex flex-col">
+                            <p className="text-xs font-medium text-gray-500 dark:text-gray-400">
+                              {HAZARD_CATEGORIES[report.category ?? DEFAULT_HAZARD_CATEGORY].icon}{' '}
+                              {HAZARD_CATEGORIES[report.category ?? DEFAULT_HAZARD_CATEGORY].label}
+                              {report.severity && ` · ${HAZARD_SEVERITIES[report.severity].label}`}
+                            </p>
                             <p className="text-sm text-gray-900 dark:text-white line-clamp-2">
-                              {report.desc || 'Broken glass hazard'}
+                              {report.desc || `${HAZARD_CATEGORIES[report.category ?? DEFAULT_HAZARD_CATEGORY].label} hazard`}
                             </p>
                             <div className="flex items-center gap-2 mt-1">
                               {report.flagged && (
@@ -525,6 +756,37 @@ function AdminContent() {
                                   <SearchX className="w-3 h-3" /> No Glass Found
                                 </span>
                               )}
+                              {duplicateGroups[report.id] && (
+                                <button
+                                  onClick={() => setSelectedReports(new Set(duplicateGroups[report.id]))}
+                                  className="text-xs text-indigo-600 dark:text-indigo-400 flex items-center gap-1 hover:underline"
+                                  title="Select the reports at this spot"
+                                >
+                                  <Copy className="w-3 h-3" /> Possible duplicate ({duplicateGroups[report.id].length})
+                                </button>
+                              )}
+                              {report.mergedFrom && report.mergedFrom.length > 0 && (
+                                <span className="text-xs text-gray-500 dark:text-gray-400 flex items-center gap-1">
+                                  <Merge className="w-3 h-3" /> Merged from {report.mergedFrom.length + 1} reports
+                                </span>
+                              )}
+                              {report.syncStatus === 'conflict' && (
+                                <span className="text-xs text-red-600 dark:text-red-400 flex items-center gap-1">
+                                  <GitMerge className="w-3 h-3" /> Sync conflict
+                                  <button
+                                    onClick={() => handleResolveConflict(report.id, 'local')}
+                                    className="ml-1 underline hover:no-underline"
+                                  >
+                                    Keep mine
+                                  </button>
+                                  <button
+                                    onClick={() => handleResolveConflict(report.id, 'remote')}
+                                    className="ml-1 underline hover:no-underline"
+                                  >
+                                    Use synced
+                                  </button>
+                                </span>
+                              )}
                             </div>
                           </div>
                         </div>
@@ -537,18 +799,27 @@ function AdminContent() {
                               ? 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-400'
                               : report.resolved
                               ? 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300'
+                              : isExpired(report)
+                              ? 'bg-sky-100 text-sky-800 dark:bg-sky-900/50 dark:text-sky-300'
                               : 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300'
                           }`}>
-                            {report.archived ? 'Archived' : report.resolved ? 'Resolved' : 'Active'}
+                            {report.archived ? 'Archived' : report.resolved ? 'Resolved' : isExpired(report) ? 'Expired' : 'Active'}
                           </span>
                         </div>
                         <div className="text-sm text-gray-500 dark:text-gray-400 text-center">
-                          {report.clearedCount}/3
+                          <button
+                            onClick={() => setExplainReport(report)}
+                            className="hover:underline"
+                            title={report.resolved ? 'Why resolved?' : 'Confirmations'}
+                          >
+                            {report.clearedCount}/{confirmationRules.cleared.minDevices}
+                          </button>
                         </div>
                         <div className="flex items-center gap-2">
                           <button
                             onClick={() => handleToggleFlagged(report.id)}
-                            className={`p-3 rounded-xl transition-colors ${
+                            disabled={!can('flag')}
+                            className={`p-3 rounded-xl transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
                               report.flagged
                                 ? 'bg-amber-100 text-amber-600 dark:bg-amber-900/50 dark:text-amber-400'
                                 : 'hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-400'
@@ -559,7 +830,8 @@ function AdminContent() {
                           </button>
                           <button
                             onClick={() => handleToggleNoGlassFound(report.id)}
-                            className={`p-3 rounded-xl transition-colors ${
+                            disabled={!can('toggleNoGlassFound')}
+                            className={`p-3 rounded-xl transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
                               report.noGlassFound
                                 ? 'bg-purple-100 text-purple-600 dark:bg-purple-900/50 dark:text-purple-400'
                                 : 'hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-400'
@@ -568,7 +840,7 @@ function AdminContent() {
                           >
                             <SearchX className="w-5 h-5" />
                           </button>
-                          {report.archived ? (
+                          {!can('archive') ? null : report.archived ? (
                             <button
                               onClick={() => handleUnarchive(report.id)}
                               className="p-3 rounded-xl hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-400 transition-colors"
@@ -607,15 +879,230 @@ function AdminContent() {
                   reportLocation={null}
                   onReportLocationChange={() => {}}
                   isAdmin={true}
-                  onToggleResolved={handleToggleResolved}
-                  onToggleFlagged={handleToggleFlagged}
-                  onToggleNoGlassFound={handleToggleNoGlassFound}
+                  onToggleResolved={can('markResolved') ? handleToggleResolved : undefined}
+                  onToggleFlagged={can('flag') ? handleToggleFlagged : undefined}
+                  onToggleNoGlassFound={can('toggleNoGlassFound') ? handleToggleNoGlassFound : undefined}
                 />
               </motion.div>
             )}
           </AnimatePresence>
         </div>
       </div>
+
+      {/* Merge duplicates */}
+      <AnimatePresence>
+        {mergeCandidates && (
+          <>
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              onClick={() => !isMerging && setMergeCandidates(null)}
+              className="fixed inset-0 bg-black/50 z-[3000]"
+            />
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              className="fixed inset-4 sm:inset-auto sm:left-1/2 sm:top-1/2 sm:-translate-x-1/2 sm:-translate-y-1/2 sm:max-w-lg sm:w-full bg-white dark:bg-gray-900 rounded-2xl shadow-2xl z-[3001] overflow-hidden flex flex-col max-h-[90vh]"
+            >
+              <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                  Merge {mergeCandidates.length} Reports
+                </h2>
+                <button
+                  onClick={() => setMergeCandidates(null)}
+                  disabled={isMerging}
+                  className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+                  aria-label="Close"
+                >
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+              <div className="p-4 overflow-y-auto">
+                <p className="text-sm text-gray-600 dark:text-gray-300 mb-3">
+                  Choose the report to keep. Confirmations, photos and descriptions from the others are added to it, and the others are removed.
+                </p>
+                {mergeSpreadMeters > DUPLICATE_RADIUS_METERS && (
+                  <p className="text-sm text-amber-700 dark:text-amber-300 bg-amber-50 dark:bg-amber-900/30 rounded-lg p-2 mb-3">
+                    These reports are up to {Math.round(mergeSpreadMeters)} m apart. Check they are the same hazard.
+                  </p>
+                )}
+                <div className="space-y-2">
+                  {mergeCandidates.map(report => (
+                    <label
+                      key={report.id}
+                      className={`flex items-start gap-3 p-3 rounded-xl border cursor-pointer transition-colors ${
+                        mergeSurvivorId === report.id
+                          ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-900/30'
+                          : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800'
+                      }`}
+                    >
+                      <input
+                        type="radio"
+                        name="mergeSurvivor"
+                        checked={mergeSurvivorId === report.id}
+                        onChange={() => setMergeSurvivorId(report.id)}
+                        className="mt-1 text-indigo-600 focus:ring-indigo-500"
+                      />
+                      <div className="min-w-0">
+                        <p className="text-xs font-medium text-gray-500 dark:text-gray-400">
+                          {HAZARD_CATEGORIES[report.category ?? DEFAULT_HAZARD_CATEGORY].icon}{' '}
+                          {HAZARD_CATEGORIES[report.category ?? DEFAULT_HAZARD_CATEGORY].label}
+                          {' · '}{formatDate(report.date)}
+                        </p>
+                        <p className="text-sm text-gray-900 dark:text-white line-clamp-2">
+                          {report.desc || `${HAZARD_CATEGORIES[report.category ?? DEFAULT_HAZARD_CATEGORY].label} hazard`}
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                          {report.stillThereCount} still there · {report.clearedCount} cleared · {getReportPhotos(report).length} photos
+                        </p>
+                      </div>
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div className="flex gap-2 p-4 border-t border-gray-200 dark:border-gray-700">
+                <button
+                  onClick={() => setMergeCandidates(null)}
+                  disabled={isMerging}
+                  className="flex-1 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-800 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-200 text-sm font-medium rounded-lg transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleMerge}
+                  disabled={isMerging}
+                  className="flex-1 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 text-white text-sm font-medium rounded-lg transition-colors"
+                >
+                  {isMerging ? 'Merging...' : 'Merge'}
+                </button>
+              </div>
+            </motion.div>
+          </>
+        )}
+      </AnimatePresence>
+
+      {/* Confirmations and their weights */}
+      <AnimatePresence>
+        {explainReport && explanation && (
+          <>
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              onClick={() => setExplainReport(null)}
+              className="fixed inset-0 bg-black/50 z-[3000]"
+            />
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              className="fixed inset-4 sm:inset-auto sm:left-1/2 sm:top-1/2 sm:-translate-x-1/2 sm:-translate-y-1/2 sm:max-w-lg sm:w-full bg-white dark:bg-gray-900 rounded-2xl shadow-2xl z-[3001] overflow-hidden flex flex-col max-h-[90vh]"
+            >
+              <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                  {explainReport.resolved ? 'Why Resolved' : 'Confirmations'}
+                </h2>
+                <button
+                  onClick={() => setExplainReport(null)}
+                  className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+                  aria-label="Close"
+                >
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+              <div className="p-4 overflow-y-auto">
+                <p className="text-sm text-gray-600 dark:text-gray-300 mb-3">
+                  {explanation.resolvedByCouncil
+                    ? `Resolved by a council member. The counting "It's Cleared" votes weigh ${explanation.progress.weight.toFixed(1)} of the ${explanation.progress.requiredWeight} needed.`
+                    : explainReport.resolved
+                    ? `Resolved by ${explanation.progress.devices} "It's Cleared" votes weighing ${explanation.progress.weight.toFixed(1)} (${explanation.progress.requiredWeight} needed, from at least ${explanation.progress.requiredDevices} devices).`
+                    : `Counting "It's Cleared" votes weigh ${explanation.progress.weight.toFixed(1)} of the ${explanation.progress.requiredWeight} needed, from ${explanation.progress.devices} of at least ${explanation.progress.requiredDevices} devices.`}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+                  A device starts at weight {trustConfig.newDeviceWeight} and gains {trustConfig.agreeBonus} for each past vote that matched what happened to the hazard, or loses {trustConfig.disagreePenalty} for each that didn&apos;t.
+                  {explanation.rules.cleared.requirePhoto && ' "It\'s Cleared" votes only count with a photo.'}
+                  {explanation.rules.cleared.staffOnly && ' Only council staff votes resolve hazards.'}
+                </p>
+                {explanation.votes.length === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">No confirmations yet.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {explanation.votes.map(vote => (
+                      <div
+                        key={`${vote.kind}-${vote.deviceId}-${vote.timestamp}`}
+                        className="flex items-center justify-between gap-3 p-3 rounded-xl border border-gray-200 dark:border-gray-700"
+                      >
+                        <div className="min-w-0">
+                          <p className={`text-sm font-medium ${VOTE_STYLES[vote.kind].className}`}>
+                            {VOTE_STYLES[vote.kind].label}
+                            {!vote.counts && <span className="ml-1 text-xs font-normal text-gray-500 dark:text-gray-400">(doesn&apos;t count)</span>}
+                          </p>
+                          <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                            {vote.staff ? 'Council staff' : 'Device'} {vote.deviceId.slice(0, 8)} · {formatDate(vote.timestamp)}
+                          </p>
+                        </div>
+                        <div className="text-right flex-shrink-0">
+                          <p className="text-sm font-semibold text-gray-900 dark:text-white">
+                            ×{vote.weight.toFixed(2)}
+                          </p>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">
+                            {vote.record.agreed} right · {vote.record.disagreed} wrong
+                          </p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </motion.div>
+          </>
+        )}
+      </AnimatePresence>
+
+      {/* Photo gallery */}
+      <AnimatePresence>
+        {galleryReport && (
+          <>
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              onClick={() => setGalleryReport(null)}
+              className="fixed inset-0 bg-black/50 z-[3000]"
+            />
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              className="fixed inset-4 sm:inset-auto sm:left-1/2 sm:top-1/2 sm:-translate-x-1/2 sm:-translate-y-1/2 sm:max-w-lg sm:w-full bg-white dark:bg-gray-900 rounded-2xl shadow-2xl z-[3001] overflow-hidden flex flex-col max-h-[90vh]"
+            >
+              <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white line-clamp-1">
+                  {galleryReport.desc || 'Broken glass hazard'}
+                </h2>
+                <button
+                  onClick={() => setGalleryReport(null)}
+                  className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+                  aria-label="Close"
+                >
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+              <div className="p-4 overflow-y-auto">
+                <PhotoGallery photos={getReportPhotos(galleryReport)} className="h-72 sm:h-96" />
+              </div>
+            </motion.div>
+          </>
+        )}
+      </AnimatePresence>
     </main>
   );
 }
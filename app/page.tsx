@@ -1,16 +1,32 @@
 'use client';
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import dynamic from 'next/dynamic';
 import { motion, AnimatePresence } from 'framer-motion';
 import toast from 'react-hot-toast';
 import Header from '@/components/Header';
 import ReportForm from '@/components/ReportForm';
 import ProximityAlert from '@/components/ProximityAlert';
-import { Report, getActiveReports, addReport, incrementClearedCount, incrementStillThereCount, autoArchiveOldResolvedReports } from '@/lib/db';
+import SyncAreasPanel from '@/components/SyncAreasPanel';
+import AlertSettingsPanel from '@/components/AlertSettingsPanel';
+import WalkHistoryPanel from '@/components/WalkHistoryPanel';
+import RoutePlannerPanel from '@/components/RoutePlannerPanel';
+import StillTherePrompt from '@/components/StillTherePrompt';
+import { Walk, Report, getActiveReports, addReport, incrementClearedCount, incrementStillThereCount, autoArchiveOldResolvedReports } from '@/lib/db';
 import { generateId, getOrCreateDeviceId } from '@/lib/utils';
-import { initializeSync, syncPendingToFirestore, testFirebaseConnection } from '@/lib/sync';
-import { useProximityAlerts, useSuppressedReports, useProximityAlertsToggle } from '@/lib/useProximityAlerts';
+import { createPendingPhoto } from '@/lib/photos';
+import { HazardCategory, HazardSeverity } from '@/lib/hazards';
+import { initializeSync, syncPendingToFirestore, testFirebaseConnection, updateSyncLocation } from '@/lib/sync';
+import { useProximityAlerts, useSuppressedReports, useProximityAlertsToggle, useLookAheadAlertsToggle, ProximityPositionUpdate } from '@/lib/useProximityAlerts';
+import { useStillTherePrompts } from '@/lib/stillTherePrompts';
+import { getCurrentRole } from '@/lib/auth';
+import { describeHazardAhead } from '@/lib/lookAhead';
+import { useAlertActionQueue } from '@/lib/alertActions';
+import { useWalkTracker } from '@/lib/useWalkTracker';
+import { formatWalkDistance, formatWalkDuration } from '@/lib/walks';
+import { RoutePoint } from '@/lib/routing';
+import { SafeRoutePlan } from '@/lib/safeRoutes';
+import { findNearbyReports } from '@/lib/duplicates';
 
 // Dynamically import Map to avoid SSR issues with Google Maps
 const Map = dynamic(() => import('@/components/Map'), {
@@ -33,16 +49,36 @@ export default function Home() {
   const [showProximityAlert, setShowProximityAlert] = useState(false);
   const [proximityAlertDismissed, setProximityAlertDismissed] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [showSyncAreas, setShowSyncAreas] = useState(false);
+  const [showAlertSettings, setShowAlertSettings] = useState(false);
+  const [alertReportIds, setAlertReportIds] = useState<string[]>([]);
+  const [dismissedAheadId, setDismissedAheadId] = useState<string | null>(null);
+  const [showWalkHistory, setShowWalkHistory] = useState(false);
+  const [shownWalk, setShownWalk] = useState<Walk | null>(null);
+  const [showRoutePlanner, setShowRoutePlanner] = useState(false);
+  const [isPickingDestination, setIsPickingDestination] = useState(false);
+  const [routeDestination, setRouteDestination] = useState<RoutePoint | null>(null);
+  const [routePlan, setRoutePlan] = useState<SafeRoutePlan | null>(null);
 
   // Track if sync has been initialized
   const syncInitialized = useRef(false);
 
   // Proximity alerts system
   const { enabled: proximityAlertsEnabled, toggle: toggleProximityAlerts } = useProximityAlertsToggle();
+  const { enabled: lookAheadAlertsEnabled, toggle: toggleLookAheadAlerts } = useLookAheadAlertsToggle();
   const { suppressedIds, suppressReport } = useSuppressedReports();
+  const { activeWalk, startWalk, stopWalk, recordPosition } = useWalkTracker();
+  const { promptReport, checkPosition: checkPromptPosition, dismissPrompt } = useStillTherePrompts(reports);
+
+  // Each position fix feeds the walk track and "Is this still there?" prompts
+  const handlePosition = useCallback((update: ProximityPositionUpdate) => {
+    recordPosition(update);
+    checkPromptPosition(update.fix);
+  }, [recordPosition, checkPromptPosition]);
 
   // Handle proximity alert callbacks
-  const handleProximityAlertTriggered = useCallback(() => {
+  const handleProximityAlertTriggered = useCallback((reportIds: string[]) => {
+    setAlertReportIds(reportIds);
     if (!proximityAlertDismissed) {
       setShowProximityAlert(true);
     }
@@ -54,14 +90,28 @@ export default function Home() {
   }, []);
 
   // Use the proximity alerts hook
-  useProximityAlerts({
+  const { userLocation, hazardsAhead } = useProximityAlerts({
     reports,
     enabled: proximityAlertsEnabled,
     suppressedReportIds: suppressedIds,
+    lookAheadEnabled: lookAheadAlertsEnabled,
+    keepWatching: !!activeWalk, // Track the walk even with alerts off
+    onPosition: handlePosition,
     onAlertTriggered: handleProximityAlertTriggered,
     onAlertCleared: handleProximityAlertCleared,
   });
 
+  // Nearest hazard on the path ahead, unless dismissed or already alerting
+  const nearestAhead = hazardsAhead[0];
+  const showAheadAlert = !showProximityAlert && !!nearestAhead && nearestAhead.report.id !== dismissedAheadId;
+
+  // Keep synced areas centred on the user as they move
+  useEffect(() => {
+    if (userLocation) {
+      updateSyncLocation(userLocation.lat, userLocation.lng);
+    }
+  }, [userLocation]);
+
   // Load reports and initialize sync
   useEffect(() => {
     if (syncInitialized.current) return;
@@ -107,16 +157,24 @@ export default function Home() {
   }, []);
 
   // Handle report submission
-  const handleSubmitReport = useCallback(async (desc: string, photoBase64?: string) => {
+  const handleSubmitReport = useCallback(async (
+    desc: string,
+    photos: string[],
+    category: HazardCategory,
+    severity: HazardSeverity
+  ) => {
     if (!reportLocation) return;
 
     const reportId = generateId();
+    const deviceId = getOrCreateDeviceId();
     const newReport = {
       id: reportId,
       lat: reportLocation[0],
       lng: reportLocation[1],
+      category,
+      severity,
       desc,
-      photoBase64,
+      photos: photos.map(photo => createPendingPhoto(photo, 'report', deviceId)),
       date: new Date().toISOString(),
       clearedCount: 0,
       resolved: false,
@@ -149,11 +207,18 @@ export default function Home() {
   }, [reportLocation, suppressReport]);
 
   // Handle "Still There" button
-  const handleStillThere = useCallback(async (id: string) => {
+  const handleStillThere = useCallback(async (id: string, photoBase64?: string) => {
     const deviceId = getOrCreateDeviceId();
     try {
-      const result = await incrementStillThereCount(id, deviceId);
+      const photo = photoBase64 ? createPendingPhoto(photoBase64, 'stillThere', deviceId) : undefined;
+      // Votes from signed-in council accounts count as staff votes
+      const staff = (await getCurrentRole().catch(() => null)) !== null;
+      const result = await incrementStillThereCount(id, deviceId, photo, staff);
 
+      if (result.reason === 'photoRequired') {
+        toast('Add a photo to confirm the hazard is still there', { icon: '📷' });
+        return;
+      }
       if (result.alreadyConfirmed) {
         toast('You already reported this recently', { icon: '⏰' });
         return;
@@ -176,12 +241,38 @@ export default function Home() {
     }
   }, []);
 
+  // Apply confirmations made from notification actions while the app was
+  // in the background
+  const handleQueuedActionsApplied = useCallback(async (count: number) => {
+    setReports(await getActiveReports());
+    toast.success(count === 1 ? 'Your confirmation was saved' : `${count} confirmations were saved`);
+    syncPendingToFirestore().catch(err => {
+      console.error('Background sync failed:', err);
+    });
+  }, []);
+
+  const handleNotificationDismissed = useCallback(() => {
+    setShowProximityAlert(false);
+    setProximityAlertDismissed(true);
+  }, []);
+
+  useAlertActionQueue({
+    onActionsApplied: handleQueuedActionsApplied,
+    onDismissed: handleNotificationDismissed,
+  });
+
   // Handle "Cleared" button
-  const handleCleared = useCallback(async (id: string) => {
+  const handleCleared = useCallback(async (id: string, photoBase64?: string) => {
     const deviceId = getOrCreateDeviceId();
     try {
-      const result = await incrementClearedCount(id, deviceId);
+      const photo = photoBase64 ? createPendingPhoto(photoBase64, 'cleared', deviceId) : undefined;
+      const staff = (await getCurrentRole().catch(() => null)) !== null;
+      const result = await incrementClearedCount(id, deviceId, photo, staff);
 
+      if (result.reason === 'photoRequired') {
+        toast('Add a photo to confirm the hazard is cleared', { icon: '📷' });
+        return;
+      }
       if (result.alreadyConfirmed) {
         toast('You already confirmed this hazard', { icon: '✓' });
         return;
@@ -191,7 +282,9 @@ export default function Home() {
         // Reload reports to get updated state
         const updatedReports = await getActiveReports();
         setReports(updatedReports);
-        toast.success('Thanks for confirming! Hazard will be cleared after 3 confirmations.');
+        toast.success(result.resolved
+          ? 'Thanks for confirming! The hazard is now marked as cleared.'
+          : 'Thanks for confirming! The hazard will be cleared once enough people confirm.');
 
         // Sync to Firebase in the background
         syncPendingToFirestore().catch(err => {
@@ -204,12 +297,61 @@ export default function Home() {
     }
   }, []);
 
+  // Active hazards already reported where the pin is
+  const nearbyReports = useMemo(
+    () => (reportLocation ? findNearbyReports(reports, reportLocation[0], reportLocation[1]) : []),
+    [reports, reportLocation]
+  );
+
   // Start reporting
   const handleStartReport = () => {
     setIsReporting(true);
     setShowReportForm(true);
   };
 
+  const handleStartWalk = async () => {
+    try {
+      setShownWalk(null);
+      await startWalk();
+      toast.success('Walk started');
+    } catch (error) {
+      console.error('Failed to start walk:', error);
+      toast.error('Failed to start walk');
+    }
+  };
+
+  const handleStopWalk = async () => {
+    try {
+      const walk = await stopWalk();
+      if (!walk) return;
+      const hazards = walk.hazardIds.length;
+      toast.success(
+        `Walk saved: ${formatWalkDistance(walk.distanceMeters)} in ${formatWalkDuration(walk)}, ${hazards} hazard${hazards !== 1 ? 's' : ''} avoided`,
+        { duration: 5000 }
+      );
+    } catch (error) {
+      console.error('Failed to save walk:', error);
+      toast.error('Failed to save walk');
+    }
+  };
+
+  // Let the user tap the map for the route destination
+  const handlePickDestination = () => {
+    setShowRoutePlanner(false);
+    setIsPickingDestination(true);
+  };
+
+  const handleDestinationPicked = useCallback((pos: [number, number]) => {
+    setRouteDestination({ lat: pos[0], lng: pos[1] });
+    setIsPickingDestination(false);
+    setShowRoutePlanner(true);
+  }, []);
+
+  const handleClearRoute = () => {
+    setRoutePlan(null);
+    setRouteDestination(null);
+  };
+
   // Cancel reporting
   const handleCancelReport = () => {
     setIsReporting(false);
@@ -217,12 +359,42 @@ export default function Home() {
     setReportLocation(null);
   };
 
+  // Confirm a hazard that was already reported instead of adding a duplicate
+  const handleConfirmExisting = async (id: string) => {
+    handleCancelReport();
+    await handleStillThere(id);
+  };
+
   return (
     <main className="h-screen h-[100dvh] flex flex-col bg-emerald-50 dark:bg-gray-900">
       <Header
         showAdminLink
         proximityAlertsEnabled={proximityAlertsEnabled}
         onToggleProximityAlerts={toggleProximityAlerts}
+        lookAheadAlertsEnabled={lookAheadAlertsEnabled}
+        onToggleLookAheadAlerts={toggleLookAheadAlerts}
+        onOpenAlertSettings={() => setShowAlertSettings(true)}
+        onOpenSyncAreas={() => setShowSyncAreas(true)}
+        onOpenWalkHistory={() => setShowWalkHistory(true)}
+        onOpenRoutePlanner={() => setShowRoutePlanner(true)}
+      />
+
+      <AlertSettingsPanel isOpen={showAlertSettings} onClose={() => setShowAlertSettings(false)} />
+      <SyncAreasPanel isOpen={showSyncAreas} onClose={() => setShowSyncAreas(false)} />
+      <WalkHistoryPanel
+        isOpen={showWalkHistory}
+        onClose={() => setShowWalkHistory(false)}
+        reports={reports}
+        onShowWalk={setShownWalk}
+      />
+      <RoutePlannerPanel
+        isOpen={showRoutePlanner}
+        onClose={() => setShowRoutePlanner(false)}
+        reports={reports}
+        userLocation={userLocation}
+        destination={routeDestination}
+        onPickDestination={handlePickDestination}
+        onPlanned={setRoutePlan}
       />
 
       {/* Map container */}
@@ -242,9 +414,100 @@ export default function Home() {
             isReporting={isReporting}
             reportLocation={reportLocation}
             onReportLocationChange={setReportLocation}
+            walkPath={(activeWalk ?? shownWalk)?.points}
+            routePath={routePlan?.route.route.path}
+            directRoutePath={routePlan && routePlan.route !== routePlan.direct ? routePlan.direct.route.path : undefined}
+            onPickLocation={isPickingDestination ? handleDestinationPicked : undefined}
+            pickedLocation={showRoutePlanner || routePlan ? routeDestination : null}
           />
         )}
 
+        {/* Destination picking indicator */}
+        <AnimatePresence>
+          {isPickingDestination && (
+            <motion.div
+              initial={{ opacity: 0, y: -20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -20 }}
+              className="absolute top-[76px] left-4 right-4 z-[1000]"
+            >
+              <div className="bg-indigo-100 dark:bg-indigo-900/80 rounded-xl p-4 shadow-lg flex items-center gap-3">
+                <p className="flex-1 text-sm font-medium text-indigo-800 dark:text-indigo-200">
+                  Tap the map to choose your destination
+                </p>
+                <button
+                  onClick={() => setIsPickingDestination(false)}
+                  className="px-3 py-1.5 text-sm font-medium text-indigo-700 dark:text-indigo-300 hover:bg-indigo-200 dark:hover:bg-indigo-800 rounded-lg transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        {/* Planned route summary */}
+        <AnimatePresence>
+          {routePlan && !isPickingDestination && (
+            <motion.div
+              initial={{ opacity: 0, y: -20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -20 }}
+              className="absolute top-[76px] left-4 right-4 z-[1000]"
+            >
+              <div className="bg-white/95 dark:bg-gray-800/95 rounded-xl p-3 shadow-lg flex items-center gap-3">
+                <div className="flex-1 text-sm">
+                  <p className="font-medium text-indigo-700 dark:text-indigo-300">
+                    {routePlan.approximate ? 'Approximate route' : 'Safe route'} · {formatWalkDistance(routePlan.route.route.distanceMeters)} · {routePlan.route.hazards.length} hazard{routePlan.route.hazards.length !== 1 ? 's' : ''}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {routePlan.route === routePlan.direct
+                      ? 'The direct route is already the safest'
+                      : `Direct route · ${formatWalkDistance(routePlan.direct.route.distanceMeters)} · ${routePlan.direct.hazards.length} hazard${routePlan.direct.hazards.length !== 1 ? 's' : ''}`}
+                  </p>
+                  {routePlan.approximate && (
+                    <p className="text-xs text-amber-700 dark:text-amber-300">
+                      Straight lines, not a walkable path
+                    </p>
+                  )}
+                </div>
+                <button
+                  onClick={handleClearRoute}
+                  className="px-3 py-1.5 text-sm font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                >
+                  Clear
+                </button>
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        {/* Walk tracking */}
+        {!isReporting && (
+          <div className="absolute bottom-28 left-4 z-[1000] flex flex-col items-start gap-2 safe-bottom">
+            {shownWalk && !activeWalk && (
+              <button
+                onClick={() => setShownWalk(null)}
+                className="px-3 py-1.5 bg-white/90 dark:bg-gray-800/90 text-xs font-medium text-gray-700 dark:text-gray-200 rounded-full shadow"
+              >
+                Hide walk
+              </button>
+            )}
+            <button
+              onClick={activeWalk ? handleStopWalk : handleStartWalk}
+              className={`px-4 py-2 rounded-full shadow-lg text-sm font-medium transition-colors ${
+                activeWalk
+                  ? 'bg-red-500 hover:bg-red-600 text-white'
+                  : 'bg-white/90 dark:bg-gray-800/90 text-emerald-700 dark:text-emerald-400 hover:bg-white dark:hover:bg-gray-800'
+              }`}
+            >
+              {activeWalk
+                ? `Stop walk · ${formatWalkDistance(activeWalk.distanceMeters)}`
+                : 'Start walk'}
+            </button>
+          </div>
+        )}
+
         {/* Reporting mode indicator */}
         <AnimatePresence>
           {isReporting && !showReportForm && (
@@ -326,16 +589,42 @@ export default function Home() {
         onClose={handleCancelReport}
         onSubmit={handleSubmitReport}
         location={reportLocation}
+        onLocationChange={setReportLocation}
+        nearbyReports={nearbyReports}
+        onConfirmExisting={handleConfirmExisting}
       />
 
       {/* Proximity alert */}
       <ProximityAlert
         isVisible={showProximityAlert}
+        category={reports.find(r => r.id === alertReportIds[0])?.category}
         onDismiss={() => {
           setShowProximityAlert(false);
           setProximityAlertDismissed(true);
         }}
       />
+
+      {/* Look-ahead alert */}
+      <ProximityAlert
+        isVisible={showAheadAlert}
+        category={nearestAhead?.report.category}
+        aheadDescription={nearestAhead ? describeHazardAhead(nearestAhead) : undefined}
+        onDismiss={() => setDismissedAheadId(nearestAhead?.report.id ?? null)}
+      />
+
+      {/* "Is this still there?" for a nearby hazard about to expire */}
+      <StillTherePrompt
+        report={showProximityAlert || showAheadAlert ? null : promptReport}
+        onStillThere={(id) => {
+          dismissPrompt();
+          handleStillThere(id);
+        }}
+        onCleared={(id) => {
+          dismissPrompt();
+          handleCleared(id);
+        }}
+        onDismiss={dismissPrompt}
+      />
     </main>
   );
 }
@@ -0,0 +1,267 @@
+'use client';
+
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  AlertStatus,
+  VibrationPatternName,
+  VIBRATION_PATTERNS,
+  ALERT_STATUSES,
+  ALERT_STATUS_ORDER,
+  ALERT_DISTANCE_OPTIONS,
+  SELF_REPORT_SUPPRESS_OPTIONS,
+  DEFAULT_ALERT_SETTINGS,
+  useAlertSettings,
+} from '@/lib/alertSettings';
+import { HazardSeverity, HAZARD_SEVERITIES, HAZARD_SEVERITY_ORDER } from '@/lib/hazards';
+import { playAlertTone, speakAlert, isSpeechSupported } from '@/lib/alertSound';
+import { buildAlertPhrase, getUserLocale } from '@/lib/alertPhrases';
+
+interface AlertSettingsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const selectClassName = 'w-full px-3 py-2 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white';
+const labelClassName = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2';
+
+function formatSuppressTime(minutes: number): string {
+  if (minutes === 0) return "Don't silence";
+  return minutes >= 60 ? `${minutes / 60} hour` : `${minutes} minutes`;
+}
+
+export default function AlertSettingsPanel({ isOpen, onClose }: AlertSettingsPanelProps) {
+  const { settings, updateSettings } = useAlertSettings();
+
+  const toggleStatus = (status: AlertStatus) => {
+    const alertStatuses = settings.alertStatuses.includes(status)
+      ? settings.alertStatuses.filter(s => s !== status)
+      : [...settings.alertStatuses, status];
+    updateSettings({ alertStatuses });
+  };
+
+  // Preview the vibration pattern when it is chosen
+  const handleVibrationChange = (vibration: VibrationPatternName) => {
+    updateSettings({ vibration });
+    const { pattern } = VIBRATION_PATTERNS[vibration];
+    if (pattern.length > 0 && typeof navigator !== 'undefined' && 'vibrate' in navigator) {
+      navigator.vibrate(pattern);
+    }
+  };
+
+  // Preview audio when it is switched on (also unlocks audio on iOS)
+  const handleSoundChange = (sound: boolean) => {
+    updateSettings({ sound });
+    if (sound) playAlertTone();
+  };
+
+  const handleSpeechChange = (speech: boolean) => {
+    updateSettings({ speech });
+    if (speech) {
+      const locale = getUserLocale();
+      speakAlert(buildAlertPhrase('glass', locale, { distance: 10, side: 'left' }), locale);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black/50 z-[3000]"
+          />
+
+          {/* Dialog */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            className="fixed inset-4 sm:inset-auto sm:left-1/2 sm:top-1/2 sm:-translate-x-1/2 sm:-translate-y-1/2 sm:max-w-md sm:w-full bg-white dark:bg-gray-900 rounded-2xl shadow-2xl z-[3001] overflow-hidden flex flex-col max-h-[90vh]"
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+                <svg className="w-6 h-6 text-amber-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+                </svg>
+                Alert Settings
+              </h2>
+              <button
+                onClick={onClose}
+                className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            {/* Content */}
+            <div className="flex-1 overflow-y-auto p-4 space-y-5">
+              {/* Distance */}
+              <div>
+                <label className={labelClassName}>Alert distance</label>
+                <select
+                  value={settings.radiusMultiplier}
+                  onChange={(e) => updateSettings({ radiusMultiplier: Number(e.target.value) })}
+                  className={selectClassName}
+                >
+                  {ALERT_DISTANCE_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  Standard alerts within 3 m of minor, 5 m of moderate and 10 m of severe hazards.
+                </p>
+              </div>
+
+              {/* Minimum severity */}
+              <div>
+                <label className={labelClassName}>Alert me about</label>
+                <div className="grid grid-cols-3 gap-2">
+                  {HAZARD_SEVERITY_ORDER.map((severity: HazardSeverity, i) => (
+                    <button
+                      key={severity}
+                      onClick={() => updateSettings({ minSeverity: severity })}
+                      className={`px-2 py-2 rounded-xl text-sm font-medium border transition-colors ${
+                        settings.minSeverity === severity
+                          ? 'bg-emerald-600 border-emerald-600 text-white'
+                          : 'border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800'
+                      }`}
+                    >
+                      {i === HAZARD_SEVERITY_ORDER.length - 1
+                        ? `${HAZARD_SEVERITIES[severity].label} only`
+                        : `${HAZARD_SEVERITIES[severity].label}+`}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Statuses */}
+              <div>
+                <h3 className={labelClassName}>Hazards that alert</h3>
+                <ul className="space-y-2">
+                  {ALERT_STATUS_ORDER.map(status => (
+                    <li key={status}>
+                      <label className="flex items-start gap-3 p-3 rounded-xl bg-gray-50 dark:bg-gray-800 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={settings.alertStatuses.includes(status)}
+                          onChange={() => toggleStatus(status)}
+                          className="mt-0.5 w-4 h-4 accent-emerald-600"
+                        />
+                        <span>
+                          <span className="block text-sm font-medium text-gray-900 dark:text-white">{ALERT_STATUSES[status].label}</span>
+                          <span className="block text-xs text-gray-500 dark:text-gray-400">{ALERT_STATUSES[status].description}</span>
+                        </span>
+                      </label>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              {/* Vibration */}
+              <div>
+                <label className={labelClassName}>Vibration</label>
+                <select
+                  value={settings.vibration}
+                  onChange={(e) => handleVibrationChange(e.target.value as VibrationPatternName)}
+                  className={selectClassName}
+                >
+                  {(Object.keys(VIBRATION_PATTERNS) as VibrationPatternName[]).map(name => (
+                    <option key={name} value={name}>{VIBRATION_PATTERNS[name].label}</option>
+                  ))}
+                </select>
+              </div>
+
+              {/* Sound */}
+              <div className="space-y-2">
+                <label className="flex items-center justify-between cursor-pointer">
+                  <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Play a chime</span>
+                  <input
+                    type="checkbox"
+                    checked={settings.sound}
+                    onChange={(e) => handleSoundChange(e.target.checked)}
+                    className="w-4 h-4 accent-emerald-600"
+                  />
+                </label>
+                {isSpeechSupported() && (
+                  <label className="flex items-center justify-between cursor-pointer">
+                    <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Speak alerts</span>
+                    <input
+                      type="checkbox"
+                      checked={settings.speech}
+                      onChange={(e) => handleSpeechChange(e.target.checked)}
+                      className="w-4 h-4 accent-emerald-600"
+                    />
+                  </label>
+                )}
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  e.g. &quot;Broken glass 10 metres ahead on your left&quot;, in your phone&apos;s language. Sounds follow your phone&apos;s silent switch where supported.
+                </p>
+              </div>
+
+              {/* Quiet hours */}
+              <div className="space-y-2">
+                <label className="flex items-center justify-between cursor-pointer">
+                  <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Quiet hours</span>
+                  <input
+                    type="checkbox"
+                    checked={settings.quietHours.enabled}
+                    onChange={(e) => updateSettings({ quietHours: { ...settings.quietHours, enabled: e.target.checked } })}
+                    className="w-4 h-4 accent-emerald-600"
+                  />
+                </label>
+                {settings.quietHours.enabled && (
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="time"
+                      value={settings.quietHours.start}
+                      onChange={(e) => updateSettings({ quietHours: { ...settings.quietHours, start: e.target.value } })}
+                      className={selectClassName}
+                    />
+                    <span className="text-sm text-gray-500 dark:text-gray-400">to</span>
+                    <input
+                      type="time"
+                      value={settings.quietHours.end}
+                      onChange={(e) => updateSettings({ quietHours: { ...settings.quietHours, end: e.target.value } })}
+                      className={selectClassName}
+                    />
+                  </div>
+                )}
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  No sound, speech, vibration or notifications during quiet hours. Alerts still show on screen.
+                </p>
+              </div>
+
+              {/* Self-report suppression */}
+              <div>
+                <label className={labelClassName}>Silence hazards I just reported for</label>
+                <select
+                  value={settings.selfReportSuppressMinutes}
+                  onChange={(e) => updateSettings({ selfReportSuppressMinutes: Number(e.target.value) })}
+                  className={selectClassName}
+                >
+                  {SELF_REPORT_SUPPRESS_OPTIONS.map(minutes => (
+                    <option key={minutes} value={minutes}>{formatSuppressTime(minutes)}</option>
+                  ))}
+                </select>
+              </div>
+
+              <button
+                onClick={() => updateSettings(DEFAULT_ALERT_SETTINGS)}
+                className="text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 underline"
+              >
+                Reset to defaults
+              </button>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,196 @@
+'use client';
+
+import { memo, useCallback, useMemo, useRef } from 'react';
+import { GoogleMap, useJsApiLoader, Marker, InfoWindow, Polyline, HeatmapLayerF } from '@react-google-maps/api';
+import { MapAdapterProps, MapIcon, MapMarkerSpec } from '@/lib/mapAdapter';
+
+const GOOGLE_MAPS_API_KEY = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY || '';
+
+// Libraries to load (defined outside component to prevent re-renders)
+const LIBRARIES: ("places" | "geometry" | "drawing" | "visualization")[] = ['visualization'];
+
+// Map container style
+const containerStyle = {
+  width: '100%',
+  height: '100%',
+};
+
+function toGoogleIcon(icon: MapIcon): google.maps.Icon {
+  return {
+    url: icon.url,
+    scaledSize: new google.maps.Size(icon.width, icon.height),
+    anchor: new google.maps.Point(icon.anchorX, icon.anchorY),
+  };
+}
+
+// Memoised so unchanged markers are skipped when the map re-renders
+const GoogleMarker = memo(function GoogleMarker({ marker }: { marker: MapMarkerSpec }) {
+  const { onDragEnd } = marker;
+  const handleDragEnd = useCallback((e: google.maps.MapMouseEvent) => {
+    if (e.latLng && onDragEnd) {
+      onDragEnd({ lat: e.latLng.lat(), lng: e.latLng.lng() });
+    }
+  }, [onDragEnd]);
+
+  return (
+    <Marker
+      position={marker.position}
+      icon={marker.icon ? toGoogleIcon(marker.icon) : undefined}
+      zIndex={marker.zIndex}
+      opacity={marker.opacity}
+      draggable={marker.draggable}
+      animation={marker.bounce ? google.maps.Animation.BOUNCE : undefined}
+      onClick={marker.onClick}
+      onDragEnd={onDragEnd ? handleDragEnd : undefined}
+    />
+  );
+});
+
+// Google Maps implementation of the map adapter
+export default function GoogleMapAdapter({
+  center,
+  zoom,
+  markers,
+  pins,
+  polylines,
+  heatmap,
+  popup,
+  onMapClick,
+  onLoad,
+  onIdle,
+}: MapAdapterProps) {
+  // Load Google Maps API with hook (better caching than LoadScript)
+  const { isLoaded, loadError } = useJsApiLoader({
+    googleMapsApiKey: GOOGLE_MAPS_API_KEY,
+    libraries: LIBRARIES,
+  });
+
+  const mapRef = useRef<google.maps.Map | null>(null);
+
+  const heatmapData = useMemo(
+    () => (isLoaded && heatmap
+      ? heatmap.map(point => ({ location: new google.maps.LatLng(point.lat, point.lng), weight: point.weight }))
+      : []),
+    [isLoaded, heatmap]
+  );
+
+  const handleLoad = useCallback((map: google.maps.Map) => {
+    mapRef.current = map;
+    onLoad({
+      panTo: position => map.panTo(position),
+      setZoom: level => map.setZoom(level),
+    });
+  }, [onLoad]);
+
+  const handleClick = useCallback((e: google.maps.MapMouseEvent) => {
+    if (e.latLng) onMapClick({ lat: e.latLng.lat(), lng: e.latLng.lng() });
+  }, [onMapClick]);
+
+  const handleIdle = useCallback(() => {
+    const map = mapRef.current;
+    const mapCenter = map?.getCenter();
+    const mapZoom = map?.getZoom();
+    const bounds = map?.getBounds();
+    if (!mapCenter || mapZoom === undefined || !bounds) return;
+
+    const ne = bounds.getNorthEast();
+    const sw = bounds.getSouthWest();
+    onIdle({
+      center: { lat: mapCenter.lat(), lng: mapCenter.lng() },
+      zoom: mapZoom,
+      bounds: { north: ne.lat(), east: ne.lng(), south: sw.lat(), west: sw.lng() },
+    });
+  }, [onIdle]);
+
+  // Show loading state while Google Maps loads
+  if (loadError) {
+    return (
+      <div className="relative w-full h-full flex items-center justify-center bg-red-50 dark:bg-red-900/20">
+        <div className="text-center p-4">
+          <svg className="w-12 h-12 text-red-500 mx-auto mb-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+          </svg>
+          <p className="text-red-600 dark:text-red-400 font-medium">Failed to load map</p>
+          <p className="text-red-500 dark:text-red-500 text-sm mt-1">Please check your internet connection</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isLoaded) {
+    return (
+      <div className="relative w-full h-full flex items-center justify-center bg-emerald-50 dark:bg-gray-900">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-4 border-emerald-200 border-t-emerald-600 mx-auto mb-4"></div>
+          <p className="text-emerald-600 dark:text-emerald-400 font-medium">Loading map...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <GoogleMap
+      mapContainerStyle={containerStyle}
+      center={center}
+      zoom={zoom}
+      onLoad={handleLoad}
+      onClick={handleClick}
+      onIdle={handleIdle}
+      options={{
+        disableDefaultUI: true,
+        zoomControl: false,
+        mapTypeControl: false,
+        streetViewControl: false,
+        fullscreenControl: false,
+        gestureHandling: 'greedy', // Allow single-finger pan on mobile
+        styles: [
+          {
+            featureType: 'poi',
+            elementType: 'labels',
+            stylers: [{ visibility: 'off' }],
+          },
+        ],
+      }}
+    >
+      {/* Report markers and cluster bubbles, or the heatmap in their place */}
+      {heatmap ? (
+        <HeatmapLayerF data={heatmapData} options={{ radius: 30, opacity: 0.7, dissipating: true }} />
+      ) : (
+        markers.map(marker => (
+          <GoogleMarker key={marker.id} marker={marker} />
+        ))
+      )}
+
+      {popup && (
+        <InfoWindow
+          position={popup.position}
+          onCloseClick={popup.onClose}
+          options={{
+            pixelOffset: new google.maps.Size(0, -popup.offsetY),
+            disableAutoPan: false,
+          }}
+        >
+          {popup.content}
+        </InfoWindow>
+      )}
+
+      {polylines.map(line => (
+        <Polyline
+          key={line.id}
+          path={line.path}
+          options={{
+            strokeColor: line.color,
+            strokeOpacity: line.opacity,
+            strokeWeight: line.weight,
+            clickable: false,
+            zIndex: line.zIndex,
+          }}
+        />
+      ))}
+
+      {pins.map(pin => (
+        <GoogleMarker key={pin.id} marker={pin} />
+      ))}
+    </GoogleMap>
+  );
+}
@@ -10,6 +10,12 @@ interface HeaderProps {
   onLogout?: () => void;
   proximityAlertsEnabled?: boolean;
   onToggleProximityAlerts?: () => void;
+  lookAheadAlertsEnabled?: boolean;
+  onToggleLookAheadAlerts?: () => void;
+  onOpenAlertSettings?: () => void;
+  onOpenSyncAreas?: () => void;
+  onOpenWalkHistory?: () => void;
+  onOpenRoutePlanner?: () => void;
   isAdmin?: boolean;
 }
 
@@ -18,6 +24,12 @@ export default function Header({
   onLogout,
   proximityAlertsEnabled = true,
   onToggleProximityAlerts,
+  lookAheadAlertsEnabled = true,
+  onToggleLookAheadAlerts,
+  onOpenAlertSettings,
+  onOpenSyncAreas,
+  onOpenWalkHistory,
+  onOpenRoutePlanner,
   isAdmin = false,
 }: HeaderProps) {
   const [isDark, setIsDark] = useState(false);
@@ -173,6 +185,91 @@ export default function Header({
                   </button>
                 )}
 
+                {/* Look-Ahead Alerts Toggle */}
+                {onToggleLookAheadAlerts && (
+                  <button
+                    onClick={() => {
+                      onToggleLookAheadAlerts();
+                      setMenuOpen(false);
+                    }}
+                    className="w-full flex items-center justify-between px-4 py-3 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors border-t border-gray-100 dark:border-gray-700"
+                  >
+                    <div className="flex items-center gap-3">
+                      <svg className={`w-5 h-5 ${lookAheadAlertsEnabled ? 'text-emerald-500' : 'text-gray-400'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19V5m0 0l-6 6m6-6l6 6" />
+                      </svg>
+                      <span className="whitespace-nowrap">Look-Ahead Alerts</span>
+                    </div>
+                    <div className={`w-10 h-6 rounded-full p-1 transition-colors ${lookAheadAlertsEnabled ? 'bg-emerald-500' : 'bg-gray-300 dark:bg-gray-600'}`}>
+                      <div className={`w-4 h-4 rounded-full bg-white shadow transition-transform ${lookAheadAlertsEnabled ? 'translate-x-4' : 'translate-x-0'}`} />
+                    </div>
+                  </button>
+                )}
+
+                {/* Alert Settings */}
+                {onOpenAlertSettings && (
+                  <button
+                    onClick={() => {
+                      onOpenAlertSettings();
+                      setMenuOpen(false);
+                    }}
+                    className="w-full flex items-center gap-3 px-4 py-3 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors border-t border-gray-100 dark:border-gray-700"
+                  >
+                    <svg className="w-5 h-5 text-amber-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+                    </svg>
+                    Alert Settings
+                  </button>
+                )}
+
+                {/* Sync Areas */}
+                {onOpenSyncAreas && (
+                  <button
+                    onClick={() => {
+                      onOpenSyncAreas();
+                      setMenuOpen(false);
+                    }}
+                    className="w-full flex items-center gap-3 px-4 py-3 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors border-t border-gray-100 dark:border-gray-700"
+                  >
+                    <svg className="w-5 h-5 text-sky-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7" />
+                    </svg>
+                    Sync Areas
+                  </button>
+                )}
+
+                {/* Safe Route */}
+                {onOpenRoutePlanner && (
+                  <button
+                    onClick={() => {
+                      onOpenRoutePlanner();
+                      setMenuOpen(false);
+                    }}
+                    className="w-full flex items-center gap-3 px-4 py-3 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors border-t border-gray-100 dark:border-gray-700"
+                  >
+                    <svg className="w-5 h-5 text-indigo-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7" />
+                    </svg>
+                    Safe Route
+                  </button>
+                )}
+
+                {/* Walk History */}
+                {onOpenWalkHistory && (
+                  <button
+                    onClick={() => {
+                      onOpenWalkHistory();
+                      setMenuOpen(false);
+                    }}
+                    className="w-full flex items-center gap-3 px-4 py-3 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors border-t border-gray-100 dark:border-gray-700"
+                  >
+                    <svg className="w-5 h-5 text-emerald-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7l5 5m0 0l-5 5m5-5H6" />
+                    </svg>
+                    Walk History
+                  </button>
+                )}
+
                 {showAdminLink && (
                   <Link
                     href="/admin"
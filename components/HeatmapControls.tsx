@@ -0,0 +1,88 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import {
+  HeatmapFilter,
+  HeatmapDayFilter,
+  HEATMAP_WINDOW_OPTIONS,
+  HEATMAP_DAY_FILTERS,
+} from '@/lib/heatmap';
+
+interface HeatmapControlsProps {
+  range: { start: number; end: number } | null; // First and last report days
+  filter: HeatmapFilter;
+  onChange: (filter: HeatmapFilter) => void;
+  reportCount: number; // Reports in the current window
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function formatDay(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString([], { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+export default function HeatmapControls({ range, filter, onChange, reportCount }: HeatmapControlsProps) {
+  const windowLabel = filter.windowDays === null
+    ? `Up to ${formatDay(filter.windowEnd)}`
+    : `${formatDay(filter.windowEnd - (filter.windowDays - 1) * DAY_MS)} – ${formatDay(filter.windowEnd)}`;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+      className="absolute top-4 left-4 right-4 z-[1000] bg-white/95 dark:bg-gray-800/95 rounded-xl shadow-lg p-3 space-y-2"
+    >
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium text-gray-900 dark:text-white">{windowLabel}</span>
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {reportCount} report{reportCount !== 1 ? 's' : ''}
+        </span>
+      </div>
+
+      {/* Time slider: moves the end of the window */}
+      {range && range.end > range.start && (
+        <input
+          type="range"
+          min={range.start}
+          max={range.end}
+          step={DAY_MS}
+          value={Math.min(Math.max(filter.windowEnd, range.start), range.end)}
+          onChange={(e) => onChange({ ...filter, windowEnd: Number(e.target.value) })}
+          className="w-full accent-rose-500"
+          aria-label="Show reports up to this day"
+        />
+      )}
+
+      <div className="flex flex-wrap gap-1">
+        {HEATMAP_WINDOW_OPTIONS.map(option => (
+          <button
+            key={option.label}
+            onClick={() => onChange({ ...filter, windowDays: option.days })}
+            className={`px-2.5 py-1 rounded-full text-xs font-medium transition-colors ${
+              filter.windowDays === option.days
+                ? 'bg-rose-500 text-white'
+                : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+        <span className="w-px bg-gray-200 dark:bg-gray-600 mx-1" />
+        {(Object.keys(HEATMAP_DAY_FILTERS) as HeatmapDayFilter[]).map(days => (
+          <button
+            key={days}
+            onClick={() => onChange({ ...filter, days })}
+            className={`px-2.5 py-1 rounded-full text-xs font-medium transition-colors ${
+              filter.days === days
+                ? 'bg-rose-500 text-white'
+                : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+            }`}
+          >
+            {HEATMAP_DAY_FILTERS[days]}
+          </button>
+        ))}
+      </div>
+    </motion.div>
+  );
+}
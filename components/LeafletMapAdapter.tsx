@@ -0,0 +1,162 @@
+'use client';
+
+import { memo, useEffect, useRef } from 'react';
+import L from 'leaflet';
+import 'leaflet.heat';
+import { MapContainer, TileLayer, Marker, Popup, Polyline, useMap, useMapEvents } from 'react-leaflet';
+import 'leaflet/dist/leaflet.css';
+import { LatLng, MapAdapterProps, MapIcon, MapMarkerSpec, MapViewState, getTileConfig } from '@/lib/mapAdapter';
+import { HeatmapPoint, HEATMAP_SEVERITY_WEIGHT } from '@/lib/heatmap';
+
+const HEATMAP_MAX_WEIGHT = Math.max(...Object.values(HEATMAP_SEVERITY_WEIGHT));
+
+// Icons are reused across renders; Leaflet compares them by reference
+const iconCache: Record<string, L.Icon> = {};
+
+function toLeafletIcon(icon: MapIcon): L.Icon {
+  const key = `${icon.url}|${icon.width}|${icon.height}|${icon.anchorX}|${icon.anchorY}`;
+  if (!iconCache[key]) {
+    iconCache[key] = L.icon({
+      iconUrl: icon.url,
+      iconSize: [icon.width, icon.height],
+      iconAnchor: [icon.anchorX, icon.anchorY],
+    });
+  }
+  return iconCache[key];
+}
+
+function getViewState(map: L.Map): MapViewState {
+  const center = map.getCenter();
+  const bounds = map.getBounds();
+  return {
+    center: { lat: center.lat, lng: center.lng },
+    zoom: map.getZoom(),
+    bounds: {
+      north: bounds.getNorth(),
+      east: bounds.getEast(),
+      south: bounds.getSouth(),
+      west: bounds.getWest(),
+    },
+  };
+}
+
+// Hands over the controller, reports clicks and movement, and applies
+// new center/zoom props the way GoogleMap does
+function MapBridge({ center, zoom, onMapClick, onLoad, onIdle }: Pick<MapAdapterProps, 'center' | 'zoom' | 'onMapClick' | 'onLoad' | 'onIdle'>) {
+  const map = useMapEvents({
+    click: (e) => onMapClick({ lat: e.latlng.lat, lng: e.latlng.lng }),
+    moveend: () => onIdle(getViewState(map)),
+  });
+
+  useEffect(() => {
+    onLoad({
+      panTo: position => map.panTo(position),
+      setZoom: level => map.setZoom(level),
+    });
+    onIdle(getViewState(map));
+  }, [map, onLoad, onIdle]);
+
+  const appliedViewRef = useRef({ center, zoom });
+  useEffect(() => {
+    if (appliedViewRef.current.center === center && appliedViewRef.current.zoom === zoom) return;
+    appliedViewRef.current = { center, zoom };
+    map.setView(center, zoom);
+  }, [map, center, zoom]);
+
+  return null;
+}
+
+function HeatLayer({ points }: { points: HeatmapPoint[] }) {
+  const map = useMap();
+
+  useEffect(() => {
+    const layer = L.heatLayer(
+      points.map(point => [point.lat, point.lng, point.weight] as L.HeatLatLngTuple),
+      { radius: 30, max: HEATMAP_MAX_WEIGHT }
+    );
+    map.addLayer(layer);
+    return () => {
+      map.removeLayer(layer);
+    };
+  }, [map, points]);
+
+  return null;
+}
+
+// Memoised so unchanged markers are skipped when the map re-renders
+const LeafletPin = memo(function LeafletPin({ pin }: { pin: MapMarkerSpec }) {
+  const { onClick, onDragEnd } = pin;
+  return (
+    <Marker
+      position={pin.position}
+      icon={pin.icon ? toLeafletIcon(pin.icon) : undefined}
+      zIndexOffset={pin.zIndex}
+      opacity={pin.opacity}
+      draggable={pin.draggable}
+      eventHandlers={{
+        click: () => onClick?.(),
+        dragend: (e) => {
+          const position: LatLng = (e.target as L.Marker).getLatLng();
+          onDragEnd?.({ lat: position.lat, lng: position.lng });
+        },
+      }}
+    />
+  );
+});
+
+// Leaflet/OpenStreetMap implementation of the map adapter; needs no API key
+export default function LeafletMapAdapter({
+  center,
+  zoom,
+  markers,
+  pins,
+  polylines,
+  heatmap,
+  popup,
+  onMapClick,
+  onLoad,
+  onIdle,
+}: MapAdapterProps) {
+  const tiles = getTileConfig();
+
+  return (
+    // isolate keeps Leaflet's pane z-indexes below the app's overlays
+    <div className="w-full h-full isolate">
+      <MapContainer center={center} zoom={zoom} zoomControl={false} className="w-full h-full">
+        <TileLayer url={tiles.url} attribution={tiles.attribution} />
+        <MapBridge center={center} zoom={zoom} onMapClick={onMapClick} onLoad={onLoad} onIdle={onIdle} />
+
+        {/* Report markers and cluster bubbles, or the heatmap in their place */}
+        {heatmap ? (
+          <HeatLayer points={heatmap} />
+        ) : (
+          markers.map(marker => (
+            <LeafletPin key={marker.id} pin={marker} />
+          ))
+        )}
+
+        {popup && (
+          <Popup
+            position={popup.position}
+            offset={[0, -popup.offsetY]}
+            eventHandlers={{ remove: popup.onClose }}
+          >
+            {popup.content}
+          </Popup>
+        )}
+
+        {[...polylines].sort((a, b) => (a.zIndex ?? 0) - (b.zIndex ?? 0)).map(line => (
+          <Polyline
+            key={line.id}
+            positions={line.path}
+            pathOptions={{ color: line.color, opacity: line.opacity, weight: line.weight, interactive: false }}
+          />
+        ))}
+
+        {pins.map(pin => (
+          <LeafletPin key={pin.id} pin={pin} />
+        ))}
+      </MapContainer>
+    </div>
+  );
+}
@@ -1,22 +1,38 @@
 'use client';
 
-import { useEffect, useState, useRef, useCallback } from 'react';
-import { GoogleMap, useJsApiLoader, Marker, InfoWindow, MarkerClusterer } from '@react-google-maps/api';
-import { Report, hasDeviceConfirmedCleared, hasDeviceConfirmedStillThereRecently } from '@/lib/db';
-import { getOrCreateDeviceId } from '@/lib/utils';
+import { useEffect, useState, useRef, useCallback, useMemo } from 'react';
+import dynamic from 'next/dynamic';
+import { Report } from '@/lib/db';
+import { RuleContext, createRuleContext, checkConfirmation, getClearedProgress } from '@/lib/confirmationRules';
+import { getOrCreateDeviceId, compressImage } from '@/lib/utils';
 import { formatDate, calculateDistance } from '@/lib/utils';
+import { getReportPhotos, getPhotoThumbnailSrc, PHOTO_MAX_WIDTH, PHOTO_QUALITY } from '@/lib/photos';
+import { LatLngBounds, padBounds } from '@/lib/geo';
+import { HazardCategory, HAZARD_CATEGORIES, HAZARD_CATEGORY_ORDER, HAZARD_SEVERITIES, DEFAULT_HAZARD_CATEGORY } from '@/lib/hazards';
+import { useHazardAcknowledgements, isAcknowledgementActive, ACKNOWLEDGEMENT_MODES, ACKNOWLEDGEMENT_MODE_ORDER } from '@/lib/acknowledgements';
+import { HeatmapFilter, defaultHeatmapFilter, getReportDateRange, filterReportsByTime, toHeatmapPoints } from '@/lib/heatmap';
+import { buildClusterIndex, getClusters } from '@/lib/clustering';
+import { getConfidence, getMarkerOpacity, isExpired, DEFAULT_DECAY_CONFIG } from '@/lib/decay';
+import { MapAdapterProps, MapController, MapIcon, MapMarkerSpec, MapPolylineSpec, MapViewState, getMapProviderName } from '@/lib/mapAdapter';
+import HeatmapControls from './HeatmapControls';
 import { motion, AnimatePresence } from 'framer-motion';
 
-const GOOGLE_MAPS_API_KEY = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY || '';
-
-// Libraries to load (defined outside component to prevent re-renders)
-const LIBRARIES: ("places" | "geometry" | "drawing" | "visualization")[] = [];
+function MapLoading() {
+  return (
+    <div className="relative w-full h-full flex items-center justify-center bg-emerald-50 dark:bg-gray-900">
+      <div className="text-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-4 border-emerald-200 border-t-emerald-600 mx-auto mb-4"></div>
+        <p className="text-emerald-600 dark:text-emerald-400 font-medium">Loading map...</p>
+      </div>
+    </div>
+  );
+}
 
-// Map container style
-const containerStyle = {
-  width: '100%',
-  height: '100%',
-};
+// Only the configured provider's code is loaded
+const MapAdapter = dynamic<MapAdapterProps>(
+  () => (getMapProviderName() === 'leaflet' ? import('./LeafletMapAdapter') : import('./GoogleMapAdapter')),
+  { ssr: false, loading: MapLoading }
+);
 
 // Default center (London) - fallback if no saved location and geolocation fails
 const defaultCenter = {
@@ -26,6 +42,9 @@ const defaultCenter = {
 const DEFAULT_ZOOM = 12; // Wider zoom for fallback
 const USER_LOCATION_ZOOM = 16; // Closer zoom when we have user location
 
+// Extra margin rendered around the viewport so markers don't pop in while panning
+const VIEWPORT_PADDING = 0.25;
+
 // localStorage keys for persisting map state
 const STORAGE_KEY_CENTER = 'lastMapCenter';
 const STORAGE_KEY_ZOOM = 'lastMapZoom';
@@ -87,6 +106,73 @@ const createResolvedIcon = () => {
 
 const resolvedIconUrl = createResolvedIcon();
 
+// Pin in the category's colour with its icon; broken glass keeps the warning pin
+const createCategoryIcon = (category: HazardCategory) => {
+  const { color, icon } = HAZARD_CATEGORIES[category];
+  const svg = `
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 38 48" width="38" height="48">
+      <ellipse cx="19" cy="46" rx="8" ry="2" fill="rgba(0,0,0,0.2)"/>
+      <path fill="${color}" stroke="#ffffff" stroke-width="2" d="M19 2C8.5 2 0 10.5 0 21c0 14 19 25 19 25s19-11 19-25C38 10.5 29.5 2 19 2z"/>
+      <circle cx="19" cy="20" r="12" fill="#ffffff"/>
+      <text x="19" y="25" font-size="14" text-anchor="middle">${icon}</text>
+    </svg>
+  `;
+  return `data:image/svg+xml,${encodeURIComponent(svg)}`;
+};
+
+const categoryIconUrls = Object.fromEntries(
+  HAZARD_CATEGORY_ORDER.map(category => [category, createCategoryIcon(category)])
+) as Record<HazardCategory, string>;
+
+// Marker icon for a report: green when cleared, otherwise by category
+function getMarkerIcon(report: Report): MapIcon {
+  if (report.resolved) {
+    return { url: resolvedIconUrl, width: 48, height: 44, anchorX: 24, anchorY: 44 };
+  }
+  const category = report.category ?? DEFAULT_HAZARD_CATEGORY;
+  if (category === 'glass') {
+    return { url: ACTIVE_PIN_ICON, width: 48, height: 44, anchorX: 24, anchorY: 44 };
+  }
+  return { url: categoryIconUrls[category], width: 38, height: 48, anchorX: 19, anchorY: 46 };
+}
+
+// Cluster bubble: a ring split between active (red) and cleared (green)
+// reports, with both counts in the middle
+const clusterIconCache: Record<string, MapIcon> = {};
+
+function getClusterIcon(activeCount: number, clearedCount: number): MapIcon {
+  const key = `${activeCount}:${clearedCount}`;
+  if (clusterIconCache[key]) return clusterIconCache[key];
+
+  const count = activeCount + clearedCount;
+  const size = Math.round(40 + Math.min(Math.log10(count), 3) * 8);
+  const c = size / 2;
+  const r = c - 4;
+  const circumference = 2 * Math.PI * r;
+  const activeLength = (circumference * activeCount) / count;
+  const label = activeCount > 0 && clearedCount > 0
+    ? `<text x="${c}" y="${c - 1}" font-size="13" font-weight="700" fill="#b91c1c" text-anchor="middle">${activeCount}</text>
+       <text x="${c}" y="${c + 11}" font-size="10" font-weight="600" fill="#15803d" text-anchor="middle">✓${clearedCount}</text>`
+    : `<text x="${c}" y="${c + 5}" font-size="14" font-weight="700" fill="${activeCount > 0 ? '#b91c1c' : '#15803d'}" text-anchor="middle">${activeCount > 0 ? activeCount : `✓${clearedCount}`}</text>`;
+
+  const svg = `
+    <svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${size} ${size}">
+      <circle cx="${c}" cy="${c}" r="${r}" fill="#ffffff" stroke="#22c55e" stroke-width="6"/>
+      <circle cx="${c}" cy="${c}" r="${r}" fill="none" stroke="#ef4444" stroke-width="6"
+        stroke-dasharray="${activeLength} ${circumference}" transform="rotate(-90 ${c} ${c})"/>
+      ${label}
+    </svg>
+  `;
+  clusterIconCache[key] = {
+    url: `data:image/svg+xml,${encodeURIComponent(svg)}`,
+    width: size,
+    height: size,
+    anchorX: c,
+    anchorY: c,
+  };
+  return clusterIconCache[key];
+}
+
 // Amber draggable pin for reporting
 const createDraggableIcon = () => {
   const svg = `
@@ -121,20 +207,149 @@ const createUserLocationIcon = () => {
   return `data:image/svg+xml,${encodeURIComponent(svg)}`;
 };
 
-const draggableIcon = createDraggableIcon();
-const userIcon = createUserLocationIcon();
+// Indigo pin for a chosen location (e.g. a route destination)
+const createPickedLocationIcon = () => {
+  const svg = `
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 38 48" width="38" height="48">
+      <ellipse cx="19" cy="46" rx="8" ry="2" fill="rgba(0,0,0,0.2)"/>
+      <path fill="#4f46e5" stroke="#ffffff" stroke-width="2" d="M19 2C8.5 2 0 10.5 0 21c0 14 19 25 19 25s19-11 19-25C38 10.5 29.5 2 19 2z"/>
+      <circle cx="19" cy="20" r="6" fill="#ffffff"/>
+    </svg>
+  `;
+  return `data:image/svg+xml,${encodeURIComponent(svg)}`;
+};
+
+const draggableIcon: MapIcon = { url: createDraggableIcon(), width: 60, height: 80, anchorX: 30, anchorY: 76 };
+const userIcon: MapIcon = { url: createUserLocationIcon(), width: 28, height: 28, anchorX: 14, anchorY: 14 };
+const pickedLocationIcon: MapIcon = { url: createPickedLocationIcon(), width: 38, height: 48, anchorX: 19, anchorY: 46 };
+
+// Category and severity, e.g. "🍾 Broken Glass · Severe"
+function HazardTypeLabel({ report }: { report: Report }) {
+  const category = HAZARD_CATEGORIES[report.category ?? DEFAULT_HAZARD_CATEGORY];
+  const severity = report.severity ? HAZARD_SEVERITIES[report.severity] : null;
+  return (
+    <p className="text-xs font-medium text-gray-600 mb-1">
+      <span aria-hidden="true">{category.icon}</span> {category.label}
+      {severity && <span className={report.severity === 'severe' ? 'text-red-600' : ''}> · {severity.label}</span>}
+    </p>
+  );
+}
+
+// Newest photo first in the InfoWindow, with a count of the rest
+function ReportPhotoPreview({ report, heightClass }: { report: Report; heightClass: string }) {
+  const photos = getReportPhotos(report);
+  if (photos.length === 0) return null;
+  const latest = photos[photos.length - 1];
+
+  return (
+    <a
+      href={latest.photoUrl}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="relative block mb-3 rounded-lg overflow-hidden"
+    >
+      <img
+        src={getPhotoThumbnailSrc(latest)}
+        alt="Hazard photo"
+        loading="lazy"
+        decoding="async"
+        className={`w-full ${heightClass} object-cover`}
+      />
+      {photos.length > 1 && (
+        <span className="absolute bottom-1.5 right-1.5 px-2 py-0.5 bg-black/60 text-white text-xs font-medium rounded-full">
+          {photos.length} photos
+        </span>
+      )}
+    </a>
+  );
+}
+
+// Snooze or mute alerts for this hazard on this device
+function AcknowledgementControls({ report, deviceId }: { report: Report; deviceId: string }) {
+  const { acknowledgements, acknowledge, clear } = useHazardAcknowledgements();
+  const ack = acknowledgements.get(report.id);
+  const isActive = !!ack && isAcknowledgementActive(ack, report, deviceId);
+
+  if (ack && isActive) {
+    const status = ack.mode === 'snooze' && ack.until
+      ? `Alerts snoozed until ${new Date(ack.until).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' })}`
+      : ack.mode === 'untilChanged'
+        ? 'Alerts muted until this hazard changes'
+        : 'Alerts muted for this hazard';
+    return (
+      <div className="flex items-center justify-between gap-2 mb-3 p-2 bg-amber-50 rounded-lg">
+        <span className="text-xs text-amber-800">{status}</span>
+        <button
+          onClick={() => clear(report.id)}
+          className="text-xs font-medium text-amber-700 hover:underline whitespace-nowrap"
+        >
+          Alert me again
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-3">
+      <p className="text-xs text-gray-500 mb-1">Seen this one? Don&apos;t alert me:</p>
+      <div className="flex gap-1">
+        {ACKNOWLEDGEMENT_MODE_ORDER.map(mode => (
+          <button
+            key={mode}
+            onClick={() => acknowledge(report, mode)}
+            title={ACKNOWLEDGEMENT_MODES[mode].description}
+            className="flex-1 py-1 text-[11px] font-medium text-gray-600 bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+          >
+            {ACKNOWLEDGEMENT_MODES[mode].label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
 
 interface ReportCardProps {
   report: Report;
-  onStillThere: (id: string) => void;
-  onCleared: (id: string) => void;
+  ruleContext: RuleContext;
+  onStillThere: (id: string, photoBase64?: string) => void;
+  onCleared: (id: string, photoBase64?: string) => void;
 }
 
-function ReportCard({ report, onStillThere, onCleared }: ReportCardProps) {
+function ReportCard({ report, ruleContext, onStillThere, onCleared }: ReportCardProps) {
   const deviceId = typeof window !== 'undefined' ? getOrCreateDeviceId() : '';
-  const hasConfirmedCleared = hasDeviceConfirmedCleared(report, deviceId);
-  const hasConfirmedStillThere = hasDeviceConfirmedStillThereRecently(report, deviceId);
   const stillThereCount = report.stillThereCount || 0;
+  const isFading = !report.resolved && getConfidence(report) < DEFAULT_DECAY_CONFIG.fadeBelow;
+  const [evidencePhoto, setEvidencePhoto] = useState<string | null>(null);
+  const [isProcessingPhoto, setIsProcessingPhoto] = useState(false);
+
+  // What the confirmation rules allow this device to do
+  const { rules } = ruleContext;
+  const clearedCheck = checkConfirmation(report, 'cleared', deviceId, !!evidencePhoto, ruleContext);
+  const stillThereCheck = checkConfirmation(report, 'stillThere', deviceId, !!evidencePhoto, ruleContext);
+  const hasConfirmedCleared = clearedCheck === 'alreadyConfirmed';
+  const hasConfirmedStillThere = stillThereCheck === 'coolingDown';
+  const progress = getClearedProgress(report.clearedConfirmations, ruleContext);
+  const photoRequired = rules.cleared.requirePhoto || rules.stillThere.requirePhoto;
+
+  // Optional photo sent with the next confirmation
+  const handleEvidenceChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setIsProcessingPhoto(true);
+    try {
+      setEvidencePhoto(await compressImage(file, PHOTO_MAX_WIDTH, PHOTO_QUALITY));
+    } catch (error) {
+      console.error('Failed to process evidence photo:', error);
+    } finally {
+      setIsProcessingPhoto(false);
+    }
+  };
+
+  const confirm = (handler: (id: string, photoBase64?: string) => void) => {
+    handler(report.id, evidencePhoto || undefined);
+    setEvidencePhoto(null);
+  };
 
   return (
     <div className="bg-white/95 backdrop-blur-sm rounded-xl shadow-lg border border-green-200 w-64 p-4">
@@ -150,32 +365,33 @@ function ReportCard({ report, onStillThere, onCleared }: ReportCardProps) {
       </div>
 
       {/* Photo */}
-      {(report.photoBase64 || report.photoUrl) && (
-        <div className="mb-3 rounded-lg overflow-hidden">
-          <img
-            src={report.photoUrl || report.photoBase64}
-            alt="Hazard photo"
-            className="w-full h-36 object-cover"
-          />
-        </div>
-      )}
+      <ReportPhotoPreview report={report} heightClass="h-36" />
 
-      {/* Description */}
+      {/* Hazard type and description */}
+      <HazardTypeLabel report={report} />
       <p className="font-semibold text-gray-800 mb-2 text-sm leading-snug">
-        {report.desc || 'Broken glass hazard reported'}
+        {report.desc || `${HAZARD_CATEGORIES[report.category ?? DEFAULT_HAZARD_CATEGORY].label} reported`}
       </p>
 
       {/* Date */}
       <p className="text-xs text-gray-500 mb-3">
         {formatDate(report.date)}
+        {isFading && (
+          <span className="block text-sky-700">Not confirmed recently, may be gone</span>
+        )}
       </p>
 
       {/* Progress indicator */}
       <div className="flex items-center justify-between mb-4 p-2 bg-gray-50 rounded-lg">
         <div className="flex flex-col">
           <span className="text-xs font-medium text-gray-700">
-            {report.clearedCount}/3 confirmations
+            {progress.devices}/{progress.requiredDevices} {rules.cleared.staffOnly ? 'staff confirmations' : 'confirmations'}
           </span>
+          {progress.devices >= progress.requiredDevices && !progress.met && (
+            <span className="text-xs text-amber-600">
+              Needs more trusted votes: weight {progress.weight.toFixed(1)} of {progress.requiredWeight}
+            </span>
+          )}
           {stillThereCount > 0 && (
             <span className="text-xs text-red-500">
               {stillThereCount} report{stillThereCount !== 1 ? 's' : ''} still there
@@ -183,25 +399,54 @@ function ReportCard({ report, onStillThere, onCleared }: ReportCardProps) {
           )}
         </div>
         <div className="flex gap-1">
-          {[...Array(3)].map((_, i) => (
+          {[...Array(progress.requiredDevices)].map((_, i) => (
             <div
               key={i}
               className={`w-3 h-3 rounded-full ${
-                i < report.clearedCount ? 'bg-green-500' : 'bg-gray-300'
+                i < progress.devices ? 'bg-green-500' : 'bg-gray-300'
               }`}
             />
           ))}
         </div>
       </div>
 
+      {/* Snooze / mute alerts */}
+      {!report.resolved && deviceId && <AcknowledgementControls report={report} deviceId={deviceId} />}
+
       {/* Action buttons - stacked for mobile */}
       {!report.resolved && (
         <div className="flex flex-col gap-2">
+          {/* Evidence photo for the confirmation */}
+          {evidencePhoto ? (
+            <div className="flex items-center gap-2 p-2 bg-gray-50 rounded-lg">
+              <img src={evidencePhoto} alt="Your photo" className="w-10 h-10 rounded object-cover" />
+              <span className="flex-1 text-xs text-gray-600">Photo added to your confirmation</span>
+              <button
+                onClick={() => setEvidencePhoto(null)}
+                className="text-xs font-medium text-red-600 hover:underline"
+              >
+                Remove
+              </button>
+            </div>
+          ) : (!hasConfirmedCleared || !hasConfirmedStillThere) && (
+            <label className="relative flex items-center justify-center gap-2 py-2 text-xs font-medium text-gray-600 border border-dashed border-gray-300 rounded-lg hover:border-emerald-400 cursor-pointer">
+              <input
+                type="file"
+                accept="image/*"
+                capture="environment"
+                onChange={handleEvidenceChange}
+                className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+              />
+              {isProcessingPhoto
+                ? 'Processing photo...'
+                : photoRequired ? 'Add a photo (needed to confirm)' : 'Add a photo (optional)'}
+            </label>
+          )}
           <button
-            onClick={() => onCleared(report.id)}
-            disabled={hasConfirmedCleared}
+            onClick={() => confirm(onCleared)}
+            disabled={clearedCheck !== null}
             className={`w-full py-3 text-sm font-semibold rounded-lg transition-all ${
-              hasConfirmedCleared
+              clearedCheck !== null
                 ? 'bg-gray-100 text-gray-400 cursor-not-allowed'
                 : 'bg-green-500 hover:bg-green-600 text-white shadow-md hover:shadow-lg'
             }`}
@@ -209,10 +454,10 @@ function ReportCard({ report, onStillThere, onCleared }: ReportCardProps) {
             {hasConfirmedCleared ? 'You confirmed cleared' : "It's Cleared"}
           </button>
           <button
-            onClick={() => onStillThere(report.id)}
-            disabled={hasConfirmedStillThere}
+            onClick={() => confirm(onStillThere)}
+            disabled={stillThereCheck !== null}
             className={`w-full py-3 text-sm font-semibold rounded-lg transition-all ${
-              hasConfirmedStillThere
+              stillThereCheck !== null
                 ? 'bg-gray-100 text-gray-400 cursor-not-allowed'
                 : 'bg-gray-200 hover:bg-gray-300 text-gray-700'
             }`}
@@ -226,11 +471,12 @@ function ReportCard({ report, onStillThere, onCleared }: ReportCardProps) {
 }
 
 // Admin-specific card for council view
+// Action handlers are omitted when the signed-in role may not perform them
 interface AdminReportCardProps {
   report: Report;
-  onToggleResolved: (id: string) => void;
-  onToggleFlagged: (id: string) => void;
-  onToggleNoGlassFound: (id: string) => void;
+  onToggleResolved?: (id: string) => void;
+  onToggleFlagged?: (id: string) => void;
+  onToggleNoGlassFound?: (id: string) => void;
 }
 
 function AdminReportCard({ report, onToggleResolved, onToggleFlagged, onToggleNoGlassFound }: AdminReportCardProps) {
@@ -253,6 +499,11 @@ function AdminReportCard({ report, onToggleResolved, onToggleFlagged, onToggleNo
             <span className="w-1.5 h-1.5 bg-amber-500 rounded-full"></span>
             Flagged
           </span>
+        ) : isExpired(report) ? (
+          <span className="inline-flex items-center gap-1 px-2 py-1 bg-sky-100 text-sky-700 text-xs font-semibold rounded-full">
+            <span className="w-1.5 h-1.5 bg-sky-500 rounded-full"></span>
+            Expired
+          </span>
         ) : (
           <span className="inline-flex items-center gap-1 px-2 py-1 bg-red-100 text-red-700 text-xs font-semibold rounded-full">
             <span className="w-1.5 h-1.5 bg-red-500 rounded-full animate-pulse"></span>
@@ -262,19 +513,12 @@ function AdminReportCard({ report, onToggleResolved, onToggleFlagged, onToggleNo
       </div>
 
       {/* Photo */}
-      {(report.photoBase64 || report.photoUrl) && (
-        <div className="mb-3 rounded-lg overflow-hidden">
-          <img
-            src={report.photoUrl || report.photoBase64}
-            alt="Hazard photo"
-            className="w-full h-32 object-cover"
-          />
-        </div>
-      )}
+      <ReportPhotoPreview report={report} heightClass="h-32" />
 
-      {/* Description */}
+      {/* Hazard type and description */}
+      <HazardTypeLabel report={report} />
       <p className="font-semibold text-gray-800 mb-2 text-sm leading-snug">
-        {report.desc || 'Broken glass hazard reported'}
+        {report.desc || `${HAZARD_CATEGORIES[report.category ?? DEFAULT_HAZARD_CATEGORY].label} reported`}
       </p>
 
       {/* Date */}
@@ -285,49 +529,55 @@ function AdminReportCard({ report, onToggleResolved, onToggleFlagged, onToggleNo
       {/* Admin action buttons */}
       <div className="flex flex-col gap-1.5">
         {/* Cleared toggle */}
-        <button
-          onClick={() => onToggleResolved(report.id)}
-          className={`w-full py-2 text-xs font-semibold rounded-lg transition-all flex items-center justify-center gap-1.5 ${
-            report.resolved
-              ? 'bg-green-500 text-white'
-              : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
-          }`}
-        >
-          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-          </svg>
-          {report.resolved ? 'Cleared' : 'Mark Cleared'}
-        </button>
+        {onToggleResolved && (
+          <button
+            onClick={() => onToggleResolved(report.id)}
+            className={`w-full py-2 text-xs font-semibold rounded-lg transition-all flex items-center justify-center gap-1.5 ${
+              report.resolved
+                ? 'bg-green-500 text-white'
+                : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+            }`}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+            </svg>
+            {report.resolved ? 'Cleared' : 'Mark Cleared'}
+          </button>
+        )}
 
         {/* No Glass Found toggle */}
-        <button
-          onClick={() => onToggleNoGlassFound(report.id)}
-          className={`w-full py-2 text-xs font-semibold rounded-lg transition-all flex items-center justify-center gap-1.5 ${
-            report.noGlassFound
-              ? 'bg-purple-500 text-white'
-              : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
-          }`}
-        >
-          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0zM13 10H7" />
-          </svg>
-          {report.noGlassFound ? 'No Glass' : 'No Glass Found'}
-        </button>
+        {onToggleNoGlassFound && (
+          <button
+            onClick={() => onToggleNoGlassFound(report.id)}
+            className={`w-full py-2 text-xs font-semibold rounded-lg transition-all flex items-center justify-center gap-1.5 ${
+              report.noGlassFound
+                ? 'bg-purple-500 text-white'
+                : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+            }`}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0zM13 10H7" />
+            </svg>
+            {report.noGlassFound ? 'No Glass' : 'No Glass Found'}
+          </button>
+        )}
 
         {/* Flagged toggle */}
-        <button
-          onClick={() => onToggleFlagged(report.id)}
-          className={`w-full py-2 text-xs font-semibold rounded-lg transition-all flex items-center justify-center gap-1.5 ${
-            report.flagged
-              ? 'bg-amber-500 text-white'
-              : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
-          }`}
-        >
-          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 21v-4m0 0V5a2 2 0 012-2h6.5l1 1H21l-3 6 3 6h-8.5l-1-1H5a2 2 0 00-2 2zm9-13.5V9" />
-          </svg>
-          {report.flagged ? 'Flagged' : 'Flag'}
-        </button>
+        {onToggleFlagged && (
+          <button
+            onClick={() => onToggleFlagged(report.id)}
+            className={`w-full py-2 text-xs font-semibold rounded-lg transition-all flex items-center justify-center gap-1.5 ${
+              report.flagged
+                ? 'bg-amber-500 text-white'
+                : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+            }`}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 21v-4m0 0V5a2 2 0 012-2h6.5l1 1H21l-3 6 3 6h-8.5l-1-1H5a2 2 0 00-2 2zm9-13.5V9" />
+            </svg>
+            {report.flagged ? 'Flagged' : 'Flag'}
+          </button>
+        )}
       </div>
     </div>
   );
@@ -335,8 +585,8 @@ function AdminReportCard({ report, onToggleResolved, onToggleFlagged, onToggleNo
 
 interface MapProps {
   reports: Report[];
-  onStillThere: (id: string) => void;
-  onCleared: (id: string) => void;
+  onStillThere: (id: string, photoBase64?: string) => void;
+  onCleared: (id: string, photoBase64?: string) => void;
   isReporting: boolean;
   reportLocation: [number, number] | null;
   onReportLocationChange: (pos: [number, number]) => void;
@@ -345,6 +595,14 @@ interface MapProps {
   onToggleResolved?: (id: string) => void;
   onToggleFlagged?: (id: string) => void;
   onToggleNoGlassFound?: (id: string) => void;
+  // Walk track to draw (the walk in progress or one picked from history)
+  walkPath?: { lat: number; lng: number }[];
+  // Planned safe route, and the direct route it is compared against
+  routePath?: { lat: number; lng: number }[];
+  directRoutePath?: { lat: number; lng: number }[];
+  // When set, map taps choose a location (e.g. a route destination)
+  onPickLocation?: (pos: [number, number]) => void;
+  pickedLocation?: { lat: number; lng: number } | null;
 }
 
 export default function Map({
@@ -358,18 +616,21 @@ export default function Map({
   onToggleResolved,
   onToggleFlagged,
   onToggleNoGlassFound,
+  walkPath,
+  routePath,
+  directRoutePath,
+  onPickLocation,
+  pickedLocation,
 }: MapProps) {
-  // Load Google Maps API with hook (better caching than LoadScript)
-  const { isLoaded, loadError } = useJsApiLoader({
-    googleMapsApiKey: GOOGLE_MAPS_API_KEY,
-    libraries: LIBRARIES,
-  });
-
   const [userLocation, setUserLocation] = useState<{ lat: number; lng: number } | null>(null);
   const [locationError, setLocationError] = useState<string | null>(null);
   const [selectedReport, setSelectedReport] = useState<string | null>(null);
   const [showRecenter, setShowRecenter] = useState(false);
-  const mapRef = useRef<google.maps.Map | null>(null);
+  const [viewport, setViewport] = useState<{ bounds: LatLngBounds; zoom: number } | null>(null);
+  const [showHeatmap, setShowHeatmap] = useState(false);
+  const [heatmapFilter, setHeatmapFilter] = useState<HeatmapFilter | null>(null); // null = all time up to the latest report
+  const mapRef = useRef<MapController | null>(null);
+  const mapCenterRef = useRef<{ lat: number; lng: number } | null>(null);
   const watchIdRef = useRef<number | null>(null);
   const hasInitialCentered = useRef(false);
   const userLocationRef = useRef<{ lat: number; lng: number } | null>(null);
@@ -468,17 +729,15 @@ export default function Map({
   // Check if map is far from user location (for recenter button)
   const checkRecenterVisibility = useCallback(() => {
     const currentUserLocation = userLocationRef.current;
-    if (!mapRef.current || !currentUserLocation) {
+    const center = mapCenterRef.current;
+    if (!currentUserLocation || !center) {
       setShowRecenter(false);
       return;
     }
 
-    const center = mapRef.current.getCenter();
-    if (!center) return;
-
     const distance = calculateDistance(
-      center.lat(),
-      center.lng(),
+      center.lat,
+      center.lng,
       currentUserLocation.lat,
       currentUserLocation.lng
     );
@@ -486,16 +745,16 @@ export default function Map({
     setShowRecenter(distance > 50); // Show if >50m from user
   }, []);
 
-  const handleMapClick = useCallback((e: google.maps.MapMouseEvent) => {
-    if (isReporting && e.latLng) {
-      onReportLocationChange([e.latLng.lat(), e.latLng.lng()]);
+  const handleMapClick = useCallback(({ lat, lng }: { lat: number; lng: number }) => {
+    if (onPickLocation) {
+      onPickLocation([lat, lng]);
+    } else if (isReporting) {
+      onReportLocationChange([lat, lng]);
     }
-  }, [isReporting, onReportLocationChange]);
+  }, [isReporting, onReportLocationChange, onPickLocation]);
 
-  const handleMarkerDragEnd = useCallback((e: google.maps.MapMouseEvent) => {
-    if (e.latLng) {
-      onReportLocationChange([e.latLng.lat(), e.latLng.lng()]);
-    }
+  const handleMarkerDragEnd = useCallback(({ lat, lng }: { lat: number; lng: number }) => {
+    onReportLocationChange([lat, lng]);
   }, [onReportLocationChange]);
 
   const handleCenterOnUser = useCallback(() => {
@@ -514,72 +773,122 @@ export default function Map({
   }, []);
 
   // Handle map idle event - save position if moved significantly
-  const handleMapIdle = useCallback(() => {
+  const handleMapIdle = useCallback(({ center, zoom, bounds }: MapViewState) => {
+    mapCenterRef.current = center;
     checkRecenterVisibility();
 
-    if (!mapRef.current) return;
-
-    const center = mapRef.current.getCenter();
-    const zoom = mapRef.current.getZoom();
-    if (!center || zoom === undefined) return;
-
-    const newLat = center.lat();
-    const newLng = center.lng();
+    // Track the visible area so only nearby markers are rendered
+    setViewport({ bounds: padBounds(bounds, VIEWPORT_PADDING), zoom });
 
     // Check if center changed significantly (>0.001 lat/lng diff, roughly 100m)
     const lastCenter = lastSavedCenterRef.current;
     const hasMovedSignificantly = !lastCenter ||
-      Math.abs(newLat - lastCenter.lat) > 0.001 ||
-      Math.abs(newLng - lastCenter.lng) > 0.001;
+      Math.abs(center.lat - lastCenter.lat) > 0.001 ||
+      Math.abs(center.lng - lastCenter.lng) > 0.001;
 
     if (hasMovedSignificantly) {
-      lastSavedCenterRef.current = { lat: newLat, lng: newLng };
-      saveMapState(newLat, newLng, zoom);
+      // The first idle only records where the map started
+      if (lastCenter) saveMapState(center.lat, center.lng, zoom);
+      lastSavedCenterRef.current = center;
     }
   }, [checkRecenterVisibility]);
 
-  const onMapLoad = useCallback((map: google.maps.Map) => {
-    mapRef.current = map;
+  const onMapLoad = useCallback((controller: MapController) => {
+    mapRef.current = controller;
+  }, []);
 
-    // Initialise lastSavedCenterRef with current map center
-    const center = map.getCenter();
-    if (center) {
-      lastSavedCenterRef.current = { lat: center.lat(), lng: center.lng() };
-    }
+  const selectedReportData = reports.find(r => r.id === selectedReport);
 
-    // Listen for map movement to show/hide recenter button and save position
-    map.addListener('idle', handleMapIdle);
-  }, [handleMapIdle]);
+  // Cluster index over non-archived reports, rebuilt only when reports
+  // change. Expired hazards are left off the public map.
+  const clusterIndex = useMemo(() => buildClusterIndex(
+    reports
+      .filter(r => !r.archived && (isAdmin || !isExpired(r)))
+      .map(r => ({ id: r.id, lat: r.lat, lng: r.lng, cleared: r.resolved }))
+  ), [reports, isAdmin]);
 
-  const selectedReportData = reports.find(r => r.id === selectedReport);
+  // Reputation for the confirmation rules, from the reports on this device
+  const ruleContext = useMemo(() => createRuleContext(reports), [reports]);
 
-  // Filter to only show active (unresolved, non-archived) reports on the map
-  const activeReports = reports.filter(r => !r.resolved && !r.archived);
+  const reportsById = useMemo(
+    () => Object.fromEntries(reports.map(r => [r.id, r])) as Record<string, Report>,
+    [reports]
+  );
 
-  // Show loading state while Google Maps loads
-  if (loadError) {
-    return (
-      <div className="relative w-full h-full flex items-center justify-center bg-red-50 dark:bg-red-900/20">
-        <div className="text-center p-4">
-          <svg className="w-12 h-12 text-red-500 mx-auto mb-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
-          </svg>
-          <p className="text-red-600 dark:text-red-400 font-medium">Failed to load map</p>
-          <p className="text-red-500 dark:text-red-500 text-sm mt-1">Please check your internet connection</p>
-        </div>
-      </div>
-    );
+  // Markers and cluster bubbles for the visible area only. Memoised so
+  // location updates don't re-render the adapter's markers.
+  const markers = useMemo<MapMarkerSpec[]>(() => {
+    if (!viewport) return [];
+
+    return getClusters(clusterIndex, viewport.bounds, viewport.zoom).map((result): MapMarkerSpec => {
+      if (result.type === 'report') {
+        const report = reportsById[result.input.id];
+        return {
+          id: report.id,
+          position: { lat: report.lat, lng: report.lng },
+          icon: getMarkerIcon(report),
+          opacity: getMarkerOpacity(report),
+          onClick: () => setSelectedReport(report.id),
+        };
+      }
+
+      const position = { lat: result.lat, lng: result.lng };
+      return {
+        id: `cluster-${result.id}`,
+        position,
+        icon: getClusterIcon(result.activeCount, result.clearedCount),
+        zIndex: 500,
+        onClick: () => {
+          mapRef.current?.panTo(position);
+          mapRef.current?.setZoom(result.expansionZoom);
+        },
+      };
+    });
+  }, [clusterIndex, reportsById, viewport]);
+
+  // Heatmap of all reports (resolved included) in the chosen time window
+  const heatmapRange = useMemo(() => getReportDateRange(reports), [reports]);
+  const effectiveHeatmapFilter = heatmapFilter ?? defaultHeatmapFilter(heatmapRange);
+  const heatmapReports = useMemo(
+    () => (showHeatmap ? filterReportsByTime(reports, heatmapFilter ?? defaultHeatmapFilter(heatmapRange)) : []),
+    [showHeatmap, reports, heatmapFilter, heatmapRange]
+  );
+  const heatmapPoints = useMemo(
+    () => (showHeatmap ? toHeatmapPoints(heatmapReports) : null),
+    [showHeatmap, heatmapReports]
+  );
+
+  const pins: MapMarkerSpec[] = [];
+  if (pickedLocation) {
+    pins.push({ id: 'picked-location', position: pickedLocation, icon: pickedLocationIcon, zIndex: 900 });
+  }
+  if (userLocation) {
+    pins.push({ id: 'user-location', position: userLocation, icon: userIcon });
+  }
+  // Draggable pin for new reports
+  if (isReporting && reportLocation) {
+    pins.push({
+      id: 'report-location',
+      position: { lat: reportLocation[0], lng: reportLocation[1] },
+      icon: draggableIcon,
+      draggable: true,
+      bounce: true,
+      zIndex: 1000,
+      onDragEnd: handleMarkerDragEnd,
+    });
   }
 
-  if (!isLoaded) {
-    return (
-      <div className="relative w-full h-full flex items-center justify-center bg-emerald-50 dark:bg-gray-900">
-        <div className="text-center">
-          <div className="animate-spin rounded-full h-12 w-12 border-4 border-emerald-200 border-t-emerald-600 mx-auto mb-4"></div>
-          <p className="text-emerald-600 dark:text-emerald-400 font-medium">Loading map...</p>
-        </div>
-      </div>
-    );
+  const polylines: MapPolylineSpec[] = [];
+  // Walk track
+  if (walkPath && walkPath.length > 1) {
+    polylines.push({ id: 'walk', path: walkPath, color: '#059669', opacity: 0.8, weight: 5 });
+  }
+  // Planned route, over the direct route it avoids
+  if (directRoutePath && directRoutePath.length > 1) {
+    polylines.push({ id: 'direct-route', path: directRoutePath, color: '#6b7280', opacity: 0.6, weight: 4 });
+  }
+  if (routePath && routePath.length > 1) {
+    polylines.push({ id: 'route', path: routePath, color: '#4f46e5', opacity: 0.9, weight: 5, zIndex: 1 });
   }
 
   return (
@@ -599,104 +908,69 @@ export default function Map({
         </motion.div>
       )}
 
-      <GoogleMap
-          mapContainerStyle={containerStyle}
-          center={mapCenter}
-          zoom={mapZoom}
-          onLoad={onMapLoad}
-          onClick={handleMapClick}
-          options={{
-            disableDefaultUI: true,
-            zoomControl: false,
-            mapTypeControl: false,
-            streetViewControl: false,
-            fullscreenControl: false,
-            gestureHandling: 'greedy', // Allow single-finger pan on mobile
-            styles: [
-              {
-                featureType: 'poi',
-                elementType: 'labels',
-                stylers: [{ visibility: 'off' }],
-              },
-            ],
-          }}
-        >
-          {/* Report markers with clustering */}
-          <MarkerClusterer>
-            {(clusterer) => (
-              <>
-                {activeReports.map((report) => (
-                  <Marker
-                    key={report.id}
-                    position={{ lat: report.lat, lng: report.lng }}
-                    icon={{
-                      url: report.resolved ? resolvedIconUrl : ACTIVE_PIN_ICON,
-                      scaledSize: new google.maps.Size(48, 44),
-                      anchor: new google.maps.Point(24, 44),
-                    }}
-                    onClick={() => setSelectedReport(report.id)}
-                    clusterer={clusterer}
-                  />
-                ))}
-              </>
-            )}
-          </MarkerClusterer>
-
-          {/* Info window for selected report */}
-          {selectedReportData && (
-            <InfoWindow
-              position={{ lat: selectedReportData.lat, lng: selectedReportData.lng }}
-              onCloseClick={handleCloseInfoWindow}
-              options={{
-                pixelOffset: new google.maps.Size(0, -44),
-                disableAutoPan: false,
-              }}
-            >
-              {isAdmin && onToggleResolved && onToggleFlagged && onToggleNoGlassFound ? (
-                <AdminReportCard
-                  report={selectedReportData}
-                  onToggleResolved={onToggleResolved}
-                  onToggleFlagged={onToggleFlagged}
-                  onToggleNoGlassFound={onToggleNoGlassFound}
-                />
-              ) : (
-                <ReportCard
-                  report={selectedReportData}
-                  onStillThere={onStillThere}
-                  onCleared={onCleared}
-                />
-              )}
-            </InfoWindow>
-          )}
-
-          {/* User location marker */}
-          {userLocation && (
-            <Marker
-              position={userLocation}
-              icon={{
-                url: userIcon,
-                scaledSize: new google.maps.Size(28, 28),
-                anchor: new google.maps.Point(14, 14),
-              }}
+      <MapAdapter
+        center={mapCenter}
+        zoom={mapZoom}
+        markers={markers}
+        pins={pins}
+        polylines={polylines}
+        heatmap={heatmapPoints}
+        popup={selectedReportData && !showHeatmap ? {
+          position: { lat: selectedReportData.lat, lng: selectedReportData.lng },
+          offsetY: 44,
+          onClose: handleCloseInfoWindow,
+          content: isAdmin ? (
+            <AdminReportCard
+              report={selectedReportData}
+              onToggleResolved={onToggleResolved}
+              onToggleFlagged={onToggleFlagged}
+              onToggleNoGlassFound={onToggleNoGlassFound}
             />
-          )}
-
-          {/* Draggable pin for new reports */}
-          {isReporting && reportLocation && (
-            <Marker
-              position={{ lat: reportLocation[0], lng: reportLocation[1] }}
-              icon={{
-                url: draggableIcon,
-                scaledSize: new google.maps.Size(60, 80),
-                anchor: new google.maps.Point(30, 76),
-              }}
-              draggable={true}
-              onDragEnd={handleMarkerDragEnd}
-              animation={google.maps.Animation.BOUNCE}
-              zIndex={1000}
+          ) : (
+            <ReportCard
+              report={selectedReportData}
+              ruleContext={ruleContext}
+              onStillThere={onStillThere}
+              onCleared={onCleared}
             />
-          )}
-        </GoogleMap>
+          ),
+        } : null}
+        onMapClick={handleMapClick}
+        onLoad={onMapLoad}
+        onIdle={handleMapIdle}
+      />
+
+      {/* Heatmap time window */}
+      <AnimatePresence>
+        {showHeatmap && (
+          <HeatmapControls
+            range={heatmapRange}
+            filter={effectiveHeatmapFilter}
+            onChange={setHeatmapFilter}
+            reportCount={heatmapReports.length}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Heatmap toggle */}
+      <button
+        onClick={() => {
+          setShowHeatmap(prev => !prev);
+          setSelectedReport(null);
+        }}
+        className={`absolute bottom-48 right-4 z-[1000] p-3 rounded-full shadow-lg transition-colors border ${
+          showHeatmap
+            ? 'bg-rose-500 text-white border-rose-500'
+            : 'bg-white dark:bg-gray-800 text-rose-500 border-rose-200 dark:border-rose-900 hover:bg-rose-50 dark:hover:bg-gray-700'
+        }`}
+        title={showHeatmap ? 'Show hazard pins' : 'Show hazard heatmap'}
+        aria-pressed={showHeatmap}
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 18.657A8 8 0 016.343 7.343S7 9 9 10c0-2 .5-5 2.986-7C14 5 16.09 5.777 17.656 7.343A7.975 7.975 0 0120 13a7.975 7.975 0 01-2.343 5.657z" />
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.879 16.121A3 3 0 1012.015 11L11 14H9c0 .768.293 1.536.879 2.121z" />
+        </svg>
+      </button>
 
       {/* Recenter button - shows when map is moved away from user location */}
       <AnimatePresence>
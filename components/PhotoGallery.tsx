@@ -0,0 +1,123 @@
+'use client';
+
+import { useState } from 'react';
+import { motion, AnimatePresence, PanInfo } from 'framer-motion';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { ReportPhoto, PhotoKind } from '@/lib/db';
+import { formatDate } from '@/lib/utils';
+
+const KIND_LABELS: Record<PhotoKind, string> = {
+  report: 'Reported',
+  stillThere: 'Still there',
+  cleared: 'Cleared',
+};
+
+const SWIPE_THRESHOLD_PX = 50;
+
+interface PhotoGalleryProps {
+  photos: ReportPhoto[];
+  className?: string; // Size of the image area, e.g. "h-64"
+}
+
+// Swipeable photo gallery, oldest first, so the council can compare before and after
+export default function PhotoGallery({ photos, className = 'h-64' }: PhotoGalleryProps) {
+  const [index, setIndex] = useState(0);
+  const [direction, setDirection] = useState(0);
+
+  if (photos.length === 0) return null;
+
+  const current = photos[Math.min(index, photos.length - 1)];
+  const fullSrc = current.photoUrl || current.photoBase64;
+
+  const go = (step: number) => {
+    const next = index + step;
+    if (next < 0 || next >= photos.length) return;
+    setDirection(step);
+    setIndex(next);
+  };
+
+  const handleDragEnd = (_: MouseEvent | TouchEvent | PointerEvent, info: PanInfo) => {
+    if (info.offset.x < -SWIPE_THRESHOLD_PX) go(1);
+    else if (info.offset.x > SWIPE_THRESHOLD_PX) go(-1);
+  };
+
+  return (
+    <div className="relative select-none">
+      <div className={`relative overflow-hidden rounded-xl bg-gray-100 dark:bg-gray-800 ${className}`}>
+        <AnimatePresence initial={false} custom={direction} mode="popLayout">
+          <motion.img
+            key={current.id}
+            src={fullSrc}
+            alt={`${KIND_LABELS[current.kind]} photo`}
+            loading="lazy"
+            decoding="async"
+            draggable={false}
+            custom={direction}
+            initial={{ x: direction >= 0 ? '100%' : '-100%', opacity: 0 }}
+            animate={{ x: 0, opacity: 1 }}
+            exit={{ x: direction >= 0 ? '-100%' : '100%', opacity: 0 }}
+            transition={{ duration: 0.2 }}
+            drag={photos.length > 1 ? 'x' : false}
+            dragConstraints={{ left: 0, right: 0 }}
+            dragElastic={0.5}
+            onDragEnd={handleDragEnd}
+            className="absolute inset-0 w-full h-full object-contain cursor-grab active:cursor-grabbing"
+          />
+        </AnimatePresence>
+
+        {photos.length > 1 && (
+          <>
+            <button
+              type="button"
+              onClick={() => go(-1)}
+              disabled={index === 0}
+              className="absolute left-2 top-1/2 -translate-y-1/2 p-1.5 bg-black/50 hover:bg-black/70 disabled:opacity-0 rounded-full text-white transition-opacity"
+              aria-label="Previous photo"
+            >
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+            <button
+              type="button"
+              onClick={() => go(1)}
+              disabled={index === photos.length - 1}
+              className="absolute right-2 top-1/2 -translate-y-1/2 p-1.5 bg-black/50 hover:bg-black/70 disabled:opacity-0 rounded-full text-white transition-opacity"
+              aria-label="Next photo"
+            >
+              <ChevronRight className="w-5 h-5" />
+            </button>
+          </>
+        )}
+      </div>
+
+      {/* Caption and position */}
+      <div className="flex items-center justify-between mt-2 text-xs text-gray-500 dark:text-gray-400">
+        <span>
+          <span className="font-medium text-gray-700 dark:text-gray-300">{KIND_LABELS[current.kind]}</span>
+          {' · '}
+          {formatDate(current.addedAt)}
+        </span>
+        {photos.length > 1 && (
+          <div className="flex items-center gap-1">
+            {photos.map((photo, i) => (
+              <span
+                key={photo.id}
+                className={`w-1.5 h-1.5 rounded-full ${i === index ? 'bg-emerald-500' : 'bg-gray-300 dark:bg-gray-600'}`}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      {current.photoUrl && (
+        <a
+          href={current.photoUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-xs text-emerald-600 dark:text-emerald-400 hover:underline"
+        >
+          Open full size
+        </a>
+      )}
+    </div>
+  );
+}
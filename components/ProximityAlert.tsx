@@ -1,13 +1,16 @@
 'use client';
 
 import { motion, AnimatePresence } from 'framer-motion';
+import { HazardCategory, HAZARD_CATEGORIES, DEFAULT_HAZARD_CATEGORY } from '@/lib/hazards';
 
 interface ProximityAlertProps {
   isVisible: boolean;
   onDismiss: () => void;
+  category?: HazardCategory; // Category of the nearest hazard
+  aheadDescription?: string; // Set for look-ahead alerts, e.g. "30 m ahead on your left"
 }
 
-export default function ProximityAlert({ isVisible, onDismiss }: ProximityAlertProps) {
+export default function ProximityAlert({ isVisible, onDismiss, category = DEFAULT_HAZARD_CATEGORY, aheadDescription }: ProximityAlertProps) {
   return (
     <AnimatePresence>
       {isVisible && (
@@ -30,7 +33,9 @@ export default function ProximityAlert({ isVisible, onDismiss }: ProximityAlertP
               {/* Alert text */}
               <div className="flex-1">
                 <p className="text-black font-bold text-base">
-                  Caution — Broken Glass Reported Ahead
+                  {aheadDescription
+                    ? `Caution — ${HAZARD_CATEGORIES[category].label} ${aheadDescription}`
+                    : `Caution — ${HAZARD_CATEGORIES[category].label} Reported Ahead`}
                 </p>
               </div>
 
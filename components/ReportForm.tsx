@@ -2,18 +2,55 @@
 
 import { useState, useRef } from 'react';
 import { motion, AnimatePresence, useDragControls, PanInfo } from 'framer-motion';
-import { compressImage } from '@/lib/utils';
+import { compressImage, calculateDistance, formatDate } from '@/lib/utils';
+import { PHOTO_MAX_WIDTH, PHOTO_QUALITY } from '@/lib/photos';
+import { MAX_REPORT_PHOTOS } from '@/lib/db';
+import { PhotoMetadata, readPhotoMetadata } from '@/lib/exif';
+import { NearbyReport } from '@/lib/duplicates';
+import {
+  HazardCategory,
+  HazardSeverity,
+  HAZARD_CATEGORIES,
+  HAZARD_CATEGORY_ORDER,
+  HAZARD_SEVERITIES,
+  HAZARD_SEVERITY_ORDER,
+  DEFAULT_HAZARD_CATEGORY,
+  DEFAULT_HAZARD_SEVERITY,
+} from '@/lib/hazards';
+
+// Offer the photo's own location when it was taken further than this from the pin
+const PHOTO_LOCATION_MISMATCH_METERS = 30;
+// Warn that the hazard may have gone when a photo is older than this
+const OLD_PHOTO_WARNING_DAYS = 2;
+
+interface SelectedPhoto {
+  src: string; // Compressed JPEG, with no EXIF
+  metadata: PhotoMetadata | null; // Read from the original before compressing
+}
 
 interface ReportFormProps {
   isOpen: boolean;
   onClose: () => void;
-  onSubmit: (desc: string, photoBase64?: string) => void;
+  onSubmit: (desc: string, photos: string[], category: HazardCategory, severity: HazardSeverity) => void;
   location: [number, number] | null;
+  onLocationChange?: (location: [number, number]) => void;
+  nearbyReports?: NearbyReport[]; // Active hazards already reported at the location
+  onConfirmExisting?: (reportId: string) => void;
 }
 
-export default function ReportForm({ isOpen, onClose, onSubmit, location }: ReportFormProps) {
+export default function ReportForm({
+  isOpen,
+  onClose,
+  onSubmit,
+  location,
+  onLocationChange,
+  nearbyReports = [],
+  onConfirmExisting,
+}: ReportFormProps) {
   const [description, setDescription] = useState('');
-  const [photo, setPhoto] = useState<string | null>(null);
+  const [photos, setPhotos] = useState<SelectedPhoto[]>([]);
+  const [category, setCategory] = useState<HazardCategory>(DEFAULT_HAZARD_CATEGORY);
+  const [severity, setSeverity] = useState<HazardSeverity>(DEFAULT_HAZARD_SEVERITY);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isCustomizingLocation, setIsCustomizingLocation] = useState(false);
@@ -38,11 +75,14 @@ export default function ReportForm({ isOpen, onClose, onSubmit, location }: Repo
   };
 
   const handlePhotoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+    const files = Array.from(e.target.files || []).slice(0, MAX_REPORT_PHOTOS - photos.length);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+    if (files.length === 0) return;
 
-    if (file.size > 10 * 1024 * 1024) {
-      setError('Photo must be less than 10MB');
+    if (files.some(file => file.size > 10 * 1024 * 1024)) {
+      setError('Photos must be less than 10MB');
       return;
     }
 
@@ -50,8 +90,12 @@ export default function ReportForm({ isOpen, onClose, onSubmit, location }: Repo
     setError(null);
 
     try {
-      const compressed = await compressImage(file, 800, 0.7);
-      setPhoto(compressed);
+      const selected = await Promise.all(files.map(async (file) => ({
+        // Location and time are read first: compressing drops the EXIF
+        metadata: await readPhotoMetadata(file),
+        src: await compressImage(file, PHOTO_MAX_WIDTH, PHOTO_QUALITY),
+      })));
+      setPhotos(prev => [...prev, ...selected].slice(0, MAX_REPORT_PHOTOS));
     } catch {
       setError('Failed to process photo');
     } finally {
@@ -66,23 +110,35 @@ export default function ReportForm({ isOpen, onClose, onSubmit, location }: Repo
       return;
     }
 
-    onSubmit(description, photo || undefined);
+    onSubmit(description, photos.map(photo => photo.src), category, severity);
 
     // Reset form
     setDescription('');
-    setPhoto(null);
+    setPhotos([]);
+    setCategory(DEFAULT_HAZARD_CATEGORY);
+    setSeverity(DEFAULT_HAZARD_SEVERITY);
     setError(null);
     setIsCustomizingLocation(false);
     onClose();
   };
 
-  const handleRemovePhoto = () => {
-    setPhoto(null);
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
-    }
+  const handleRemovePhoto = (index: number) => {
+    setPhotos(prev => prev.filter((_, i) => i !== index));
   };
 
+  // Where the first geotagged photo was taken, if away from the pin
+  const photoLocation = photos.find(photo => photo.metadata?.location)?.metadata?.location;
+  const photoDistance = photoLocation && location
+    ? calculateDistance(location[0], location[1], photoLocation.lat, photoLocation.lng)
+    : 0;
+  const showUsePhotoLocation = !!photoLocation && !!onLocationChange && photoDistance > PHOTO_LOCATION_MISMATCH_METERS;
+
+  // Age of the oldest photo, in whole days
+  const oldestTakenAt = Math.min(...photos.map(photo => photo.metadata?.takenAt?.getTime() ?? Infinity));
+  const oldestPhotoDays = Number.isFinite(oldestTakenAt)
+    ? Math.floor((Date.now() - oldestTakenAt) / (24 * 60 * 60 * 1000))
+    : 0;
+
   return (
     <AnimatePresence>
       {isOpen && (
@@ -219,6 +275,94 @@ export default function ReportForm({ isOpen, onClose, onSubmit, location }: Repo
                 Customise Location
               </button>
 
+              {/* Possible duplicates */}
+              {nearbyReports.length > 0 && (
+                <div className="mb-4 p-3 bg-amber-50 dark:bg-amber-900/30 border border-amber-200 dark:border-amber-800 rounded-xl">
+                  <p className="text-sm font-medium text-amber-800 dark:text-amber-200">
+                    {nearbyReports.length === 1
+                      ? 'A hazard has already been reported here'
+                      : `${nearbyReports.length} hazards have already been reported here`}
+                  </p>
+                  <p className="text-xs text-amber-700 dark:text-amber-300 mt-0.5 mb-2">
+                    If it&apos;s the same one, confirm it instead of adding another report.
+                  </p>
+                  <div className="space-y-2">
+                    {nearbyReports.slice(0, 3).map(({ report, distanceMeters }) => (
+                      <div key={report.id} className="flex items-center justify-between gap-2">
+                        <div className="min-w-0 text-xs text-gray-700 dark:text-gray-300">
+                          <p className="font-medium truncate">
+                            {HAZARD_CATEGORIES[report.category ?? DEFAULT_HAZARD_CATEGORY].icon}{' '}
+                            {report.desc || `${HAZARD_CATEGORIES[report.category ?? DEFAULT_HAZARD_CATEGORY].label} hazard`}
+                          </p>
+                          <p className="text-gray-500 dark:text-gray-400">
+                            {Math.round(distanceMeters)} m away · {formatDate(report.date)}
+                          </p>
+                        </div>
+                        {onConfirmExisting && (
+                          <button
+                            type="button"
+                            onClick={() => onConfirmExisting(report.id)}
+                            className="flex-shrink-0 px-3 py-1.5 bg-amber-500 hover:bg-amber-600 text-white text-xs font-semibold rounded-lg transition-colors"
+                          >
+                            Confirm existing
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Hazard type */}
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  What is it?
+                </label>
+                <div className="grid grid-cols-2 gap-2">
+                  {HAZARD_CATEGORY_ORDER.map(value => (
+                    <button
+                      key={value}
+                      type="button"
+                      onClick={() => setCategory(value)}
+                      className={`flex items-center gap-2 px-3 py-2 rounded-xl border text-sm text-left transition-colors ${
+                        category === value
+                          ? 'border-emerald-500 bg-emerald-50 dark:bg-emerald-900/30 text-emerald-800 dark:text-emerald-200 font-medium'
+                          : 'border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:border-emerald-300'
+                      }`}
+                    >
+                      <span aria-hidden="true">{HAZARD_CATEGORIES[value].icon}</span>
+                      {HAZARD_CATEGORIES[value].label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Severity */}
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  How bad is it?
+                </label>
+                <div className="flex gap-2">
+                  {HAZARD_SEVERITY_ORDER.map(value => (
+                    <button
+                      key={value}
+                      type="button"
+                      onClick={() => setSeverity(value)}
+                      className={`flex-1 py-2 rounded-xl border text-sm transition-colors ${
+                        severity === value
+                          ? 'border-emerald-500 bg-emerald-50 dark:bg-emerald-900/30 text-emerald-800 dark:text-emerald-200 font-medium'
+                          : 'border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:border-emerald-300'
+                      }`}
+                    >
+                      {HAZARD_SEVERITIES[value].label}
+                    </button>
+                  ))}
+                </div>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  {HAZARD_SEVERITIES[severity].description}
+                </p>
+              </div>
+
               {/* Description */}
               <div className="mb-4">
                 <label htmlFor="description" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
@@ -237,16 +381,61 @@ export default function ReportForm({ isOpen, onClose, onSubmit, location }: Repo
               {/* Photo upload */}
               <div className="mb-6">
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                  Photo (optional)
+                  Photos (optional, up to {MAX_REPORT_PHOTOS})
                 </label>
 
-                {!photo ? (
+                {photos.length > 0 && (
+                  <div className="grid grid-cols-2 gap-2 mb-2">
+                    {photos.map((photo, index) => (
+                      <div key={index} className="relative rounded-xl overflow-hidden">
+                        <img
+                          src={photo.src}
+                          alt={`Preview ${index + 1}`}
+                          className="w-full h-28 object-cover"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => handleRemovePhoto(index)}
+                          className="absolute top-2 right-2 p-1.5 bg-black/50 hover:bg-black/70 rounded-full text-white transition-colors"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                          </svg>
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {showUsePhotoLocation && photoLocation && (
+                  <div className="mb-2 p-3 bg-sky-50 dark:bg-sky-900/30 rounded-xl flex items-center justify-between gap-3">
+                    <p className="text-xs text-sky-700 dark:text-sky-300">
+                      This photo was taken {Math.round(photoDistance)} m from the pin.
+                    </p>
+                    <button
+                      type="button"
+                      onClick={() => onLocationChange?.([photoLocation.lat, photoLocation.lng])}
+                      className="px-3 py-1.5 bg-sky-600 hover:bg-sky-700 text-white text-xs font-medium rounded-lg whitespace-nowrap transition-colors"
+                    >
+                      Use photo location
+                    </button>
+                  </div>
+                )}
+
+                {oldestPhotoDays >= OLD_PHOTO_WARNING_DAYS && (
+                  <div className="mb-2 p-3 bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300 rounded-xl text-xs">
+                    This photo was taken {oldestPhotoDays} days ago. Please only report hazards that are still there.
+                  </div>
+                )}
+
+                {photos.length < MAX_REPORT_PHOTOS && (
                   <div className="relative">
                     <input
                       ref={fileInputRef}
                       type="file"
                       accept="image/*"
                       capture="environment"
+                      multiple
                       onChange={handlePhotoChange}
                       className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
                     />
@@ -265,29 +454,12 @@ export default function ReportForm({ isOpen, onClose, onSubmit, location }: Repo
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 13a3 3 0 11-6 0 3 3 0 016 0z" />
                           </svg>
                           <p className="text-sm text-gray-500 dark:text-gray-400">
-                            Tap to take or choose a photo
+                            {photos.length > 0 ? 'Add another photo' : 'Tap to take or choose a photo'}
                           </p>
                         </>
                       )}
                     </div>
                   </div>
-                ) : (
-                  <div className="relative rounded-xl overflow-hidden">
-                    <img
-                      src={photo}
-                      alt="Preview"
-                      className="w-full h-48 object-cover"
-                    />
-                    <button
-                      type="button"
-                      onClick={handleRemovePhoto}
-                      className="absolute top-2 right-2 p-2 bg-black/50 hover:bg-black/70 rounded-full text-white transition-colors"
-                    >
-                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                      </svg>
-                    </button>
-                  </div>
                 )}
               </div>
 
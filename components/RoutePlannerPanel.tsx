@@ -0,0 +1,187 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import toast from 'react-hot-toast';
+import { Report } from '@/lib/db';
+import { RoutePoint, getRoutingBackend } from '@/lib/routing';
+import { SafeRoutePlan, LOOP_DISTANCE_OPTIONS, planSafeRoute, planLoopRoute } from '@/lib/safeRoutes';
+import { getCurrentPosition } from '@/lib/utils';
+
+type PlannerMode = 'destination' | 'loop';
+
+function formatLoopDistance(meters: number): string {
+  return `${meters / 1000} km`;
+}
+
+interface RoutePlannerPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  reports: Report[];
+  userLocation: RoutePoint | null; // Used as the start when known
+  destination: RoutePoint | null;
+  onPickDestination: () => void; // Close the panel and let the user tap the map
+  onPlanned: (plan: SafeRoutePlan) => void;
+}
+
+export default function RoutePlannerPanel({
+  isOpen,
+  onClose,
+  reports,
+  userLocation,
+  destination,
+  onPickDestination,
+  onPlanned,
+}: RoutePlannerPanelProps) {
+  const [mode, setMode] = useState<PlannerMode>('destination');
+  const [loopDistance, setLoopDistance] = useState(LOOP_DISTANCE_OPTIONS[1]);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const backend = useMemo(getRoutingBackend, []);
+
+  const handlePlan = async () => {
+    if (mode === 'destination' && !destination) {
+      toast.error('Choose a destination on the map first');
+      return;
+    }
+
+    setIsPlanning(true);
+    try {
+      let start = userLocation;
+      if (!start) {
+        const position = await getCurrentPosition({ enableHighAccuracy: true, timeout: 10000 });
+        start = { lat: position.coords.latitude, lng: position.coords.longitude };
+      }
+
+      const plan = mode === 'destination'
+        ? await planSafeRoute(backend, start, destination!, reports)
+        : await planLoopRoute(backend, start, loopDistance, reports);
+
+      onPlanned(plan);
+      onClose();
+    } catch (error) {
+      console.error('Failed to plan route:', error);
+      toast.error('Could not plan a route. Please try again.');
+    } finally {
+      setIsPlanning(false);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black/50 z-[3000]"
+          />
+
+          {/* Dialog */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            className="fixed inset-4 sm:inset-auto sm:left-1/2 sm:top-1/2 sm:-translate-x-1/2 sm:-translate-y-1/2 sm:max-w-md sm:w-full bg-white dark:bg-gray-900 rounded-2xl shadow-2xl z-[3001] overflow-hidden flex flex-col max-h-[90vh]"
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+                <svg className="w-6 h-6 text-indigo-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7" />
+                </svg>
+                Safe Route
+              </h2>
+              <button
+                onClick={onClose}
+                className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            {/* Content */}
+            <div className="flex-1 overflow-y-auto p-4 space-y-5">
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Plans a walk from where you are that keeps clear of reported hazards where it can.
+              </p>
+
+              {backend.approximate && (
+                <div className="p-3 bg-amber-50 dark:bg-amber-900/30 border border-amber-200 dark:border-amber-800 rounded-xl">
+                  <p className="text-sm font-medium text-amber-800 dark:text-amber-200">
+                    No router is set up, so routes are straight lines between points. They show roughly where the hazards are, but aren&apos;t a path you can walk.
+                  </p>
+                </div>
+              )}
+
+              {/* Mode */}
+              <div className="grid grid-cols-2 gap-2">
+                {(['destination', 'loop'] as PlannerMode[]).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setMode(option)}
+                    className={`px-3 py-2 rounded-xl text-sm font-medium transition-colors ${
+                      mode === option
+                        ? 'bg-indigo-600 text-white'
+                        : 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+                    }`}
+                  >
+                    {option === 'destination' ? 'To a place' : 'Loop'}
+                  </button>
+                ))}
+              </div>
+
+              {mode === 'destination' ? (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Destination
+                  </label>
+                  <div className="flex items-center gap-2">
+                    <p className="flex-1 text-sm text-gray-500 dark:text-gray-400">
+                      {destination
+                        ? `${destination.lat.toFixed(5)}, ${destination.lng.toFixed(5)}`
+                        : 'Not chosen yet'}
+                    </p>
+                    <button
+                      onClick={onPickDestination}
+                      className="px-3 py-2 text-sm font-medium text-indigo-700 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 rounded-xl transition-colors"
+                    >
+                      {destination ? 'Change' : 'Pick on map'}
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Loop length
+                  </label>
+                  <select
+                    value={loopDistance}
+                    onChange={(e) => setLoopDistance(Number(e.target.value))}
+                    className="w-full px-3 py-2 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                  >
+                    {LOOP_DISTANCE_OPTIONS.map(meters => (
+                      <option key={meters} value={meters}>{formatLoopDistance(meters)}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <button
+                onClick={handlePlan}
+                disabled={isPlanning || (mode === 'destination' && !destination)}
+                className="w-full px-4 py-2 bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 text-white text-sm font-medium rounded-xl transition-colors"
+              >
+                {isPlanning ? 'Planning...' : 'Plan Route'}
+              </button>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,71 @@
+'use client';
+
+import { motion, AnimatePresence } from 'framer-motion';
+import { Report } from '@/lib/db';
+import { HAZARD_CATEGORIES, DEFAULT_HAZARD_CATEGORY } from '@/lib/hazards';
+import { formatDate } from '@/lib/utils';
+import { getLastSeenAt } from '@/lib/decay';
+
+interface StillTherePromptProps {
+  report: Report | null;
+  onStillThere: (id: string) => void;
+  onCleared: (id: string) => void;
+  onDismiss: () => void;
+}
+
+// Asks a walker passing a hazard that is about to expire whether it is still there
+export default function StillTherePrompt({ report, onStillThere, onCleared, onDismiss }: StillTherePromptProps) {
+  return (
+    <AnimatePresence>
+      {report && (
+        <motion.div
+          initial={{ opacity: 0, y: -100 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -100 }}
+          transition={{ type: 'spring', damping: 25, stiffness: 300 }}
+          className="fixed top-16 left-0 right-0 z-[1500] px-4"
+        >
+          <div className="bg-white dark:bg-gray-800 border-2 border-sky-400 rounded-xl shadow-lg p-4">
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <p className="font-bold text-gray-900 dark:text-white">
+                  Is this still there?
+                </p>
+                <p className="text-sm text-gray-600 dark:text-gray-300 mt-0.5">
+                  {HAZARD_CATEGORIES[report.category ?? DEFAULT_HAZARD_CATEGORY].icon}{' '}
+                  {HAZARD_CATEGORIES[report.category ?? DEFAULT_HAZARD_CATEGORY].label} near you
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Last seen: {formatDate(new Date(getLastSeenAt(report)).toISOString())}
+                </p>
+              </div>
+              <button
+                onClick={onDismiss}
+                className="flex-shrink-0 p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 rounded-full transition-colors"
+                aria-label="Not sure"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+            <div className="flex gap-2 mt-3">
+              <button
+                onClick={() => onStillThere(report.id)}
+                className="flex-1 py-2 bg-red-500 hover:bg-red-600 text-white text-sm font-semibold rounded-lg transition-colors"
+              >
+                Still there
+              </button>
+              <button
+                onClick={() => onCleared(report.id)}
+                className="flex-1 py-2 bg-green-500 hover:bg-green-600 text-white text-sm font-semibold rounded-lg transition-colors"
+              >
+                It&apos;s gone
+              </button>
+            </div>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,196 @@
+'use client';
+
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import toast from 'react-hot-toast';
+import {
+  SyncArea,
+  SYNC_RADIUS_OPTIONS,
+  DEFAULT_SYNC_RADIUS_METERS,
+  getSyncAreas,
+  addSyncArea,
+  removeSyncArea,
+  getLocationSyncRadius,
+  setLocationSyncRadius,
+} from '@/lib/syncAreas';
+import { getCurrentPosition } from '@/lib/utils';
+
+interface SyncAreasPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+function formatRadius(meters: number): string {
+  return meters >= 1000 ? `${meters / 1000} km` : `${meters} m`;
+}
+
+export default function SyncAreasPanel({ isOpen, onClose }: SyncAreasPanelProps) {
+  const [areas, setAreas] = useState<SyncArea[]>(() => getSyncAreas());
+  const [locationRadius, setLocationRadius] = useState(() => getLocationSyncRadius());
+  const [newAreaName, setNewAreaName] = useState('');
+  const [newAreaRadius, setNewAreaRadius] = useState(DEFAULT_SYNC_RADIUS_METERS);
+  const [isAdding, setIsAdding] = useState(false);
+
+  const handleLocationRadiusChange = (meters: number) => {
+    setLocationRadius(meters);
+    setLocationSyncRadius(meters);
+  };
+
+  // Save the user's current position as a named area
+  const handleAddArea = async () => {
+    const name = newAreaName.trim();
+    if (!name) {
+      toast.error('Give the area a name, e.g. "Home"');
+      return;
+    }
+
+    setIsAdding(true);
+    try {
+      const position = await getCurrentPosition({ enableHighAccuracy: true, timeout: 10000 });
+      addSyncArea({
+        name,
+        lat: position.coords.latitude,
+        lng: position.coords.longitude,
+        radiusMeters: newAreaRadius,
+      });
+      setAreas(getSyncAreas());
+      setNewAreaName('');
+      toast.success(`Hazards around "${name}" will be kept on this device`);
+    } catch (error) {
+      console.error('Failed to get location for sync area:', error);
+      toast.error('Could not get your location. Please try again.');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleRemoveArea = (id: string) => {
+    removeSyncArea(id);
+    setAreas(getSyncAreas());
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black/50 z-[3000]"
+          />
+
+          {/* Dialog */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            className="fixed inset-4 sm:inset-auto sm:left-1/2 sm:top-1/2 sm:-translate-x-1/2 sm:-translate-y-1/2 sm:max-w-md sm:w-full bg-white dark:bg-gray-900 rounded-2xl shadow-2xl z-[3001] overflow-hidden flex flex-col max-h-[90vh]"
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+                <svg className="w-6 h-6 text-sky-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7" />
+                </svg>
+                Sync Areas
+              </h2>
+              <button
+                onClick={onClose}
+                className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            {/* Content */}
+            <div className="flex-1 overflow-y-auto p-4 space-y-5">
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Only hazards near you and in your saved areas are downloaded. Hazards outside them are removed from this device.
+              </p>
+
+              {/* Around me */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Around my location
+                </label>
+                <select
+                  value={locationRadius}
+                  onChange={(e) => handleLocationRadiusChange(Number(e.target.value))}
+                  className="w-full px-3 py-2 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                >
+                  {SYNC_RADIUS_OPTIONS.map(meters => (
+                    <option key={meters} value={meters}>{formatRadius(meters)}</option>
+                  ))}
+                </select>
+              </div>
+
+              {/* Saved areas */}
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Saved areas</h3>
+                {areas.length === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">No saved areas yet.</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {areas.map(area => (
+                      <li
+                        key={area.id}
+                        className="flex items-center justify-between p-3 rounded-xl bg-gray-50 dark:bg-gray-800"
+                      >
+                        <div>
+                          <p className="text-sm font-medium text-gray-900 dark:text-white">{area.name}</p>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">{formatRadius(area.radiusMeters)} radius</p>
+                        </div>
+                        <button
+                          onClick={() => handleRemoveArea(area.id)}
+                          className="px-3 py-1 text-xs font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg transition-colors"
+                        >
+                          Remove
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              {/* Add area */}
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Save where I am now</h3>
+                <input
+                  type="text"
+                  value={newAreaName}
+                  onChange={(e) => setNewAreaName(e.target.value)}
+                  placeholder="Area name, e.g. Home"
+                  maxLength={40}
+                  className="w-full px-3 py-2 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                />
+                <div className="flex gap-2">
+                  <select
+                    value={newAreaRadius}
+                    onChange={(e) => setNewAreaRadius(Number(e.target.value))}
+                    className="flex-1 px-3 py-2 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                  >
+                    {SYNC_RADIUS_OPTIONS.map(meters => (
+                      <option key={meters} value={meters}>{formatRadius(meters)}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={handleAddArea}
+                    disabled={isAdding}
+                    className="px-4 py-2 bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 text-white text-sm font-medium rounded-xl transition-colors"
+                  >
+                    {isAdding ? 'Locating...' : 'Add Area'}
+                  </button>
+                </div>
+              </div>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
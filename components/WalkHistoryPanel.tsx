@@ -0,0 +1,135 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import toast from 'react-hot-toast';
+import { Walk, Report } from '@/lib/db';
+import { getWalks, deleteWalk, downloadWalkGpx, formatWalkDistance, formatWalkDuration } from '@/lib/walks';
+
+interface WalkHistoryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  reports: Report[]; // Used to add the hazards passed to exports
+  onShowWalk: (walk: Walk) => void;
+}
+
+export default function WalkHistoryPanel({ isOpen, onClose, reports, onShowWalk }: WalkHistoryPanelProps) {
+  const [walks, setWalks] = useState<Walk[]>([]);
+
+  // Reload each time the panel opens
+  useEffect(() => {
+    if (!isOpen) return;
+    getWalks()
+      .then(all => setWalks(all.filter(walk => walk.endedAt !== undefined)))
+      .catch(error => console.error('Failed to load walks:', error));
+  }, [isOpen]);
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteWalk(id);
+      setWalks(prev => prev.filter(walk => walk.id !== id));
+    } catch (error) {
+      console.error('Failed to delete walk:', error);
+      toast.error('Failed to delete walk');
+    }
+  };
+
+  const handleExport = (walk: Walk) => {
+    const hazards = reports.filter(report => walk.hazardIds.includes(report.id));
+    downloadWalkGpx(walk, hazards);
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black/50 z-[3000]"
+          />
+
+          {/* Dialog */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            className="fixed inset-4 sm:inset-auto sm:left-1/2 sm:top-1/2 sm:-translate-x-1/2 sm:-translate-y-1/2 sm:max-w-md sm:w-full bg-white dark:bg-gray-900 rounded-2xl shadow-2xl z-[3001] overflow-hidden flex flex-col max-h-[90vh]"
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+                <svg className="w-6 h-6 text-emerald-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7l5 5m0 0l-5 5m5-5H6" />
+                </svg>
+                Walk History
+              </h2>
+              <button
+                onClick={onClose}
+                className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            {/* Content */}
+            <div className="flex-1 overflow-y-auto p-4 space-y-3">
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Walks are only stored on this device unless you export them.
+              </p>
+
+              {walks.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  No walks yet. Tap &quot;Start walk&quot; on the map to record one.
+                </p>
+              ) : (
+                <ul className="space-y-2">
+                  {walks.map(walk => (
+                    <li key={walk.id} className="p-3 rounded-xl bg-gray-50 dark:bg-gray-800">
+                      <p className="text-sm font-medium text-gray-900 dark:text-white">
+                        {new Date(walk.startedAt).toLocaleString([], { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                        {formatWalkDistance(walk.distanceMeters)} · {formatWalkDuration(walk)} · {walk.hazardIds.length} hazard{walk.hazardIds.length !== 1 ? 's' : ''} avoided
+                      </p>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => {
+                            onShowWalk(walk);
+                            onClose();
+                          }}
+                          disabled={walk.points.length < 2}
+                          className="px-3 py-1 text-xs font-medium text-emerald-700 dark:text-emerald-400 hover:bg-emerald-50 dark:hover:bg-emerald-900/30 disabled:opacity-40 rounded-lg transition-colors"
+                        >
+                          Show on map
+                        </button>
+                        <button
+                          onClick={() => handleExport(walk)}
+                          disabled={walk.points.length === 0}
+                          className="px-3 py-1 text-xs font-medium text-sky-700 dark:text-sky-400 hover:bg-sky-50 dark:hover:bg-sky-900/30 disabled:opacity-40 rounded-lg transition-colors"
+                        >
+                          Export GPX
+                        </button>
+                        <button
+                          onClick={() => handleDelete(walk.id)}
+                          className="ml-auto px-3 py-1 text-xs font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg transition-colors"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
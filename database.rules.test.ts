@@ -0,0 +1,341 @@
+// Realtime Database rules tests. They run against the local emulator:
+//   npm run test:rules
+// which starts it with `firebase emulators:exec`. Under a plain `npm test`
+// no emulator is running and the suite is skipped.
+
+import { readFileSync } from 'fs';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestContext,
+  RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+
+const REPORT_ID = 'report-1';
+const SERVER_TIMESTAMP = { '.sv': 'timestamp' };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface Vote {
+  deviceId: string;
+  timestamp: string;
+}
+
+function vote(deviceId: string, day = 1): Vote {
+  return { deviceId, timestamp: `2025-01-0${day}T12:00:00.000Z` };
+}
+
+// A report as toRealtimeDbReport writes it
+function reportData(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  const data: Record<string, unknown> = {
+    id: REPORT_ID,
+    lat: 51.5,
+    lng: -0.12,
+    geohash: 'gcpvj0',
+    category: 'glass',
+    severity: 'moderate',
+    desc: 'Broken bottle by the bus stop',
+    date: '2025-01-01T09:00:00.000Z',
+    clearedCount: 0,
+    resolved: false,
+    stillThereCount: 0,
+    stillThereConfirmations: [],
+    clearedConfirmations: [],
+    overturnedConfirmations: [],
+    updatedAt: SERVER_TIMESTAMP,
+    archived: false,
+    flagged: false,
+    noGlassFound: false,
+    ...overrides,
+  };
+  data.stillThereCount = (data.stillThereConfirmations as Vote[]).length;
+  data.clearedCount = (data.clearedConfirmations as Vote[]).length;
+  return data;
+}
+
+const emulatorRunning = !!process.env.FIREBASE_DATABASE_EMULATOR_HOST;
+
+describe.skipIf(!emulatorRunning)('database.rules.json', () => {
+  let testEnv: RulesTestEnvironment;
+
+  beforeAll(async () => {
+    testEnv = await initializeTestEnvironment({
+      projectId: 'demo-glass-alert',
+      database: { rules: readFileSync('database.rules.json', 'utf8') },
+    });
+  });
+
+  afterAll(async () => {
+    await testEnv.cleanup();
+  });
+
+  beforeEach(async () => {
+    await testEnv.clearDatabase();
+  });
+
+  // Store a report as it is now, bypassing the rules
+  async function seed(overrides: Record<string, unknown> = {}, updatedAt = Date.now()): Promise<void> {
+    await testEnv.withSecurityRulesDisabled(async context => {
+      await context.database().ref(`reports/${REPORT_ID}`).set(reportData({ ...overrides, updatedAt }));
+    });
+  }
+
+  function reportRef(context: RulesTestContext) {
+    return context.database().ref(`reports/${REPORT_ID}`);
+  }
+
+  const anonymous = () => testEnv.unauthenticatedContext();
+  const owner = () => testEnv.authenticatedContext('reporter');
+  const moderator = () => testEnv.authenticatedContext('moderator', { role: 'moderator' });
+  const admin = () => testEnv.authenticatedContext('admin', { role: 'council-admin' });
+
+  describe('anonymous users', () => {
+    it('can read reports', async () => {
+      await seed();
+      await assertSucceeds(reportRef(anonymous()).get());
+    });
+
+    it('can create a report', async () => {
+      await assertSucceeds(reportRef(anonymous()).set(reportData()));
+    });
+
+    it('cannot create a report with votes already on it', async () => {
+      await assertFails(reportRef(anonymous()).set(reportData({
+        clearedConfirmations: [vote('a'), vote('b'), vote('c')],
+      })));
+      await assertFails(reportRef(anonymous()).set(reportData({
+        stillThereConfirmations: [vote('a')],
+      })));
+    });
+
+    it('cannot create a resolved, flagged or archived report', async () => {
+      await assertFails(reportRef(anonymous()).set(reportData({ resolved: true })));
+      await assertFails(reportRef(anonymous()).set(reportData({ flagged: true })));
+      await assertFails(reportRef(anonymous()).set(reportData({ noGlassFound: true })));
+      await assertFails(reportRef(anonymous()).set(reportData({ archived: true })));
+    });
+
+    it('cannot create a report with an inline photo', async () => {
+      await assertFails(reportRef(anonymous()).set(reportData({ photoBase64: 'data:image/jpeg;base64,AAAA' })));
+    });
+
+    it('cannot write invalid fields', async () => {
+      await assertFails(reportRef(anonymous()).set(reportData({ lat: 91 })));
+      await assertFails(reportRef(anonymous()).set(reportData({ desc: 'x'.repeat(501) })));
+      await assertFails(reportRef(anonymous()).set(reportData({ category: 'rubbish' })));
+      await assertFails(reportRef(anonymous()).set(reportData({ syncStatus: 'unknown' })));
+      await assertFails(reportRef(anonymous()).set(reportData({ updatedAt: 1 })));
+      await assertFails(reportRef(anonymous()).set(reportData({ extra: true })));
+    });
+
+    it('can append votes', async () => {
+      await seed({ stillThereConfirmations: [vote('a')], clearedConfirmations: [vote('b', 2)] });
+      await assertSucceeds(reportRef(anonymous()).set(reportData({
+        stillThereConfirmations: [vote('a'), vote('c', 3)],
+        clearedConfirmations: [vote('b', 2), vote('d', 3)],
+      })));
+    });
+
+    it('cannot drop or replace a "Still There" vote', async () => {
+      await seed({ stillThereConfirmations: [vote('a'), vote('b')] });
+      await assertFails(reportRef(anonymous()).set(reportData({ stillThereConfirmations: [vote('a')] })));
+      await assertFails(reportRef(anonymous()).set(reportData({ stillThereConfirmations: [vote('a'), vote('c')] })));
+      await assertFails(reportRef(anonymous()).child('stillThereConfirmations').remove());
+    });
+
+    it('cannot drop or replace a "Cleared" vote', async () => {
+      await seed({ clearedConfirmations: [vote('a'), vote('b')] });
+      await assertFails(reportRef(anonymous()).set(reportData({ clearedConfirmations: [vote('a')] })));
+      await assertFails(reportRef(anonymous()).set(reportData({ clearedConfirmations: [vote('a'), vote('c')] })));
+      await assertFails(reportRef(anonymous()).child('clearedConfirmations').remove());
+    });
+
+    it('cannot drop an overturned vote', async () => {
+      await seed({ overturnedConfirmations: [vote('a'), vote('b')] });
+      await assertFails(reportRef(anonymous()).set(reportData({ overturnedConfirmations: [vote('a')] })));
+      await assertFails(reportRef(anonymous()).child('overturnedConfirmations').remove());
+    });
+
+    it('cannot set counts that differ from the votes', async () => {
+      await seed({ clearedConfirmations: [vote('a')] });
+      await assertFails(reportRef(anonymous()).update({ clearedCount: 3, updatedAt: SERVER_TIMESTAMP }));
+      await assertFails(reportRef(anonymous()).update({ stillThereCount: 1, updatedAt: SERVER_TIMESTAMP }));
+    });
+
+    it('can reset clearing progress by moving the "Cleared" votes to overturned', async () => {
+      const cleared = [vote('a'), vote('b')];
+      await seed({ clearedConfirmations: cleared, stillThereConfirmations: [vote('c', 2)] });
+      await assertSucceeds(reportRef(anonymous()).set(reportData({
+        stillThereConfirmations: [vote('c', 2), vote('d', 3)],
+        clearedConfirmations: [],
+        overturnedConfirmations: cleared,
+      })));
+    });
+
+    it('cannot reset clearing progress without two "Still There" votes', async () => {
+      const cleared = [vote('a'), vote('b')];
+      await seed({ clearedConfirmations: cleared });
+      await assertFails(reportRef(anonymous()).set(reportData({
+        stillThereConfirmations: [vote('c', 2)],
+        clearedConfirmations: [],
+        overturnedConfirmations: cleared,
+      })));
+    });
+
+    it('cannot reset clearing progress by discarding the "Cleared" votes', async () => {
+      await seed({ clearedConfirmations: [vote('a'), vote('b')] });
+      await assertFails(reportRef(anonymous()).set(reportData({
+        stillThereConfirmations: [vote('c', 2), vote('d', 3)],
+        clearedConfirmations: [],
+      })));
+    });
+
+    it('can resolve a report with three "Cleared" votes', async () => {
+      await seed({ clearedConfirmations: [vote('a'), vote('b')] });
+      await assertFails(reportRef(anonymous()).set(reportData({
+        clearedConfirmations: [vote('a'), vote('b')],
+        resolved: true,
+      })));
+      await assertSucceeds(reportRef(anonymous()).set(reportData({
+        clearedConfirmations: [vote('a'), vote('b'), vote('c', 2)],
+        resolved: true,
+      })));
+    });
+
+    it('cannot mark a vote as staff', async () => {
+      await seed();
+      await assertFails(reportRef(anonymous()).set(reportData({
+        clearedConfirmations: [{ ...vote('a'), staff: true }],
+      })));
+    });
+
+    it('cannot moderate, archive or delete reports', async () => {
+      await seed({ flagged: true });
+      await assertFails(reportRef(anonymous()).update({ flagged: false, updatedAt: SERVER_TIMESTAMP }));
+      await assertFails(reportRef(anonymous()).child('flagged').remove());
+      await assertFails(reportRef(anonymous()).update({ noGlassFound: true, updatedAt: SERVER_TIMESTAMP }));
+      await assertFails(reportRef(anonymous()).update({ archived: true, updatedAt: SERVER_TIMESTAMP }));
+      await assertFails(reportRef(anonymous()).remove());
+    });
+
+    it('can archive a report resolved more than 7 days ago', async () => {
+      const votes = [vote('a'), vote('b'), vote('c')];
+      await seed({ clearedConfirmations: votes, resolved: true }, Date.now() - 8 * DAY_MS);
+      await assertSucceeds(reportRef(anonymous()).update({
+        archived: true,
+        archivedAt: Date.now() - 1000,
+        updatedAt: SERVER_TIMESTAMP,
+      }));
+    });
+
+    it('cannot write to a report merged into another one', async () => {
+      await testEnv.withSecurityRulesDisabled(async context => {
+        await context.database().ref(`reportAliases/${REPORT_ID}`).set({ survivorId: 'report-2', mergedAt: Date.now() });
+      });
+      await assertFails(reportRef(anonymous()).set(reportData()));
+    });
+  });
+
+  describe('report owners', () => {
+    it('cannot edit, move or delete their own report', async () => {
+      await assertSucceeds(reportRef(owner()).set(reportData()));
+      await assertFails(reportRef(owner()).update({ desc: 'Edited', updatedAt: SERVER_TIMESTAMP }));
+      await assertFails(reportRef(owner()).update({ lat: 51.6, updatedAt: SERVER_TIMESTAMP }));
+      await assertFails(reportRef(owner()).child('category').remove());
+      await assertFails(reportRef(owner()).remove());
+    });
+
+    it('cannot resolve their own report without votes', async () => {
+      await seed();
+      await assertFails(reportRef(owner()).update({ resolved: true, updatedAt: SERVER_TIMESTAMP }));
+    });
+
+    it('cannot replace a photo once it is set', async () => {
+      await seed({ photoUrl: 'https://example.com/a.jpg', thumbnailUrl: 'https://example.com/a-thumb.jpg' });
+      await assertFails(reportRef(owner()).update({ photoUrl: 'https://example.com/b.jpg', updatedAt: SERVER_TIMESTAMP }));
+      await assertFails(reportRef(owner()).child('photoUrl').remove());
+    });
+  });
+
+  describe('moderators', () => {
+    it('can flag a report and mark it as no glass found', async () => {
+      await seed();
+      const moderatedAt = Date.now();
+      await assertSucceeds(reportRef(moderator()).update({
+        flagged: true,
+        noGlassFound: true,
+        moderatedAt: { flagged: moderatedAt, noGlassFound: moderatedAt },
+        updatedAt: SERVER_TIMESTAMP,
+      }));
+    });
+
+    it('can resolve a report without votes', async () => {
+      await seed();
+      await assertSucceeds(reportRef(moderator()).update({ resolved: true, updatedAt: SERVER_TIMESTAMP }));
+    });
+
+    it('cannot archive, edit or delete reports', async () => {
+      await seed();
+      await assertFails(reportRef(moderator()).update({ archived: true, archivedAt: Date.now(), updatedAt: SERVER_TIMESTAMP }));
+      await assertFails(reportRef(moderator()).update({ desc: 'Edited', updatedAt: SERVER_TIMESTAMP }));
+      await assertFails(reportRef(moderator()).remove());
+    });
+
+    it('cannot drop votes', async () => {
+      await seed({ clearedConfirmations: [vote('a'), vote('b')] });
+      await assertFails(reportRef(moderator()).set(reportData({ clearedConfirmations: [vote('a')] })));
+    });
+
+    it('can mark their own votes as staff', async () => {
+      await seed();
+      await assertSucceeds(reportRef(moderator()).set(reportData({
+        clearedConfirmations: [{ ...vote('a'), staff: true }],
+      })));
+    });
+  });
+
+  describe('council admins', () => {
+    it('can archive and unarchive a report', async () => {
+      await seed();
+      const archivedAt = Date.now();
+      await assertSucceeds(reportRef(admin()).update({
+        archived: true,
+        archivedAt,
+        moderatedAt: { archived: archivedAt },
+        updatedAt: SERVER_TIMESTAMP,
+      }));
+      await assertSucceeds(reportRef(admin()).set(reportData({
+        archived: false,
+        moderatedAt: { archived: archivedAt + 1 },
+      })));
+    });
+
+    it('can edit the description and delete a report', async () => {
+      await seed();
+      await assertSucceeds(reportRef(admin()).update({ desc: 'Merged description', updatedAt: SERVER_TIMESTAMP }));
+      await assertSucceeds(reportRef(admin()).remove());
+    });
+
+    it('cannot drop votes or move a report', async () => {
+      await seed({ stillThereConfirmations: [vote('a')] });
+      await assertFails(reportRef(admin()).set(reportData()));
+      await assertFails(reportRef(admin()).update({ lat: 51.6, updatedAt: SERVER_TIMESTAMP }));
+    });
+
+    it('can merge a duplicate into an alias', async () => {
+      await seed();
+      await assertSucceeds(admin().database().ref().update({
+        [`reportAliases/${REPORT_ID}`]: { survivorId: 'report-2', mergedAt: SERVER_TIMESTAMP },
+        [`reports/${REPORT_ID}`]: null,
+      }));
+    });
+
+    it('is the only role that can write aliases', async () => {
+      await assertFails(moderator().database().ref(`reportAliases/${REPORT_ID}`).set({
+        survivorId: 'report-2',
+        mergedAt: SERVER_TIMESTAMP,
+      }));
+    });
+  });
+});
@@ -0,0 +1,106 @@
+// Synthetic reports for checking map performance at city scale. The
+// clustering tests (lib/clustering.test.ts) run the benchmark below on
+// 10,000 of them and hold it to a frame budget.
+
+import { Report } from '../db';
+import { LatLngBounds, encodeGeohash } from '../geo';
+import { HAZARD_CATEGORY_ORDER, HAZARD_SEVERITY_ORDER } from '../hazards';
+import { buildClusterIndex, getClusters } from '../clustering';
+
+const DEFAULT_CENTER = { lat: 51.5074, lng: -0.1278 };
+const HOTSPOTS = 40; // Reports bunch up around streets and parks
+
+// Small seeded PRNG (mulberry32), so every run sees the same fixture
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// count reports within about radiusMeters of center, half around hotspots
+export function createBenchmarkReports(
+  count: number,
+  center: { lat: number; lng: number } = DEFAULT_CENTER,
+  radiusMeters: number = 8000,
+  seed: number = 1
+): Report[] {
+  const random = createRandom(seed);
+  const degreesLat = radiusMeters / 111320;
+  const degreesLng = degreesLat / Math.cos((center.lat * Math.PI) / 180);
+  const offset = (spread: number) => (random() * 2 - 1) * spread;
+
+  const hotspots = Array.from({ length: HOTSPOTS }, () => ({
+    lat: center.lat + offset(degreesLat),
+    lng: center.lng + offset(degreesLng),
+  }));
+
+  const now = Date.now();
+  return Array.from({ length: count }, (_, index) => {
+    const hotspot = index % 2 === 0 ? hotspots[index % HOTSPOTS] : null;
+    const lat = hotspot ? hotspot.lat + offset(degreesLat / 40) : center.lat + offset(degreesLat);
+    const lng = hotspot ? hotspot.lng + offset(degreesLng / 40) : center.lng + offset(degreesLng);
+    const resolved = random() < 0.3;
+
+    return {
+      id: `benchmark-${index}`,
+      lat,
+      lng,
+      geohash: encodeGeohash(lat, lng),
+      category: HAZARD_CATEGORY_ORDER[Math.floor(random() * HAZARD_CATEGORY_ORDER.length)],
+      severity: HAZARD_SEVERITY_ORDER[Math.floor(random() * HAZARD_SEVERITY_ORDER.length)],
+      desc: `Benchmark report ${index}`,
+      date: new Date(now - Math.floor(random() * 365) * 24 * 60 * 60 * 1000).toISOString(),
+      clearedCount: resolved ? 3 : 0,
+      resolved,
+      stillThereCount: 0,
+      stillThereConfirmations: [],
+      clearedConfirmations: [],
+      syncStatus: 'synced',
+      lastModified: now,
+    };
+  });
+}
+
+export interface ClusteringBenchmark {
+  reports: number;
+  buildMs: number;
+  queryMs: number; // Average per viewport query
+  maxRendered: number; // Most markers and bubbles returned by one query
+}
+
+// Build the index once and query a sweep of viewports across zoom levels,
+// like a user panning and zooming around the fixture
+export function runClusteringBenchmark(reports: Report[], center: { lat: number; lng: number } = DEFAULT_CENTER): ClusteringBenchmark {
+  const inputs = reports.map(report => ({ id: report.id, lat: report.lat, lng: report.lng, cleared: report.resolved }));
+
+  const buildStart = performance.now();
+  const index = buildClusterIndex(inputs);
+  const buildMs = performance.now() - buildStart;
+
+  let queries = 0;
+  let maxRendered = 0;
+  const queryStart = performance.now();
+  for (let zoom = 10; zoom <= 18; zoom++) {
+    // Roughly a phone screen at this zoom
+    const halfLat = 360 / Math.pow(2, zoom) * 1.5;
+    const halfLng = 360 / Math.pow(2, zoom);
+    for (let step = -5; step <= 5; step++) {
+      const bounds: LatLngBounds = {
+        north: center.lat + halfLat + step * halfLat * 0.2,
+        south: center.lat - halfLat + step * halfLat * 0.2,
+        east: center.lng + halfLng + step * halfLng * 0.2,
+        west: center.lng - halfLng + step * halfLng * 0.2,
+      };
+      maxRendered = Math.max(maxRendered, getClusters(index, bounds, zoom).length);
+      queries++;
+    }
+  }
+  const queryMs = (performance.now() - queryStart) / queries;
+
+  return { reports: reports.length, buildMs, queryMs, maxRendered };
+}
@@ -0,0 +1,98 @@
+// Small JPEGs for the EXIF tests. The image data is a few placeholder
+// bytes: nothing decodes it, the reader and stripper only walk the
+// segments in front of it.
+
+export type ByteOrder = 'II' | 'MM';
+
+// What exifJpeg() writes
+export const PHOTO_LOCATION = { lat: 51.51, lng: -0.125 }; // 51°30'36" N, 0°7'30" W
+export const PHOTO_TAKEN_AT = '2025-03-01T08:15:00.000Z'; // 09:15 at +01:00
+
+function ascii(text: string): number[] {
+  return Array.from(text, char => char.charCodeAt(0));
+}
+
+function segment(marker: number, payload: number[]): number[] {
+  const length = payload.length + 2;
+  return [0xff, marker, length >> 8, length & 0xff, ...payload];
+}
+
+// TIFF block with an EXIF IFD holding DateTimeOriginal and its offset, and
+// a GPS IFD holding the position. Offsets are from the start of the block.
+function tiff(byteOrder: ByteOrder): number[] {
+  const view = new DataView(new ArrayBuffer(198));
+  const littleEndian = byteOrder === 'II';
+  const u16 = (offset: number, value: number) => view.setUint16(offset, value, littleEndian);
+  const u32 = (offset: number, value: number) => view.setUint32(offset, value, littleEndian);
+  const bytes = (offset: number, values: number[]) => values.forEach((value, i) => view.setUint8(offset + i, value));
+  const entry = (offset: number, tag: number, type: number, count: number, value: number) => {
+    u16(offset, tag);
+    u16(offset + 2, type);
+    u32(offset + 4, count);
+    u32(offset + 8, value);
+  };
+  const rationals = (offset: number, values: number[]) => values.forEach((value, i) => {
+    u32(offset + i * 8, value);
+    u32(offset + i * 8 + 4, 1);
+  });
+
+  bytes(0, ascii(byteOrder));
+  u16(2, 42);
+  u32(4, 8);
+
+  // IFD0 at 8: pointers to the EXIF IFD (38) and GPS IFD (68)
+  u16(8, 2);
+  entry(10, 0x8769, 4, 1, 38);
+  entry(22, 0x8825, 4, 1, 68);
+
+  // EXIF IFD at 38: DateTimeOriginal (122) and OffsetTimeOriginal (142)
+  u16(38, 2);
+  entry(40, 0x9003, 2, 20, 122);
+  entry(52, 0x9011, 2, 7, 142);
+
+  // GPS IFD at 68: the refs fit inline, the rationals are at 150 and 174
+  u16(68, 4);
+  entry(70, 0x0001, 2, 2, 0);
+  bytes(78, ascii('N'));
+  entry(82, 0x0002, 5, 3, 150);
+  entry(94, 0x0003, 2, 2, 0);
+  bytes(102, ascii('W'));
+  entry(106, 0x0004, 5, 3, 174);
+
+  bytes(122, ascii('2025:03:01 09:15:00'));
+  bytes(142, ascii('+01:00'));
+  rationals(150, [51, 30, 36]);
+  rationals(174, [0, 7, 30]);
+
+  return Array.from(new Uint8Array(view.buffer));
+}
+
+const SOI = [0xff, 0xd8];
+const JFIF = segment(0xe0, [...ascii('JFIF'), 0, 1, 1, 0, 0, 1, 0, 1, 0, 0]);
+const QUANTIZATION_TABLE = segment(0xdb, [0, ...Array.from({ length: 64 }, (_, i) => i + 1)]);
+const IMAGE_DATA = [...segment(0xda, [1, 1, 0, 0, 63, 0]), 0x12, 0x34, 0xff, 0x00, 0x56, 0xff, 0xd9];
+
+// A JPEG with only the JFIF header in front of the image
+export function bareJpeg(): Uint8Array {
+  return new Uint8Array([...SOI, ...JFIF, ...QUANTIZATION_TABLE, ...IMAGE_DATA]);
+}
+
+// The same JPEG as a phone might save it: EXIF with the location and time,
+// an ICC profile, Photoshop and vendor blocks, and a comment
+export function exifJpeg(byteOrder: ByteOrder = 'II'): Uint8Array {
+  return new Uint8Array([
+    ...SOI,
+    ...JFIF,
+    ...segment(0xe1, [...ascii('Exif'), 0, 0, ...tiff(byteOrder)]),
+    ...segment(0xe2, [...ascii('ICC_PROFILE'), 0, 1, 1]),
+    ...segment(0xed, [...ascii('Photoshop 3.0'), 0]),
+    ...segment(0xef, ascii('vendor')),
+    ...segment(0xfe, ascii('Taken on a phone')),
+    ...QUANTIZATION_TABLE,
+    ...IMAGE_DATA,
+  ]);
+}
+
+export function toJpegDataUrl(bytes: Uint8Array): string {
+  return `data:image/jpeg;base64,${Buffer.from(bytes).toString('base64')}`;
+}
@@ -0,0 +1,36 @@
+// Reports and votes for the confirmation and sync tests, at a fixed time
+// so vote ages and cooldowns don't depend on when the tests run.
+
+import { Confirmation, Report } from '../db';
+
+export const NOW = Date.parse('2025-03-01T12:00:00.000Z');
+export const HOUR_MS = 60 * 60 * 1000;
+
+// A vote from `deviceId`, `hoursAgo` before NOW
+export function vote(deviceId: string, hoursAgo = 1, extra: Partial<Confirmation> = {}): Confirmation {
+  return { deviceId, timestamp: new Date(NOW - hoursAgo * HOUR_MS).toISOString(), ...extra };
+}
+
+// A synced report from two days ago, with counts matching its votes
+export function report(overrides: Partial<Report> = {}): Report {
+  const stillThereConfirmations = overrides.stillThereConfirmations || [];
+  const clearedConfirmations = overrides.clearedConfirmations || [];
+  return {
+    id: 'report-1',
+    lat: 51.5,
+    lng: -0.12,
+    geohash: 'gcpvj0',
+    category: 'glass',
+    severity: 'moderate',
+    desc: '',
+    date: new Date(NOW - 48 * HOUR_MS).toISOString(),
+    resolved: false,
+    syncStatus: 'synced',
+    lastModified: NOW,
+    ...overrides,
+    stillThereConfirmations,
+    stillThereCount: stillThereConfirmations.length,
+    clearedConfirmations,
+    clearedCount: clearedConfirmations.length,
+  };
+}
@@ -0,0 +1,114 @@
+// Walking traces and hazards for tests: GPS fixes to replay through the
+// proximity and look-ahead logic, and positions to plan routes past.
+// Each trace is a walk at a steady pace along straight legs, with seeded
+// phone-like noise: Gaussian error matching the reported accuracy.
+
+import { Report } from '../db';
+import { GpsFix } from '../lookAhead';
+import { HazardSeverity } from '../hazards';
+
+export interface Position {
+  lat: number;
+  lng: number;
+}
+
+export const TRACE_START: Position = { lat: 51.5074, lng: -0.1278 };
+const METERS_PER_DEGREE = 111320;
+
+// Small seeded PRNG (mulberry32), so every run sees the same trace
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Standard normal sample (Box-Muller)
+function gaussian(random: () => number): number {
+  return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+}
+
+// The point `meters` from `from` along `bearing` (degrees from north)
+export function offsetPosition(from: Position, bearing: number, meters: number): Position {
+  const radians = (bearing * Math.PI) / 180;
+  return {
+    lat: from.lat + (meters * Math.cos(radians)) / METERS_PER_DEGREE,
+    lng: from.lng + (meters * Math.sin(radians)) / (METERS_PER_DEGREE * Math.cos((from.lat * Math.PI) / 180)),
+  };
+}
+
+export interface WalkLeg {
+  bearing: number;
+  seconds: number;
+}
+
+export interface WalkOptions {
+  start?: Position;
+  speed?: number; // m/s
+  accuracy?: number; // Reported 95% radius, m
+  intervalMs?: number;
+  withHeading?: boolean; // Whether the device reports heading and speed
+  seed?: number;
+}
+
+// Fixes for a walk along the given legs, one per interval
+export function simulateWalk(legs: WalkLeg[], options: WalkOptions = {}): GpsFix[] {
+  const {
+    start = TRACE_START,
+    speed = 1.4,
+    accuracy = 10,
+    intervalMs = 1000,
+    withHeading = false,
+    seed = 1,
+  } = options;
+  const random = createRandom(seed);
+  const sigma = accuracy / 2.45;
+  const step = speed * (intervalMs / 1000);
+
+  const fixes: GpsFix[] = [];
+  let position = start;
+  let timestamp = 1_700_000_000_000;
+  for (const leg of legs) {
+    const steps = Math.round((leg.seconds * 1000) / intervalMs);
+    for (let i = 0; i < steps; i++) {
+      position = offsetPosition(position, leg.bearing, step);
+      timestamp += intervalMs;
+
+      const north = offsetPosition(position, 0, gaussian(random) * sigma);
+      const reported = offsetPosition(north, 90, gaussian(random) * sigma);
+      fixes.push({
+        ...reported,
+        timestamp,
+        accuracy,
+        heading: withHeading && speed > 0 ? leg.bearing : null,
+        speed: withHeading ? speed : null,
+      });
+    }
+  }
+  return fixes;
+}
+
+// A hazard report at the given position
+export function hazardAt(id: string, position: Position, severity: HazardSeverity = 'moderate'): Report {
+  return {
+    id,
+    lat: position.lat,
+    lng: position.lng,
+    geohash: '',
+    category: 'glass',
+    severity,
+    desc: '',
+    date: '2025-01-01T00:00:00.000Z',
+    clearedCount: 0,
+    resolved: false,
+    stillThereCount: 0,
+    stillThereConfirmations: [],
+    clearedConfirmations: [],
+    syncStatus: 'synced',
+    lastModified: 0,
+  };
+}
@@ -0,0 +1,113 @@
+// Snoozed and muted hazards for repeat walks. Stored per device in
+// IndexedDB; an acknowledgement stops applying when it expires, when the
+// hazard's status changes (for "until it changes"), or when someone else
+// confirms the hazard is still there after it was acknowledged.
+
+import { useState, useEffect, useCallback } from 'react';
+import { db, Report, HazardAcknowledgement, AcknowledgementMode } from './db';
+import { getAlertStatus } from './alertSettings';
+import { DEFAULT_HAZARD_SEVERITY } from './hazards';
+
+export const SNOOZE_DURATION_MS = 24 * 60 * 60 * 1000;
+
+export const ACKNOWLEDGEMENT_MODES: Record<AcknowledgementMode, { label: string; description: string }> = {
+  snooze: { label: 'Snooze 1 day', description: 'No alerts for this hazard for 24 hours' },
+  untilChanged: { label: 'Until it changes', description: 'No alerts until its status or severity changes' },
+  mute: { label: 'Mute', description: 'No alerts for this hazard' },
+};
+
+export const ACKNOWLEDGEMENT_MODE_ORDER = Object.keys(ACKNOWLEDGEMENT_MODES) as AcknowledgementMode[];
+
+// Window event fired when acknowledgements change
+export const ACKNOWLEDGEMENTS_CHANGED_EVENT = 'pawsafe:acknowledgements-changed';
+
+// What "until it changes" compares against
+export function getStatusKey(report: Report): string {
+  return [getAlertStatus(report), report.resolved, report.severity ?? DEFAULT_HAZARD_SEVERITY].join('|');
+}
+
+// Whether an acknowledgement still silences alerts for a report
+export function isAcknowledgementActive(
+  ack: HazardAcknowledgement,
+  report: Report,
+  deviceId: string,
+  now: number = Date.now()
+): boolean {
+  if (ack.mode === 'snooze' && (ack.until ?? 0) <= now) return false;
+  if (ack.mode === 'untilChanged' && ack.statusKey !== getStatusKey(report)) return false;
+
+  // Someone else says it's (still) there: alert again
+  const reconfirmed = (report.stillThereConfirmations || []).some(confirmation =>
+    confirmation.deviceId !== deviceId && new Date(confirmation.timestamp).getTime() > ack.acknowledgedAt
+  );
+  return !reconfirmed;
+}
+
+function notifyChanged(): void {
+  window.dispatchEvent(new Event(ACKNOWLEDGEMENTS_CHANGED_EVENT));
+}
+
+export async function acknowledgeHazard(report: Report, mode: AcknowledgementMode): Promise<void> {
+  const now = Date.now();
+  await db.hazardAcknowledgements.put({
+    reportId: report.id,
+    mode,
+    acknowledgedAt: now,
+    until: mode === 'snooze' ? now + SNOOZE_DURATION_MS : undefined,
+    statusKey: mode === 'untilChanged' ? getStatusKey(report) : undefined,
+  });
+  notifyChanged();
+}
+
+export async function clearAcknowledgement(reportId: string): Promise<void> {
+  await db.hazardAcknowledgements.delete(reportId);
+  notifyChanged();
+}
+
+// Remove acknowledgements that no longer apply to the given reports.
+// Returns how many were removed.
+export async function pruneAcknowledgements(
+  acknowledgements: HazardAcknowledgement[],
+  reports: Map<string, Report>,
+  deviceId: string
+): Promise<number> {
+  const stale = acknowledgements.filter(ack => {
+    const report = reports.get(ack.reportId);
+    return report && !isAcknowledgementActive(ack, report, deviceId);
+  });
+  if (stale.length === 0) return 0;
+
+  await db.hazardAcknowledgements.bulkDelete(stale.map(ack => ack.reportId));
+  console.log('Cleared acknowledgements that no longer apply:', stale.length);
+  notifyChanged();
+  return stale.length;
+}
+
+// All acknowledgements on this device, kept up to date across components
+export function useHazardAcknowledgements() {
+  const [acknowledgements, setAcknowledgements] = useState<Map<string, HazardAcknowledgement>>(new Map());
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const all = await db.hazardAcknowledgements.toArray();
+        if (!cancelled) setAcknowledgements(new Map(all.map(ack => [ack.reportId, ack])));
+      } catch (error) {
+        console.error('Failed to load hazard acknowledgements:', error);
+      }
+    };
+
+    load();
+    window.addEventListener(ACKNOWLEDGEMENTS_CHANGED_EVENT, load);
+    return () => {
+      cancelled = true;
+      window.removeEventListener(ACKNOWLEDGEMENTS_CHANGED_EVENT, load);
+    };
+  }, []);
+
+  const acknowledge = useCallback((report: Report, mode: AcknowledgementMode) => acknowledgeHazard(report, mode), []);
+  const clear = useCallback((reportId: string) => clearAcknowledgement(reportId), []);
+
+  return { acknowledgements, acknowledge, clear };
+}
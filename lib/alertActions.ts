@@ -0,0 +1,156 @@
+'use client';
+
+// Actionable alert notifications. Notifications are shown through the
+// service worker so they can carry "Still there" / "Cleared" / "Dismiss"
+// buttons; public/sw.js queues the chosen confirmation in IndexedDB and
+// the page applies it here the next time it runs.
+
+import { useEffect, useRef } from 'react';
+import { db, incrementClearedCount, incrementStillThereCount, PendingAlertAction } from './db';
+
+// Messages posted by public/sw.js (keep in sync with the worker)
+export const ALERT_ACTION_QUEUED_MESSAGE = 'pawsafe:alert-action-queued';
+export const ALERT_DISMISSED_MESSAGE = 'pawsafe:alert-dismissed';
+
+// Tag of the worker's "Thanks!" notification, so a follow-up replaces it
+const ACTION_CONFIRMATION_TAG = 'alert-action-confirmation';
+
+export interface AlertNotificationOptions {
+  title: string;
+  body: string;
+  tag: string;
+  reportId: string;
+  deviceId: string;
+  withActions: boolean; // Offer Still there / Cleared buttons
+}
+
+// Show a notification, with action buttons when a service worker is
+// available; falls back to a plain page notification otherwise
+export async function showAlertNotification(options: AlertNotificationOptions): Promise<void> {
+  if (typeof window === 'undefined' || !('Notification' in window)) return;
+  if (Notification.permission !== 'granted') return;
+
+  const base = {
+    body: options.body,
+    icon: '/icons/icon-192x192.png',
+    tag: options.tag, // Prevents duplicate notifications
+  };
+
+  try {
+    const registration = 'serviceWorker' in navigator
+      ? await navigator.serviceWorker.getRegistration()
+      : undefined;
+
+    if (registration) {
+      await registration.showNotification(options.title, {
+        ...base,
+        badge: '/icons/icon-192x192.png',
+        requireInteraction: options.withActions, // Stay until answered
+        data: { reportId: options.reportId, deviceId: options.deviceId, url: '/' },
+        // Not in the TypeScript DOM types yet, but supported by Chrome and Android
+        ...(options.withActions && {
+          actions: [
+            { action: 'stillThere', title: 'Still there' },
+            { action: 'cleared', title: 'Cleared' },
+            { action: 'dismiss', title: 'Dismiss' },
+          ],
+        }),
+      } as NotificationOptions);
+      return;
+    }
+  } catch (error) {
+    console.warn('Failed to show service worker notification:', error);
+  }
+
+  new Notification(options.title, { ...base, requireInteraction: false });
+}
+
+// The worker thanks the walker before the vote is checked; when it turns
+// out to need a photo, replace that with a prompt to confirm in the app
+async function showPhotoRequiredNotification(action: PendingAlertAction['action']): Promise<void> {
+  if (!('Notification' in window) || Notification.permission !== 'granted') return;
+  const registration = await navigator.serviceWorker?.getRegistration();
+  if (!registration) return;
+
+  await registration.showNotification('PawSafe', {
+    body: action === 'cleared'
+      ? 'Not saved yet: add a photo in the app to confirm the hazard is cleared'
+      : 'Not saved yet: add a photo in the app to confirm the hazard is still there',
+    icon: '/icons/icon-192x192.png',
+    tag: ACTION_CONFIRMATION_TAG,
+    data: { url: '/' },
+  });
+}
+
+// Apply confirmations queued by the service worker. Returns how many
+// were applied (duplicates and cooldowns are skipped by the db helpers;
+// votes that need a photo get a follow-up notification instead).
+export async function drainPendingAlertActions(): Promise<number> {
+  const pending = await db.pendingAlertActions.orderBy('createdAt').toArray();
+  if (pending.length === 0) return 0;
+
+  let applied = 0;
+  for (const item of pending) {
+    try {
+      const result = item.action === 'cleared'
+        ? await incrementClearedCount(item.reportId, item.deviceId)
+        : await incrementStillThereCount(item.reportId, item.deviceId);
+      if (result.success) {
+        applied++;
+      } else if (result.reason === 'photoRequired') {
+        await showPhotoRequiredNotification(item.action);
+      }
+    } catch (error) {
+      console.error('Failed to apply queued alert action:', error);
+    }
+    await db.pendingAlertActions.delete(item.id!);
+  }
+
+  console.log('Applied queued alert actions:', applied);
+  return applied;
+}
+
+interface UseAlertActionQueueProps {
+  onActionsApplied: (count: number) => void; // Reload reports and sync
+  onDismissed: (reportId: string) => void;
+}
+
+// Drain the queue on load, when the tab becomes visible again and when
+// the service worker reports a new action
+export function useAlertActionQueue({ onActionsApplied, onDismissed }: UseAlertActionQueueProps) {
+  const callbacksRef = useRef({ onActionsApplied, onDismissed });
+  useEffect(() => {
+    callbacksRef.current = { onActionsApplied, onDismissed };
+  }, [onActionsApplied, onDismissed]);
+
+  useEffect(() => {
+    const drain = async () => {
+      try {
+        const applied = await drainPendingAlertActions();
+        if (applied > 0) callbacksRef.current.onActionsApplied(applied);
+      } catch (error) {
+        console.error('Failed to drain alert actions:', error);
+      }
+    };
+
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') drain();
+    };
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === ALERT_ACTION_QUEUED_MESSAGE) {
+        drain();
+      } else if (event.data?.type === ALERT_DISMISSED_MESSAGE && typeof event.data.reportId === 'string') {
+        callbacksRef.current.onDismissed(event.data.reportId);
+      }
+    };
+
+    drain();
+    document.addEventListener('visibilitychange', handleVisibility);
+    navigator.serviceWorker?.addEventListener('message', handleMessage);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibility);
+      navigator.serviceWorker?.removeEventListener('message', handleMessage);
+    };
+  }, []);
+}
@@ -0,0 +1,99 @@
+// Spoken alert phrases in the user's language
+
+import { HazardCategory } from './hazards';
+import { HazardSide } from './lookAhead';
+
+type PhraseLanguage = 'en' | 'es' | 'fr' | 'de';
+
+interface PhraseSet {
+  categories: Record<HazardCategory, string>;
+  nearby: (hazard: string) => string;
+  ahead: (hazard: string, metres: number, side: HazardSide) => string;
+}
+
+const PHRASES: Record<PhraseLanguage, PhraseSet> = {
+  en: {
+    categories: {
+      glass: 'Broken glass',
+      needles: 'Needles',
+      sharpMetal: 'Sharp metal',
+      nails: 'Nails',
+      chemicals: 'Spilled chemicals',
+      poison: 'Rat poison',
+      other: 'Hazard',
+    },
+    nearby: hazard => `Caution, ${hazard.toLowerCase()} right here`,
+    ahead: (hazard, metres, side) => side === 'ahead'
+      ? `${hazard} ${metres} metres straight ahead`
+      : `${hazard} ${metres} metres ahead on your ${side}`,
+  },
+  es: {
+    categories: {
+      glass: 'Cristales rotos',
+      needles: 'Agujas',
+      sharpMetal: 'Metal cortante',
+      nails: 'Clavos',
+      chemicals: 'Productos químicos derramados',
+      poison: 'Veneno para ratas',
+      other: 'Peligro',
+    },
+    nearby: hazard => `Cuidado, ${hazard.toLowerCase()} aquí mismo`,
+    ahead: (hazard, metres, side) => side === 'ahead'
+      ? `${hazard} a ${metres} metros justo delante`
+      : `${hazard} a ${metres} metros a tu ${side === 'left' ? 'izquierda' : 'derecha'}`,
+  },
+  fr: {
+    categories: {
+      glass: 'Verre cassé',
+      needles: 'Seringues',
+      sharpMetal: 'Métal coupant',
+      nails: 'Clous',
+      chemicals: 'Produits chimiques renversés',
+      poison: 'Mort-aux-rats',
+      other: 'Danger',
+    },
+    nearby: hazard => `Attention, ${hazard.toLowerCase()} ici même`,
+    ahead: (hazard, metres, side) => side === 'ahead'
+      ? `${hazard} à ${metres} mètres droit devant`
+      : `${hazard} à ${metres} mètres sur votre ${side === 'left' ? 'gauche' : 'droite'}`,
+  },
+  de: {
+    categories: {
+      glass: 'Glasscherben',
+      needles: 'Spritzen',
+      sharpMetal: 'Scharfes Metall',
+      nails: 'Nägel',
+      chemicals: 'Verschüttete Chemikalien',
+      poison: 'Rattengift',
+      other: 'Gefahr',
+    },
+    nearby: hazard => `Vorsicht, ${hazard} direkt hier`,
+    ahead: (hazard, metres, side) => side === 'ahead'
+      ? `${hazard} in ${metres} Metern geradeaus`
+      : `${hazard} in ${metres} Metern ${side === 'left' ? 'links' : 'rechts'}`,
+  },
+};
+
+// The user's preferred locale, e.g. "en-GB"
+export function getUserLocale(): string {
+  return typeof navigator !== 'undefined' && navigator.language ? navigator.language : 'en';
+}
+
+// Language of the phrases used for a locale; English when not translated
+export function getPhraseLanguage(locale: string): PhraseLanguage {
+  const language = locale.toLowerCase().split('-')[0];
+  return language in PHRASES ? (language as PhraseLanguage) : 'en';
+}
+
+// Phrase to speak for a hazard the user is at, or one ahead of them
+export function buildAlertPhrase(
+  category: HazardCategory,
+  locale: string,
+  ahead?: { distance: number; side: HazardSide }
+): string {
+  const phrases = PHRASES[getPhraseLanguage(locale)];
+  const hazard = phrases.categories[category];
+  if (!ahead) return phrases.nearby(hazard);
+  const metres = Math.max(5, Math.round(ahead.distance / 5) * 5);
+  return phrases.ahead(hazard, metres, ahead.side);
+}
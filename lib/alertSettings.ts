@@ -0,0 +1,156 @@
+// User preferences for proximity and look-ahead alerts, kept in localStorage
+
+import { useState, useEffect, useCallback } from 'react';
+import { Report } from './db';
+import { HazardSeverity, HAZARD_SEVERITY_ORDER, DEFAULT_HAZARD_SEVERITY, isHazardSeverity } from './hazards';
+
+export type VibrationPatternName = 'off' | 'short' | 'standard' | 'long';
+
+export const VIBRATION_PATTERNS: Record<VibrationPatternName, { label: string; pattern: number[] }> = {
+  off: { label: 'Off', pattern: [] },
+  short: { label: 'Short buzz', pattern: [150] },
+  standard: { label: 'Double buzz', pattern: [200, 100, 200] },
+  long: { label: 'Long pulses', pattern: [400, 150, 400, 150, 400] },
+};
+
+// Which state a hazard is in, for choosing which ones alert
+export type AlertStatus = 'reported' | 'confirmed' | 'beingCleared' | 'flagged';
+
+export const ALERT_STATUSES: Record<AlertStatus, { label: string; description: string }> = {
+  reported: { label: 'New reports', description: 'Not yet confirmed by anyone else' },
+  confirmed: { label: 'Confirmed', description: 'Someone said it is still there' },
+  beingCleared: { label: 'Being cleared', description: 'Some people said it has been cleared' },
+  flagged: { label: 'Flagged', description: 'Flagged by the council for review' },
+};
+
+export const ALERT_STATUS_ORDER = Object.keys(ALERT_STATUSES) as AlertStatus[];
+
+// Multipliers applied to the per-severity alert radii
+export const ALERT_DISTANCE_OPTIONS = [
+  { value: 0.5, label: 'Closer (fewer alerts)' },
+  { value: 1, label: 'Standard' },
+  { value: 1.5, label: 'Earlier' },
+  { value: 2, label: 'Much earlier' },
+];
+
+export const SELF_REPORT_SUPPRESS_OPTIONS = [0, 5, 10, 30, 60]; // Minutes
+
+export interface QuietHours {
+  enabled: boolean;
+  start: string; // "HH:MM", local time
+  end: string; // "HH:MM"; may be earlier than start to span midnight
+}
+
+export interface AlertSettings {
+  radiusMultiplier: number;
+  vibration: VibrationPatternName;
+  sound: boolean; // Chime
+  speech: boolean; // Spoken phrases in the user's language
+  quietHours: QuietHours;
+  minSeverity: HazardSeverity;
+  selfReportSuppressMinutes: number;
+  alertStatuses: AlertStatus[];
+}
+
+export const DEFAULT_ALERT_SETTINGS: AlertSettings = {
+  radiusMultiplier: 1,
+  vibration: 'standard',
+  sound: false,
+  speech: false,
+  quietHours: { enabled: false, start: '22:00', end: '07:00' },
+  minSeverity: 'minor',
+  selfReportSuppressMinutes: 10,
+  alertStatuses: ['reported', 'confirmed', 'beingCleared', 'flagged'],
+};
+
+// Window event fired when settings change
+export const ALERT_SETTINGS_CHANGED_EVENT = 'pawsafe:alert-settings-changed';
+
+const STORAGE_KEY_SETTINGS = 'pawsafe_alert_settings';
+
+// Fill in missing or invalid fields so settings saved by older versions still load
+function normalizeSettings(value: Partial<AlertSettings>): AlertSettings {
+  const defaults = DEFAULT_ALERT_SETTINGS;
+  return {
+    radiusMultiplier: typeof value.radiusMultiplier === 'number' && value.radiusMultiplier > 0
+      ? value.radiusMultiplier
+      : defaults.radiusMultiplier,
+    vibration: value.vibration && value.vibration in VIBRATION_PATTERNS ? value.vibration : defaults.vibration,
+    sound: typeof value.sound === 'boolean' ? value.sound : defaults.sound,
+    speech: typeof value.speech === 'boolean' ? value.speech : defaults.speech,
+    quietHours: { ...defaults.quietHours, ...value.quietHours },
+    minSeverity: isHazardSeverity(value.minSeverity) ? value.minSeverity : defaults.minSeverity,
+    selfReportSuppressMinutes: typeof value.selfReportSuppressMinutes === 'number'
+      ? value.selfReportSuppressMinutes
+      : defaults.selfReportSuppressMinutes,
+    alertStatuses: Array.isArray(value.alertStatuses)
+      ? value.alertStatuses.filter(status => status in ALERT_STATUSES)
+      : defaults.alertStatuses,
+  };
+}
+
+export function getAlertSettings(): AlertSettings {
+  if (typeof window === 'undefined') return DEFAULT_ALERT_SETTINGS;
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY_SETTINGS);
+    return stored ? normalizeSettings(JSON.parse(stored)) : DEFAULT_ALERT_SETTINGS;
+  } catch (error) {
+    console.warn('Failed to load alert settings:', error);
+    return DEFAULT_ALERT_SETTINGS;
+  }
+}
+
+export function saveAlertSettings(settings: AlertSettings): void {
+  localStorage.setItem(STORAGE_KEY_SETTINGS, JSON.stringify(settings));
+  window.dispatchEvent(new Event(ALERT_SETTINGS_CHANGED_EVENT));
+}
+
+export function getAlertStatus(report: Report): AlertStatus {
+  if (report.flagged) return 'flagged';
+  if (report.clearedConfirmations.length > 0) return 'beingCleared';
+  if (report.stillThereCount > 0) return 'confirmed';
+  return 'reported';
+}
+
+// Whether a hazard should alert at all with these settings
+export function shouldAlertFor(report: Report, settings: Pick<AlertSettings, 'minSeverity' | 'alertStatuses'>): boolean {
+  const severity = report.severity ?? DEFAULT_HAZARD_SEVERITY;
+  return HAZARD_SEVERITY_ORDER.indexOf(severity) >= HAZARD_SEVERITY_ORDER.indexOf(settings.minSeverity) &&
+    settings.alertStatuses.includes(getAlertStatus(report));
+}
+
+function minutesOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+// Quiet hours silence sound, speech, vibration and system notifications; the
+// in-app banner still shows
+export function isQuietHours(quietHours: QuietHours, now: Date = new Date()): boolean {
+  if (!quietHours.enabled) return false;
+  const start = minutesOfDay(quietHours.start);
+  const end = minutesOfDay(quietHours.end);
+  const current = now.getHours() * 60 + now.getMinutes();
+  if (start === end) return false;
+  return start < end
+    ? current >= start && current < end
+    : current >= start || current < end; // Spans midnight
+}
+
+// Current settings, kept up to date when they are changed anywhere in the app
+export function useAlertSettings() {
+  const [settings, setSettings] = useState<AlertSettings>(() => getAlertSettings());
+
+  useEffect(() => {
+    const handleChange = () => setSettings(getAlertSettings());
+    window.addEventListener(ALERT_SETTINGS_CHANGED_EVENT, handleChange);
+    return () => window.removeEventListener(ALERT_SETTINGS_CHANGED_EVENT, handleChange);
+  }, []);
+
+  const updateSettings = useCallback((changes: Partial<AlertSettings>) => {
+    saveAlertSettings({ ...getAlertSettings(), ...changes });
+  }, []);
+
+  return { settings, updateSettings };
+}
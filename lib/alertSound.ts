@@ -0,0 +1,91 @@
+// Audible alerts: a chime played with the Web Audio API (no audio files
+// needed) and spoken phrases using the Web Speech API
+
+let audioContext: AudioContext | null = null;
+
+// Audio Session API (Safari 17+). "ambient" audio follows the ringer/silent
+// switch and mixes with music or podcasts instead of pausing them.
+type NavigatorWithAudioSession = Navigator & { audioSession?: { type: string } };
+
+function setAmbientAudioSession(): void {
+  const session = (navigator as NavigatorWithAudioSession).audioSession;
+  if (session && session.type !== 'ambient') {
+    try {
+      session.type = 'ambient';
+    } catch (error) {
+      console.warn('Failed to set audio session type:', error);
+    }
+  }
+}
+
+function getAudioContext(): AudioContext | null {
+  if (typeof window === 'undefined' || !('AudioContext' in window)) return null;
+  if (!audioContext) {
+    setAmbientAudioSession();
+    audioContext = new AudioContext();
+  }
+  return audioContext;
+}
+
+// Three-note bell chime. Browsers only allow audio after the user has
+// interacted with the page, so this can silently do nothing.
+export function playAlertTone(): void {
+  const context = getAudioContext();
+  if (!context) return;
+
+  try {
+    if (context.state === 'suspended') {
+      void context.resume();
+    }
+
+    [784, 988, 1319].forEach((frequency, i) => {
+      const start = context.currentTime + i * 0.16;
+      // Fundamental plus a quiet overtone gives a bell-like tone
+      [1, 2.76].forEach((ratio, partial) => {
+        const oscillator = context.createOscillator();
+        const gain = context.createGain();
+        const peak = partial === 0 ? 0.25 : 0.06;
+        oscillator.type = 'sine';
+        oscillator.frequency.value = frequency * ratio;
+        gain.gain.setValueAtTime(0.0001, start);
+        gain.gain.exponentialRampToValueAtTime(peak, start + 0.01);
+        gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.6);
+        oscillator.connect(gain).connect(context.destination);
+        oscillator.start(start);
+        oscillator.stop(start + 0.62);
+      });
+    });
+  } catch (error) {
+    console.warn('Failed to play alert tone:', error);
+  }
+}
+
+export function isSpeechSupported(): boolean {
+  return typeof window !== 'undefined' && 'speechSynthesis' in window;
+}
+
+// Best installed voice for a locale: exact match, then same language
+function findVoice(locale: string): SpeechSynthesisVoice | undefined {
+  const voices = window.speechSynthesis.getVoices();
+  const language = locale.toLowerCase().split('-')[0];
+  return voices.find(voice => voice.lang.toLowerCase() === locale.toLowerCase()) ||
+    voices.find(voice => voice.lang.toLowerCase().split(/[-_]/)[0] === language);
+}
+
+// Read a phrase aloud, replacing anything still being spoken
+export function speakAlert(text: string, locale: string): void {
+  if (!isSpeechSupported()) return;
+
+  try {
+    setAmbientAudioSession();
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = locale;
+    const voice = findVoice(locale);
+    if (voice) utterance.voice = voice;
+
+    window.speechSynthesis.cancel();
+    window.speechSynthesis.speak(utterance);
+  } catch (error) {
+    console.warn('Failed to speak alert:', error);
+  }
+}
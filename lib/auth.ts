@@ -0,0 +1,136 @@
+import {
+  signInWithEmailAndPassword,
+  signInWithCustomToken,
+  signOut,
+  onIdTokenChanged,
+  User,
+} from 'firebase/auth';
+import { auth } from './firebase-config';
+
+// Council roles, stored as a `role` custom claim on the Firebase Auth user.
+// Claims are set server-side (Admin SDK or the Auth emulator UI).
+export type AdminRole = 'viewer' | 'moderator' | 'council-admin';
+
+// Actions on the council dashboard that require a role
+export type AdminAction =
+  | 'viewReports'
+  | 'flag'
+  | 'markResolved'
+  | 'toggleNoGlassFound'
+  | 'archive'
+  | 'merge'
+  | 'migratePhotos';
+
+const ROLE_RANK: Record<AdminRole, number> = {
+  viewer: 0,
+  moderator: 1,
+  'council-admin': 2,
+};
+
+// Minimum role required for each action
+const ACTION_MIN_ROLE: Record<AdminAction, AdminRole> = {
+  viewReports: 'viewer',
+  flag: 'moderator',
+  markResolved: 'moderator',
+  toggleNoGlassFound: 'moderator',
+  archive: 'council-admin',
+  merge: 'council-admin', // Deletes the merged reports
+  migratePhotos: 'council-admin',
+};
+
+export const ROLE_LABELS: Record<AdminRole, string> = {
+  viewer: 'Viewer',
+  moderator: 'Moderator',
+  'council-admin': 'Council Admin',
+};
+
+export interface AdminSession {
+  uid: string;
+  email: string | null;
+  role: AdminRole | null; // null when signed in without a council role
+}
+
+// Error thrown when the signed-in user lacks the role for an action.
+// Uses the same code as Realtime Database rule rejections so callers
+// can handle both the same way.
+export class PermissionDeniedError extends Error {
+  code = 'PERMISSION_DENIED';
+
+  constructor(action: AdminAction) {
+    super(`Your role does not allow this action (${action})`);
+    this.name = 'PermissionDeniedError';
+  }
+}
+
+function isAdminRole(value: unknown): value is AdminRole {
+  return typeof value === 'string' && value in ROLE_RANK;
+}
+
+// Check whether a role may perform an action
+export function canPerform(role: AdminRole | null | undefined, action: AdminAction): boolean {
+  if (!role) return false;
+  return ROLE_RANK[role] >= ROLE_RANK[ACTION_MIN_ROLE[action]];
+}
+
+// Read the role claim from a user's ID token
+async function getRoleForUser(user: User, forceRefresh = false): Promise<AdminRole | null> {
+  const tokenResult = await user.getIdTokenResult(forceRefresh);
+  const role = tokenResult.claims.role;
+  return isAdminRole(role) ? role : null;
+}
+
+async function toSession(user: User, forceRefresh = false): Promise<AdminSession> {
+  return {
+    uid: user.uid,
+    email: user.email,
+    role: await getRoleForUser(user, forceRefresh),
+  };
+}
+
+// Get the role of the currently signed-in user (null if signed out or no role)
+export async function getCurrentRole(): Promise<AdminRole | null> {
+  const user = auth.currentUser;
+  if (!user) return null;
+  return getRoleForUser(user);
+}
+
+// Throw if the current user may not perform the action
+export async function requirePermission(action: AdminAction): Promise<void> {
+  const role = await getCurrentRole();
+  if (!canPerform(role, action)) {
+    throw new PermissionDeniedError(action);
+  }
+}
+
+// Sign in with council email/password
+export async function signInAdmin(email: string, password: string): Promise<AdminSession> {
+  const credential = await signInWithEmailAndPassword(auth, email, password);
+  // Force refresh so newly granted role claims are picked up
+  return toSession(credential.user, true);
+}
+
+// Sign in with a custom token minted by a council backend
+export async function signInAdminWithToken(token: string): Promise<AdminSession> {
+  const credential = await signInWithCustomToken(auth, token);
+  return toSession(credential.user, true);
+}
+
+export async function signOutAdmin(): Promise<void> {
+  await signOut(auth);
+}
+
+// Subscribe to sign-in state and role changes
+export function onAdminSessionChanged(callback: (session: AdminSession | null) => void): () => void {
+  return onIdTokenChanged(auth, async (user) => {
+    if (!user) {
+      callback(null);
+      return;
+    }
+    try {
+      callback(await toSession(user));
+    } catch (error) {
+      console.error('Failed to read admin role:', error);
+      callback({ uid: user.uid, email: user.email, role: null });
+    }
+  });
+}
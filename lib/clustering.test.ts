@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { Report } from './db';
+import { ClusterInput, buildClusterIndex, getClusters } from './clustering';
+import { createBenchmarkReports, runClusteringBenchmark } from './__fixtures__/benchmarkFixture';
+
+// Budgets for 10,000 reports, with headroom for slow CI machines. A query
+// runs on every pan and zoom, so it has to fit well inside a 16 ms frame;
+// the index is only rebuilt when reports change.
+const BUILD_BUDGET_MS = 1000;
+const QUERY_BUDGET_MS = 4;
+const MAX_RENDERED = 300;
+
+const WHOLE_WORLD = { north: 85, south: -85, east: 180, west: -180 };
+
+function toInputs(reports: Report[]): ClusterInput[] {
+  return reports.map(report => ({ id: report.id, lat: report.lat, lng: report.lng, cleared: report.resolved }));
+}
+
+describe('clustering', () => {
+  it('counts every report once at each zoom level', () => {
+    const reports = createBenchmarkReports(2000);
+    const index = buildClusterIndex(toInputs(reports));
+    const cleared = reports.filter(report => report.resolved).length;
+
+    for (const zoom of [0, 8, 12, 16, 18]) {
+      const results = getClusters(index, WHOLE_WORLD, zoom);
+      const total = results.reduce((sum, result) => sum + (result.type === 'cluster' ? result.count : 1), 0);
+      const clearedTotal = results.reduce(
+        (sum, result) => sum + (result.type === 'cluster' ? result.clearedCount : Number(result.input.cleared)),
+        0
+      );
+      expect(total, `zoom ${zoom}`).toBe(reports.length);
+      expect(clearedTotal, `zoom ${zoom}`).toBe(cleared);
+    }
+  });
+
+  it('shows every report on its own above the maximum cluster zoom', () => {
+    const reports = createBenchmarkReports(500);
+    const index = buildClusterIndex(toInputs(reports));
+    expect(getClusters(index, WHOLE_WORLD, 17).every(result => result.type === 'report')).toBe(true);
+  });
+
+  it('stays within the frame budget for 10,000 reports', () => {
+    const benchmark = runClusteringBenchmark(createBenchmarkReports(10000));
+
+    expect(benchmark.buildMs).toBeLessThan(BUILD_BUDGET_MS);
+    expect(benchmark.queryMs).toBeLessThan(QUERY_BUDGET_MS);
+    expect(benchmark.maxRendered).toBeLessThanOrEqual(MAX_RENDERED);
+  });
+});
@@ -0,0 +1,225 @@
+// Marker clustering for large report sets, in the style of supercluster:
+// points are clustered once per zoom level when reports change, so
+// panning and zooming only query a prebuilt, x-sorted level. Pure, so it
+// can be benchmarked outside the browser (see lib/__fixtures__/benchmarkFixture.ts).
+
+import { LatLngBounds } from './geo';
+
+export interface ClusterInput {
+  id: string;
+  lat: number;
+  lng: number;
+  cleared: boolean;
+}
+
+export interface ClusterOptions {
+  radius: number; // Cluster radius in pixels
+  tileSize: number; // Pixels per world tile at zoom 0
+  minZoom: number;
+  maxZoom: number; // Above this zoom every report is shown on its own
+}
+
+export const DEFAULT_CLUSTER_OPTIONS: ClusterOptions = {
+  radius: 60,
+  tileSize: 256,
+  minZoom: 0,
+  maxZoom: 16,
+};
+
+interface ClusterNode {
+  x: number; // Web Mercator, 0..1
+  y: number;
+  count: number;
+  activeCount: number;
+  clearedCount: number;
+  inputIndex: number; // Index into the inputs for single reports, -1 for clusters
+  children: number[]; // Indexes into the next zoom level
+}
+
+export interface ClusterIndex {
+  inputs: ClusterInput[];
+  options: ClusterOptions;
+  levels: ClusterNode[][]; // levels[z], sorted by x; levels[maxZoom + 1] holds the reports
+}
+
+export type ClusterResult =
+  | { type: 'report'; input: ClusterInput }
+  | {
+      type: 'cluster';
+      id: string; // Unique within one query
+      lat: number;
+      lng: number;
+      count: number;
+      activeCount: number;
+      clearedCount: number;
+      expansionZoom: number; // Zoom at which the cluster splits up
+    };
+
+function lngToX(lng: number): number {
+  return lng / 360 + 0.5;
+}
+
+function latToY(lat: number): number {
+  const sin = Math.sin((lat * Math.PI) / 180);
+  const y = 0.5 - (0.25 * Math.log((1 + sin) / (1 - sin))) / Math.PI;
+  return Math.min(Math.max(y, 0), 1);
+}
+
+function xToLng(x: number): number {
+  return (x - 0.5) * 360;
+}
+
+function yToLat(y: number): number {
+  const y2 = ((180 - y * 360) * Math.PI) / 180;
+  return (360 * Math.atan(Math.exp(y2))) / Math.PI - 90;
+}
+
+// Levels are sorted by x so queries can binary search them. A level is
+// sorted before the one above it is built, so children indexes stay valid.
+function sortByX(nodes: ClusterNode[]): ClusterNode[] {
+  return [...nodes].sort((a, b) => a.x - b.x);
+}
+
+// Greedily merge nodes within radius (in world units) of each other,
+// using a grid with radius-sized cells for the neighbour search
+function clusterLevel(nodes: ClusterNode[], radius: number): ClusterNode[] {
+  const grid: Record<string, number[]> = {};
+  const cellOf = (node: ClusterNode) => [Math.floor(node.x / radius), Math.floor(node.y / radius)];
+
+  nodes.forEach((node, index) => {
+    const [cx, cy] = cellOf(node);
+    (grid[`${cx}:${cy}`] ??= []).push(index);
+  });
+
+  const visited = new Uint8Array(nodes.length);
+  const clusters: ClusterNode[] = [];
+  const radiusSquared = radius * radius;
+
+  nodes.forEach((node, index) => {
+    if (visited[index]) return;
+    visited[index] = 1;
+
+    const [cx, cy] = cellOf(node);
+    const members = [index];
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (const other of grid[`${cx + dx}:${cy + dy}`] ?? []) {
+          if (visited[other]) continue;
+          const ox = nodes[other].x - node.x;
+          const oy = nodes[other].y - node.y;
+          if (ox * ox + oy * oy <= radiusSquared) {
+            visited[other] = 1;
+            members.push(other);
+          }
+        }
+      }
+    }
+
+    // Carried up unchanged (a lone report keeps its inputIndex)
+    if (members.length === 1) {
+      clusters.push({ ...node, children: [index] });
+      return;
+    }
+
+    // Count-weighted centre
+    let x = 0, y = 0, count = 0, activeCount = 0, clearedCount = 0;
+    for (const member of members) {
+      const m = nodes[member];
+      x += m.x * m.count;
+      y += m.y * m.count;
+      count += m.count;
+      activeCount += m.activeCount;
+      clearedCount += m.clearedCount;
+    }
+    clusters.push({ x: x / count, y: y / count, count, activeCount, clearedCount, inputIndex: -1, children: members });
+  });
+
+  return clusters;
+}
+
+// Build the index; call again whenever the reports change
+export function buildClusterIndex(inputs: ClusterInput[], options: ClusterOptions = DEFAULT_CLUSTER_OPTIONS): ClusterIndex {
+  const levels: ClusterNode[][] = [];
+
+  let nodes: ClusterNode[] = inputs.map((input, index) => ({
+    x: lngToX(input.lng),
+    y: latToY(input.lat),
+    count: 1,
+    activeCount: input.cleared ? 0 : 1,
+    clearedCount: input.cleared ? 1 : 0,
+    inputIndex: index,
+    children: [],
+  }));
+  nodes = sortByX(nodes);
+  levels[options.maxZoom + 1] = nodes;
+
+  for (let z = options.maxZoom; z >= options.minZoom; z--) {
+    const radius = options.radius / (options.tileSize * Math.pow(2, z));
+    nodes = sortByX(clusterLevel(nodes, radius));
+    levels[z] = nodes;
+  }
+
+  return { inputs, options, levels };
+}
+
+// First index with x >= value
+function lowerBound(nodes: ClusterNode[], value: number): number {
+  let low = 0;
+  let high = nodes.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (nodes[mid].x < value) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+// Follow a cluster down until it has more than one child
+function expansionZoom(index: ClusterIndex, node: ClusterNode, zoom: number): number {
+  let current = node;
+  let z = zoom;
+  while (current.children.length === 1) {
+    current = index.levels[z + 1][current.children[0]];
+    z++;
+  }
+  return Math.min(z + 1, index.options.maxZoom + 1);
+}
+
+// Clusters and single reports inside the bounds at a map zoom
+export function getClusters(index: ClusterIndex, bounds: LatLngBounds, zoom: number): ClusterResult[] {
+  const { minZoom, maxZoom } = index.options;
+  const z = Math.min(Math.max(Math.floor(zoom), minZoom), maxZoom + 1);
+  const nodes = index.levels[z];
+  if (!nodes || nodes.length === 0) return [];
+
+  const minY = latToY(bounds.north);
+  const maxY = latToY(bounds.south);
+  const west = lngToX(bounds.west);
+  const east = lngToX(bounds.east);
+  // Bounds crossing the antimeridian are split in two
+  const ranges = west <= east ? [[west, east]] : [[west, 1], [0, east]];
+
+  const results: ClusterResult[] = [];
+  for (const [minX, maxX] of ranges) {
+    for (let i = lowerBound(nodes, minX); i < nodes.length && nodes[i].x <= maxX; i++) {
+      const node = nodes[i];
+      if (node.y < minY || node.y > maxY) continue;
+
+      if (node.count === 1) {
+        results.push({ type: 'report', input: index.inputs[node.inputIndex] });
+      } else {
+        results.push({
+          type: 'cluster',
+          id: `${z}:${i}`,
+          lat: yToLat(node.y),
+          lng: xToLng(node.x),
+          count: node.count,
+          activeCount: node.activeCount,
+          clearedCount: node.clearedCount,
+          expansionZoom: expansionZoom(index, node, z),
+        });
+      }
+    }
+  }
+  return results;
+}
@@ -0,0 +1,340 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Reputation } from './reputation';
+import {
+  ConfirmationRules,
+  DATABASE_MIN_CLEARED_DEVICES,
+  DATABASE_MIN_RESET_DEVICES,
+  DEFAULT_CONFIRMATION_RULES,
+  RuleContext,
+  applyConfirmation,
+  explainResolution,
+  getClearedProgress,
+  getConfirmationRules,
+  meetsResetRule,
+} from './confirmationRules';
+import { NOW, report, vote } from './__fixtures__/reports';
+
+// Settled records that put a device at the top and bottom of the weight range
+const TRUSTED = { agreed: 5, disagreed: 0 }; // Weight 2
+const DISTRUSTED = { agreed: 0, disagreed: 2 }; // Weight 0.1
+
+function withRules(changes: {
+  cleared?: Partial<ConfirmationRules['cleared']>;
+  stillThere?: Partial<ConfirmationRules['stillThere']>;
+}): ConfirmationRules {
+  return {
+    cleared: { ...DEFAULT_CONFIRMATION_RULES.cleared, ...changes.cleared },
+    stillThere: { ...DEFAULT_CONFIRMATION_RULES.stillThere, ...changes.stillThere },
+  };
+}
+
+function context(reputation: Reputation = {}, rules: ConfirmationRules = DEFAULT_CONFIRMATION_RULES): RuleContext {
+  return { rules, reputation, now: NOW };
+}
+
+describe('getConfirmationRules', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('uses the defaults without overrides', () => {
+    vi.stubEnv('NEXT_PUBLIC_CONFIRMATION_RULES', '');
+    expect(getConfirmationRules()).toEqual(DEFAULT_CONFIRMATION_RULES);
+  });
+
+  it('merges overrides over the defaults', () => {
+    vi.stubEnv('NEXT_PUBLIC_CONFIRMATION_RULES', JSON.stringify({
+      cleared: { requirePhoto: true, minDevices: 5 },
+      stillThere: { cooldownHours: 6 },
+    }));
+    expect(getConfirmationRules()).toEqual(withRules({
+      cleared: { requirePhoto: true, minDevices: 5 },
+      stillThere: { cooldownHours: 6 },
+    }));
+  });
+
+  it('raises device counts to what the database rules accept', () => {
+    vi.stubEnv('NEXT_PUBLIC_CONFIRMATION_RULES', JSON.stringify({
+      cleared: { minDevices: 1, minWeight: 1 },
+      stillThere: { resetMinDevices: 0, resetMinWeight: 0.5 },
+    }));
+    const rules = getConfirmationRules();
+    expect(rules.cleared.minDevices).toBe(DATABASE_MIN_CLEARED_DEVICES);
+    expect(rules.stillThere.resetMinDevices).toBe(DATABASE_MIN_RESET_DEVICES);
+    // Weights aren't checked by the database, so they are left alone
+    expect(rules.cleared.minWeight).toBe(1);
+    expect(rules.stillThere.resetMinWeight).toBe(0.5);
+  });
+
+  it('falls back to the defaults on invalid JSON', () => {
+    vi.stubEnv('NEXT_PUBLIC_CONFIRMATION_RULES', '{cleared:');
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(getConfirmationRules()).toEqual(DEFAULT_CONFIRMATION_RULES);
+    expect(error).toHaveBeenCalled();
+  });
+});
+
+describe('getClearedProgress', () => {
+  it('counts distinct devices and their weight', () => {
+    const progress = getClearedProgress([vote('a'), vote('b'), vote('a', 2)], context());
+    expect(progress).toEqual({ devices: 2, weight: 1.5, requiredDevices: 3, requiredWeight: 3, met: false });
+  });
+
+  it('needs more new devices than the rule asks for', () => {
+    // New devices weigh less than 1, so three fresh browsers can't clear
+    // a hazard on their own
+    const progress = getClearedProgress([vote('a'), vote('b'), vote('c')], context());
+    expect(progress.devices).toBe(3);
+    expect(progress.weight).toBe(2.25);
+    expect(progress.met).toBe(false);
+    expect(getClearedProgress([vote('a'), vote('b'), vote('c'), vote('d')], context()).met).toBe(true);
+  });
+
+  it('is met by as many devices as the rule asks for with one trusted', () => {
+    expect(getClearedProgress([vote('a'), vote('b'), vote('c')], context({ a: TRUSTED })).met).toBe(true);
+  });
+
+  it('needs the weight as well as the devices', () => {
+    const reputation = { a: DISTRUSTED, b: DISTRUSTED };
+    const progress = getClearedProgress([vote('a'), vote('b'), vote('c')], context(reputation));
+    expect(progress.devices).toBe(3);
+    expect(progress.weight).toBeCloseTo(0.95, 5);
+    expect(progress.met).toBe(false);
+  });
+
+  it('needs the devices as well as the weight', () => {
+    const progress = getClearedProgress([vote('a'), vote('b')], context({ a: TRUSTED, b: TRUSTED }));
+    expect(progress.weight).toBe(4);
+    expect(progress.met).toBe(false);
+  });
+
+  it('only counts votes with a photo when photos are required', () => {
+    const rules = withRules({ cleared: { requirePhoto: true } });
+    const votes = [vote('a', 1, { photoId: 'p1' }), vote('b'), vote('c', 1, { photoId: 'p2' })];
+    expect(getClearedProgress(votes, context({}, rules)).devices).toBe(2);
+  });
+
+  it('only counts staff votes when clearing is staff only', () => {
+    const rules = withRules({ cleared: { staffOnly: true } });
+    const votes = [vote('a', 1, { staff: true }), vote('b'), vote('c')];
+    expect(getClearedProgress(votes, context({}, rules)).devices).toBe(1);
+  });
+
+  it('handles a report without votes', () => {
+    expect(getClearedProgress(undefined, context())).toMatchObject({ devices: 0, weight: 0, met: false });
+  });
+});
+
+describe('meetsResetRule', () => {
+  it('is met by three new devices, or two with one trusted', () => {
+    expect(meetsResetRule([vote('a'), vote('b')], context())).toBe(false);
+    expect(meetsResetRule([vote('a'), vote('b'), vote('c')], context())).toBe(true);
+    expect(meetsResetRule([vote('a'), vote('b')], context({ a: TRUSTED }))).toBe(true);
+  });
+
+  it('needs distinct devices', () => {
+    expect(meetsResetRule([vote('a', 30), vote('a')], context())).toBe(false);
+    expect(meetsResetRule([vote('a')], context())).toBe(false);
+  });
+
+  it('needs enough weight', () => {
+    expect(meetsResetRule([vote('a'), vote('b'), vote('c')], context({ a: DISTRUSTED }))).toBe(false);
+    expect(meetsResetRule([vote('a'), vote('b'), vote('c'), vote('d')], context({ a: DISTRUSTED }))).toBe(true);
+  });
+
+  it('only counts votes with a photo when photos are required', () => {
+    const rules = withRules({ stillThere: { requirePhoto: true } });
+    const reputation = { a: TRUSTED, b: TRUSTED };
+    expect(meetsResetRule([vote('a', 1, { photoId: 'p1' }), vote('b')], context(reputation, rules))).toBe(false);
+    expect(meetsResetRule([vote('a', 1, { photoId: 'p1' }), vote('b', 1, { photoId: 'p2' })], context(reputation, rules))).toBe(true);
+  });
+});
+
+describe('applyConfirmation', () => {
+  describe('"It\'s Cleared" votes', () => {
+    it('appends the vote and updates the count', () => {
+      const before = report({ clearedConfirmations: [vote('a')] });
+      const result = applyConfirmation(before, 'cleared', vote('b', 0), context());
+      expect(result).toEqual({
+        accepted: true,
+        changes: {
+          stillThereCount: 0,
+          stillThereConfirmations: [],
+          clearedCount: 2,
+          clearedConfirmations: [vote('a'), vote('b', 0)],
+          overturnedConfirmations: undefined,
+          resolved: false,
+        },
+        resolved: false,
+        reset: false,
+      });
+    });
+
+    it('resolves the hazard once the rule is met', () => {
+      const before = report({ clearedConfirmations: [vote('a'), vote('b')] });
+      const result = applyConfirmation(before, 'cleared', vote('c', 0), context({ a: TRUSTED }));
+      expect(result).toMatchObject({ accepted: true, resolved: true, changes: { resolved: true } });
+    });
+
+    it('does not resolve on untrusted votes', () => {
+      const before = report({ clearedConfirmations: [vote('a'), vote('b')] });
+      const result = applyConfirmation(before, 'cleared', vote('c', 0), context({ a: DISTRUSTED }));
+      expect(result).toMatchObject({ accepted: true, resolved: false });
+    });
+
+    it('keeps a resolved hazard resolved', () => {
+      const result = applyConfirmation(report({ resolved: true }), 'cleared', vote('a', 0), context());
+      expect(result).toMatchObject({ accepted: true, resolved: true });
+    });
+
+    it('rejects a second vote from the same device', () => {
+      const before = report({ clearedConfirmations: [vote('a', 100)] });
+      expect(applyConfirmation(before, 'cleared', vote('a', 0), context())).toEqual({
+        accepted: false,
+        reason: 'alreadyConfirmed',
+      });
+    });
+
+    it('rejects a vote without a photo when one is required', () => {
+      const rules = withRules({ cleared: { requirePhoto: true } });
+      expect(applyConfirmation(report(), 'cleared', vote('a', 0), context({}, rules))).toEqual({
+        accepted: false,
+        reason: 'photoRequired',
+      });
+      expect(applyConfirmation(report(), 'cleared', vote('a', 0, { photoId: 'p1' }), context({}, rules)))
+        .toMatchObject({ accepted: true });
+    });
+  });
+
+  describe('"Still There" votes', () => {
+    it('appends the vote and updates the count', () => {
+      const result = applyConfirmation(report(), 'stillThere', vote('a', 0), context());
+      expect(result).toMatchObject({
+        accepted: true,
+        reset: false,
+        changes: { stillThereCount: 1, stillThereConfirmations: [vote('a', 0)] },
+      });
+    });
+
+    it('rejects a vote within the cooldown', () => {
+      const before = report({ stillThereConfirmations: [vote('a', 23)] });
+      expect(applyConfirmation(before, 'stillThere', vote('a', 0), context())).toEqual({
+        accepted: false,
+        reason: 'coolingDown',
+      });
+    });
+
+    it('accepts another vote after the cooldown', () => {
+      const before = report({ stillThereConfirmations: [vote('a', 25)] });
+      expect(applyConfirmation(before, 'stillThere', vote('a', 0), context())).toMatchObject({ accepted: true });
+    });
+
+    it('rejects a vote without a photo when one is required', () => {
+      const rules = withRules({ stillThere: { requirePhoto: true } });
+      expect(applyConfirmation(report(), 'stillThere', vote('a', 0), context({}, rules))).toEqual({
+        accepted: false,
+        reason: 'photoRequired',
+      });
+    });
+
+    it('resets clearing progress once the reset rule is met', () => {
+      const cleared = [vote('c', 5), vote('d', 4)];
+      const before = report({
+        clearedConfirmations: cleared,
+        stillThereConfirmations: [vote('a', 3)],
+        overturnedConfirmations: [vote('e', 10)],
+      });
+      const result = applyConfirmation(before, 'stillThere', vote('b', 0), context({ a: TRUSTED }));
+      expect(result).toEqual({
+        accepted: true,
+        changes: {
+          stillThereCount: 2,
+          stillThereConfirmations: [vote('a', 3), vote('b', 0)],
+          clearedCount: 0,
+          clearedConfirmations: [],
+          overturnedConfirmations: [vote('e', 10), ...cleared],
+          resolved: false,
+        },
+        resolved: false,
+        reset: true,
+      });
+    });
+
+    it('does not reset on a single device', () => {
+      const before = report({ clearedConfirmations: [vote('c', 5)], stillThereConfirmations: [vote('a', 30)] });
+      const result = applyConfirmation(before, 'stillThere', vote('a', 0), context());
+      expect(result).toMatchObject({ accepted: true, reset: false, changes: { clearedCount: 1 } });
+    });
+
+    it('does not reset on untrusted devices', () => {
+      const before = report({ clearedConfirmations: [vote('c', 5)], stillThereConfirmations: [vote('a', 3)] });
+      const result = applyConfirmation(before, 'stillThere', vote('b', 0), context({ a: DISTRUSTED, b: DISTRUSTED }));
+      expect(result).toMatchObject({ accepted: true, reset: false });
+    });
+
+    it('reopens a resolved hazard', () => {
+      const result = applyConfirmation(report({ resolved: true }), 'stillThere', vote('a', 0), context());
+      expect(result).toMatchObject({ accepted: true, resolved: false, changes: { resolved: false } });
+    });
+
+    it('leaves a resolved hazard alone when votes don\'t reopen it', () => {
+      const rules = withRules({ stillThere: { reopensResolved: false } });
+      const result = applyConfirmation(report({ resolved: true }), 'stillThere', vote('a', 0), context({}, rules));
+      expect(result).toMatchObject({ accepted: true, resolved: true });
+    });
+
+    it('reopens a resolved hazard on a reset even when votes don\'t reopen it', () => {
+      const rules = withRules({ stillThere: { reopensResolved: false } });
+      const before = report({
+        resolved: true,
+        clearedConfirmations: [vote('c', 6), vote('d', 5), vote('e', 4)],
+        stillThereConfirmations: [vote('a', 3)],
+      });
+      const result = applyConfirmation(before, 'stillThere', vote('b', 0), context({ a: TRUSTED }, rules));
+      expect(result).toMatchObject({ accepted: true, resolved: false, reset: true });
+    });
+  });
+});
+
+describe('explainResolution', () => {
+  it('lists every vote oldest first with its weight and record', () => {
+    const explanation = explainResolution(report({
+      stillThereConfirmations: [vote('a', 2)],
+      clearedConfirmations: [vote('b', 1)],
+      overturnedConfirmations: [vote('c', 3)],
+    }), context({ b: TRUSTED }));
+
+    expect(explanation.votes).toEqual([
+      { kind: 'overturned', deviceId: 'c', timestamp: vote('c', 3).timestamp, weight: 0.75, record: { agreed: 0, disagreed: 0 }, staff: false, counts: true },
+      { kind: 'stillThere', deviceId: 'a', timestamp: vote('a', 2).timestamp, weight: 0.75, record: { agreed: 0, disagreed: 0 }, staff: false, counts: true },
+      { kind: 'cleared', deviceId: 'b', timestamp: vote('b', 1).timestamp, weight: 2, record: TRUSTED, staff: false, counts: true },
+    ]);
+  });
+
+  it('marks "It\'s Cleared" votes the rules leave out', () => {
+    const rules = withRules({ cleared: { staffOnly: true } });
+    const explanation = explainResolution(report({
+      clearedConfirmations: [vote('a', 2, { staff: true }), vote('b', 1)],
+    }), context({}, rules));
+
+    expect(explanation.votes.map(v => [v.deviceId, v.staff, v.counts])).toEqual([['a', true, true], ['b', false, false]]);
+    expect(explanation.progress.devices).toBe(1);
+    expect(explanation.rules).toBe(rules);
+  });
+
+  it('tells a council resolution from one by votes', () => {
+    expect(explainResolution(report({ resolved: true }), context()).resolvedByCouncil).toBe(true);
+
+    const byVotes = explainResolution(report({
+      resolved: true,
+      clearedConfirmations: [vote('a'), vote('b'), vote('c'), vote('d')],
+    }), context());
+    expect(byVotes.resolvedByCouncil).toBe(false);
+    expect(byVotes.progress.met).toBe(true);
+  });
+
+  it('does not call an unresolved hazard council resolved', () => {
+    expect(explainResolution(report(), context()).resolvedByCouncil).toBe(false);
+  });
+});
@@ -0,0 +1,281 @@
+// Confirmation rules. How many "It's Cleared" votes resolve a hazard, how
+// many "Still There" votes reset clearing progress, the cooldown between a
+// device's "Still There" votes and whether votes need a photo or a council
+// account are all set in one declarative rules object, so each council can
+// choose its own policy. applyConfirmation is the single place they are
+// evaluated; the Dexie helpers, the map's buttons, sync and the council
+// view all go through it or the checks it is built from.
+
+import { Report, Confirmation } from './db';
+import { Reputation, buildReputation, getDeviceWeight, getConfirmationWeight, DeviceRecord } from './reputation';
+
+export type ConfirmationKind = 'stillThere' | 'cleared';
+
+export interface ConfirmationRules {
+  cleared: {
+    minDevices: number; // Distinct devices whose votes resolve the hazard
+    minWeight: number; // Combined trust weight of those votes
+    requirePhoto: boolean; // Votes need an evidence photo
+    staffOnly: boolean; // Only votes from signed-in council staff count
+  };
+  stillThere: {
+    cooldownHours: number; // Between one device's votes on a hazard
+    requirePhoto: boolean;
+    resetMinDevices: number; // Distinct devices whose votes reset clearing progress
+    resetMinWeight: number;
+    reopensResolved: boolean; // A single vote brings a resolved hazard back
+  };
+}
+
+// Lowest device counts the database rules accept from non-moderators
+export const DATABASE_MIN_CLEARED_DEVICES = 3;
+export const DATABASE_MIN_RESET_DEVICES = 2;
+
+export const DEFAULT_CONFIRMATION_RULES: ConfirmationRules = {
+  cleared: {
+    minDevices: 3,
+    minWeight: 3,
+    requirePhoto: false,
+    staffOnly: false,
+  },
+  stillThere: {
+    cooldownHours: 24,
+    requirePhoto: false,
+    resetMinDevices: 2,
+    resetMinWeight: 2,
+    reopensResolved: true,
+  },
+};
+
+// NEXT_PUBLIC_CONFIRMATION_RULES holds JSON overrides, e.g.
+// {"cleared":{"requirePhoto":true}}. Device counts below what the
+// database rules accept are raised to that minimum.
+export function getConfirmationRules(): ConfirmationRules {
+  const defaults = DEFAULT_CONFIRMATION_RULES;
+  let overrides: { cleared?: Partial<ConfirmationRules['cleared']>; stillThere?: Partial<ConfirmationRules['stillThere']> } = {};
+  try {
+    overrides = JSON.parse(process.env.NEXT_PUBLIC_CONFIRMATION_RULES || '{}');
+  } catch (error) {
+    console.error('Invalid NEXT_PUBLIC_CONFIRMATION_RULES, using the defaults:', error);
+  }
+
+  const cleared = { ...defaults.cleared, ...overrides.cleared };
+  const stillThere = { ...defaults.stillThere, ...overrides.stillThere };
+  return {
+    cleared: { ...cleared, minDevices: Math.max(DATABASE_MIN_CLEARED_DEVICES, cleared.minDevices) },
+    stillThere: { ...stillThere, resetMinDevices: Math.max(DATABASE_MIN_RESET_DEVICES, stillThere.resetMinDevices) },
+  };
+}
+
+export const confirmationRules = getConfirmationRules();
+
+// Everything the rules are evaluated against besides the report
+export interface RuleContext {
+  rules: ConfirmationRules;
+  reputation: Reputation;
+  now: number;
+}
+
+// Context for evaluating votes, with reputation from the given reports
+export function createRuleContext(
+  reports: Report[],
+  now: number = Date.now(),
+  rules: ConfirmationRules = confirmationRules
+): RuleContext {
+  return { rules, reputation: buildReputation(reports, now), now };
+}
+
+export type ConfirmationRejection = 'alreadyConfirmed' | 'coolingDown' | 'photoRequired';
+
+function toTime(timestamp: string): number {
+  return new Date(timestamp).getTime() || 0;
+}
+
+export function hasDeviceConfirmedCleared(report: Report, deviceId: string): boolean {
+  return report.clearedConfirmations?.some(c => c.deviceId === deviceId) ?? false;
+}
+
+// Check if device has confirmed still there within the cooldown
+export function hasDeviceConfirmedStillThereRecently(
+  report: Report,
+  deviceId: string,
+  now: number = Date.now(),
+  rules: ConfirmationRules = confirmationRules
+): boolean {
+  const since = now - rules.stillThere.cooldownHours * 60 * 60 * 1000;
+  return report.stillThereConfirmations?.some(
+    c => c.deviceId === deviceId && toTime(c.timestamp) > since
+  ) ?? false;
+}
+
+// Why a device may not cast this vote, or null if it may. A photo the
+// device is about to attach counts.
+export function checkConfirmation(
+  report: Report,
+  kind: ConfirmationKind,
+  deviceId: string,
+  withPhoto: boolean,
+  context: Pick<RuleContext, 'rules' | 'now'>
+): ConfirmationRejection | null {
+  if (kind === 'cleared') {
+    if (hasDeviceConfirmedCleared(report, deviceId)) return 'alreadyConfirmed';
+    if (context.rules.cleared.requirePhoto && !withPhoto) return 'photoRequired';
+  } else {
+    if (hasDeviceConfirmedStillThereRecently(report, deviceId, context.now, context.rules)) return 'coolingDown';
+    if (context.rules.stillThere.requirePhoto && !withPhoto) return 'photoRequired';
+  }
+  return null;
+}
+
+// "It's Cleared" votes that count towards resolving the hazard
+export function getCountingClearedVotes(confirmations: Confirmation[] = [], rules: ConfirmationRules): Confirmation[] {
+  return confirmations.filter(c =>
+    (!rules.cleared.requirePhoto || c.photoId) && (!rules.cleared.staffOnly || c.staff)
+  );
+}
+
+function distinctDevices(confirmations: Confirmation[] = []): number {
+  return new Set(confirmations.map(c => c.deviceId)).size;
+}
+
+export interface ClearedProgress {
+  devices: number;
+  weight: number;
+  requiredDevices: number;
+  requiredWeight: number;
+  met: boolean;
+}
+
+// How far the "It's Cleared" votes are from resolving the hazard
+export function getClearedProgress(confirmations: Confirmation[] = [], context: Omit<RuleContext, 'now'>): ClearedProgress {
+  const { cleared } = context.rules;
+  const counting = getCountingClearedVotes(confirmations, context.rules);
+  const devices = distinctDevices(counting);
+  const weight = getConfirmationWeight(counting, context.reputation);
+  return {
+    devices,
+    weight,
+    requiredDevices: cleared.minDevices,
+    requiredWeight: cleared.minWeight,
+    met: devices >= cleared.minDevices && weight >= cleared.minWeight,
+  };
+}
+
+// Enough "Still There" votes to reset clearing progress
+export function meetsResetRule(confirmations: Confirmation[] = [], context: Omit<RuleContext, 'now'>): boolean {
+  const { stillThere } = context.rules;
+  const counting = confirmations.filter(c => !stillThere.requirePhoto || c.photoId);
+  return distinctDevices(counting) >= stillThere.resetMinDevices &&
+    getConfirmationWeight(counting, context.reputation) >= stillThere.resetMinWeight;
+}
+
+export type ConfirmationChanges = Pick<Report,
+  | 'stillThereCount'
+  | 'stillThereConfirmations'
+  | 'clearedCount'
+  | 'clearedConfirmations'
+  | 'overturnedConfirmations'
+  | 'resolved'
+>;
+
+export type ConfirmationResult =
+  | { accepted: false; reason: ConfirmationRejection }
+  | { accepted: true; changes: ConfirmationChanges; resolved: boolean; reset: boolean };
+
+// Apply a vote to a report under the rules: either why it is rejected, or
+// the confirmation fields to write
+export function applyConfirmation(
+  report: Report,
+  kind: ConfirmationKind,
+  confirmation: Confirmation,
+  context: RuleContext
+): ConfirmationResult {
+  const reason = checkConfirmation(report, kind, confirmation.deviceId, !!confirmation.photoId, context);
+  if (reason) return { accepted: false, reason };
+
+  const stillThereConfirmations = report.stillThereConfirmations || [];
+  const clearedConfirmations = report.clearedConfirmations || [];
+
+  if (kind === 'cleared') {
+    const newConfirmations = [...clearedConfirmations, confirmation];
+    const resolved = report.resolved || getClearedProgress(newConfirmations, context).met;
+    return {
+      accepted: true,
+      changes: {
+        stillThereCount: stillThereConfirmations.length,
+        stillThereConfirmations,
+        clearedCount: newConfirmations.length,
+        clearedConfirmations: newConfirmations,
+        overturnedConfirmations: report.overturnedConfirmations,
+        resolved,
+      },
+      resolved,
+      reset: false,
+    };
+  }
+
+  const newConfirmations = [...stillThereConfirmations, confirmation];
+  const reset = clearedConfirmations.length > 0 && meetsResetRule(newConfirmations, context);
+  const resolved = report.resolved && !reset && !context.rules.stillThere.reopensResolved;
+  return {
+    accepted: true,
+    changes: {
+      stillThereCount: newConfirmations.length,
+      stillThereConfirmations: newConfirmations,
+      clearedCount: reset ? 0 : clearedConfirmations.length,
+      clearedConfirmations: reset ? [] : clearedConfirmations,
+      overturnedConfirmations: reset
+        ? [...(report.overturnedConfirmations || []), ...clearedConfirmations]
+        : report.overturnedConfirmations,
+      resolved,
+    },
+    resolved,
+    reset,
+  };
+}
+
+export interface WeightedVote {
+  kind: ConfirmationKind | 'overturned';
+  deviceId: string;
+  timestamp: string;
+  weight: number;
+  record: DeviceRecord;
+  staff: boolean;
+  counts: boolean; // Counts towards the rules (photo, staff)
+}
+
+// Why a hazard is (or isn't) resolved, for the council view
+export interface ResolutionExplanation {
+  votes: WeightedVote[]; // Oldest first
+  progress: ClearedProgress;
+  resolvedByCouncil: boolean; // Resolved without enough counting votes, so by a council member
+  rules: ConfirmationRules;
+}
+
+export function explainResolution(report: Report, context: Omit<RuleContext, 'now'>): ResolutionExplanation {
+  const counting = new Set(getCountingClearedVotes(report.clearedConfirmations, context.rules));
+  const weighted = (kind: WeightedVote['kind']) => (c: Confirmation): WeightedVote => ({
+    kind,
+    deviceId: c.deviceId,
+    timestamp: c.timestamp,
+    weight: getDeviceWeight(c.deviceId, context.reputation),
+    record: context.reputation[c.deviceId] ?? { agreed: 0, disagreed: 0 },
+    staff: !!c.staff,
+    counts: kind !== 'cleared' || counting.has(c),
+  });
+
+  const votes = [
+    ...(report.stillThereConfirmations || []).map(weighted('stillThere')),
+    ...(report.clearedConfirmations || []).map(weighted('cleared')),
+    ...(report.overturnedConfirmations || []).map(weighted('overturned')),
+  ].sort((a, b) => toTime(a.timestamp) - toTime(b.timestamp));
+
+  const progress = getClearedProgress(report.clearedConfirmations, context);
+
+  return {
+    votes,
+    progress,
+    resolvedByCouncil: report.resolved && !progress.met,
+    rules: context.rules,
+  };
+}
@@ -1,17 +1,47 @@
 import Dexie, { type EntityTable } from 'dexie';
+import { encodeGeohash, geohashesCoveringRadius, LatLngBounds, isWithinBounds } from './geo';
+import { calculateDistance } from './utils';
+import { HazardCategory, HazardSeverity, DEFAULT_HAZARD_CATEGORY, DEFAULT_HAZARD_SEVERITY } from './hazards';
+import { ConfirmationKind, ConfirmationRejection, applyConfirmation, createRuleContext } from './confirmationRules';
 
 export interface Confirmation {
   deviceId: string;
   timestamp: string;
+  photoId?: string; // Evidence photo added with the confirmation (see Report.photos)
+  staff?: boolean; // Made by a signed-in council account
 }
 
+// Who added a photo: the reporter, or someone confirming the hazard
+export type PhotoKind = 'report' | 'stillThere' | 'cleared';
+
+export interface ReportPhoto {
+  id: string;
+  kind: PhotoKind;
+  deviceId: string;
+  addedAt: string; // ISO timestamp
+  photoUrl?: string; // Firebase Storage URL
+  thumbnailUrl?: string; // Firebase Storage URL of the thumbnail
+  photoBase64?: string; // Kept locally until uploaded to Storage
+}
+
+// Photos the reporter can attach to a new report
+export const MAX_REPORT_PHOTOS = 4;
+
+// Moderation fields that are merged individually during sync
+export type ModerationField = 'flagged' | 'noGlassFound' | 'archived';
+
 export interface Report {
   id: string;
   lat: number;
   lng: number;
+  geohash: string; // Derived from lat/lng for spatial queries
+  category: HazardCategory;
+  severity: HazardSeverity;
   desc: string;
-  photoBase64?: string;
+  photoBase64?: string; // Inline photo, kept locally until uploaded to Storage
   photoUrl?: string; // Firebase Storage URL
+  thumbnailUrl?: string; // Firebase Storage URL of the thumbnail
+  photos?: ReportPhoto[]; // Gallery: reporter photos and confirmers' evidence
   date: string;
   clearedCount: number;
   resolved: boolean;
@@ -19,6 +49,8 @@ export interface Report {
   stillThereCount: number;
   stillThereConfirmations: Confirmation[];
   clearedConfirmations: Confirmation[];
+  // Cleared confirmations reset by "Still There" votes, kept for reputation
+  overturnedConfirmations?: Confirmation[];
   // New fields for sync
   syncStatus: 'synced' | 'pending' | 'conflict';
   lastModified: number;
@@ -28,10 +60,66 @@ export interface Report {
   archivedAt?: number;
   flagged?: boolean;
   noGlassFound?: boolean;
+  // When each moderation field was last changed (used for per-field merge)
+  moderatedAt?: Partial<Record<ModerationField, number>>;
+  // Remote values for fields that conflicted with unsynced local edits (local only)
+  remoteConflict?: Partial<Pick<Report, ModerationField>>;
+  // IDs of duplicate reports merged into this one
+  mergedFrom?: string[];
+}
+
+// A report merged into another one. Kept so sync doesn't bring the
+// merged report back from a device that still has a copy.
+export interface ReportAlias {
+  id: string; // The merged report's ID
+  survivorId: string;
+  mergedAt: number;
+  syncStatus: 'synced' | 'pending';
+}
+
+// Confirmation chosen from a notification action. The service worker
+// can't run the sync code, so it queues these for the page to apply.
+export interface PendingAlertAction {
+  id?: number;
+  reportId: string;
+  action: 'stillThere' | 'cleared';
+  deviceId: string;
+  createdAt: number;
+}
+
+export type AcknowledgementMode = 'snooze' | 'mute' | 'untilChanged';
+
+// Per-device "don't alert me about this hazard" (local only, never synced)
+export interface HazardAcknowledgement {
+  reportId: string;
+  mode: AcknowledgementMode;
+  acknowledgedAt: number;
+  until?: number; // Snooze end
+  statusKey?: string; // Hazard status when muted until it changes
+}
+
+export interface WalkPoint {
+  lat: number;
+  lng: number;
+  t: number; // Timestamp (ms)
+}
+
+// A recorded walk (local only unless exported)
+export interface Walk {
+  id: string;
+  startedAt: number;
+  endedAt?: number; // Unset while the walk is in progress
+  points: WalkPoint[];
+  distanceMeters: number;
+  hazardIds: string[]; // Hazards alerted on during the walk
 }
 
 const db = new Dexie('PawSafeDB') as Dexie & {
   reports: EntityTable<Report, 'id'>;
+  pendingAlertActions: EntityTable<PendingAlertAction, 'id'>;
+  hazardAcknowledgements: EntityTable<HazardAcknowledgement, 'reportId'>;
+  walks: EntityTable<Walk, 'id'>;
+  reportAliases: EntityTable<ReportAlias, 'id'>;
 };
 
 // Version 1: Original schema
@@ -72,6 +160,45 @@ db.version(4).stores({
   });
 });
 
+// Version 5: Add geohash for spatial queries
+db.version(5).stores({
+  reports: 'id, lat, lng, date, resolved, syncStatus, archived, flagged, noGlassFound, geohash'
+}).upgrade(async (tx) => {
+  await tx.table('reports').toCollection().modify((report) => {
+    report.geohash = report.geohash ?? encodeGeohash(report.lat, report.lng);
+  });
+});
+
+// Version 6: Add hazard category and severity (existing reports are broken glass)
+db.version(6).stores({
+  reports: 'id, lat, lng, date, resolved, syncStatus, archived, flagged, noGlassFound, geohash, category'
+}).upgrade(async (tx) => {
+  await tx.table('reports').toCollection().modify((report) => {
+    report.category = report.category ?? DEFAULT_HAZARD_CATEGORY;
+    report.severity = report.severity ?? DEFAULT_HAZARD_SEVERITY;
+  });
+});
+
+// Version 7: Queue of confirmations made from notification actions
+db.version(7).stores({
+  pendingAlertActions: '++id, reportId, createdAt'
+});
+
+// Version 8: Per-device snoozed and muted hazards
+db.version(8).stores({
+  hazardAcknowledgements: 'reportId'
+});
+
+// Version 9: Recorded walks
+db.version(9).stores({
+  walks: 'id, startedAt'
+});
+
+// Version 10: Aliases left behind by merging duplicate reports
+db.version(10).stores({
+  reportAliases: 'id, survivorId, syncStatus'
+});
+
 export { db };
 
 // Helper functions for report operations
@@ -83,9 +210,10 @@ export async function getReport(id: string): Promise<Report | undefined> {
   return await db.reports.get(id);
 }
 
-export async function addReport(report: Omit<Report, 'stillThereCount' | 'stillThereConfirmations' | 'clearedConfirmations' | 'syncStatus' | 'lastModified'>): Promise<string> {
+export async function addReport(report: Omit<Report, 'geohash' | 'stillThereCount' | 'stillThereConfirmations' | 'clearedConfirmations' | 'syncStatus' | 'lastModified'>): Promise<string> {
   const fullReport: Report = {
     ...report,
+    geohash: encodeGeohash(report.lat, report.lng),
     stillThereCount: 0,
     stillThereConfirmations: [],
     clearedConfirmations: [],
@@ -103,81 +231,102 @@ export async function updateReport(id: string, updates: Partial<Report>): Promis
   });
 }
 
-// Check if device has already confirmed cleared
-export function hasDeviceConfirmedCleared(report: Report, deviceId: string): boolean {
-  return report.clearedConfirmations?.some(c => c.deviceId === deviceId) ?? false;
+// Get reports within a radius (metres) of a point, using the geohash index
+export async function getReportsWithinRadius(lat: number, lng: number, meters: number): Promise<Report[]> {
+  const cells = geohashesCoveringRadius(lat, lng, meters);
+  return await db.reports
+    .where('geohash')
+    .startsWithAnyOf(cells)
+    .filter(r => calculateDistance(lat, lng, r.lat, r.lng) <= meters)
+    .toArray();
 }
 
-// Check if device has confirmed still there recently (within 24 hours)
-export function hasDeviceConfirmedStillThereRecently(report: Report, deviceId: string): boolean {
-  const oneDayAgo = Date.now() - (24 * 60 * 60 * 1000);
-  return report.stillThereConfirmations?.some(
-    c => c.deviceId === deviceId && new Date(c.timestamp).getTime() > oneDayAgo
-  ) ?? false;
+// Get reports inside a map viewport
+export async function getReportsInBounds(bounds: LatLngBounds): Promise<Report[]> {
+  return await db.reports
+    .where('lat')
+    .between(bounds.south, bounds.north, true, true)
+    .filter(r => isWithinBounds(r.lat, r.lng, bounds))
+    .toArray();
 }
 
-export async function incrementClearedCount(
-  id: string,
-  deviceId: string
-): Promise<{ success: boolean; alreadyConfirmed: boolean }> {
-  const report = await db.reports.get(id);
-  if (!report) return { success: false, alreadyConfirmed: false };
-
-  // Check if this device has already confirmed
-  if (hasDeviceConfirmedCleared(report, deviceId)) {
-    return { success: false, alreadyConfirmed: true };
-  }
+// Delete synced reports outside the given geohash cells so storage stays
+// bounded to the user's areas. Unsynced reports are always kept.
+export async function evictReportsOutsideCells(cells: string[]): Promise<number> {
+  if (cells.length === 0) return 0;
 
-  const newConfirmations = [
-    ...(report.clearedConfirmations || []),
-    { deviceId, timestamp: new Date().toISOString() }
-  ];
-  const newCount = newConfirmations.length;
+  const outside = await db.reports
+    .filter(r => r.syncStatus === 'synced' && !cells.some(cell => r.geohash.startsWith(cell)))
+    .primaryKeys();
+  await db.reports.bulkDelete(outside);
+  return outside.length;
+}
 
-  await db.reports.update(id, {
-    clearedCount: newCount,
-    clearedConfirmations: newConfirmations,
-    resolved: newCount >= 3,
-    lastModified: Date.now(),
-    syncStatus: 'pending',
-  });
+// Add an evidence photo to a report alongside a new confirmation
+function withEvidencePhoto(report: Report, confirmation: Confirmation, photo?: ReportPhoto) {
+  if (!photo) {
+    return { confirmation, photos: report.photos };
+  }
+  return {
+    confirmation: { ...confirmation, photoId: photo.id },
+    photos: [...(report.photos || []), photo],
+  };
+}
 
-  return { success: true, alreadyConfirmed: false };
+export interface ConfirmationOutcome {
+  success: boolean;
+  alreadyConfirmed: boolean; // Already confirmed, or within the cooldown
+  reason?: ConfirmationRejection;
+  resolved?: boolean; // The hazard is resolved after this vote
 }
 
-export async function incrementStillThereCount(
+// Record a vote under the confirmation rules (see confirmationRules.ts)
+async function addConfirmation(
   id: string,
-  deviceId: string
-): Promise<{ success: boolean; alreadyConfirmed: boolean }> {
+  kind: ConfirmationKind,
+  deviceId: string,
+  photo?: ReportPhoto,
+  staff?: boolean
+): Promise<ConfirmationOutcome> {
   const report = await db.reports.get(id);
   if (!report) return { success: false, alreadyConfirmed: false };
 
-  // Check if this device has confirmed recently (24 hour cooldown)
-  if (hasDeviceConfirmedStillThereRecently(report, deviceId)) {
-    return { success: false, alreadyConfirmed: true };
+  const { confirmation, photos } = withEvidencePhoto(
+    report,
+    { deviceId, timestamp: new Date().toISOString(), ...(staff ? { staff } : {}) },
+    photo
+  );
+  const result = applyConfirmation(report, kind, confirmation, createRuleContext(await db.reports.toArray()));
+  if (!result.accepted) {
+    return { success: false, alreadyConfirmed: result.reason !== 'photoRequired', reason: result.reason };
   }
 
-  const newConfirmations = [
-    ...(report.stillThereConfirmations || []),
-    { deviceId, timestamp: new Date().toISOString() }
-  ];
-  const newStillThereCount = newConfirmations.length;
-
-  // If 2+ people confirm still there, reset cleared progress
-  const shouldResetCleared = newStillThereCount >= 2;
-
   await db.reports.update(id, {
-    stillThereCount: newStillThereCount,
-    stillThereConfirmations: newConfirmations,
-    // Reset cleared count if enough people confirm still there
-    clearedCount: shouldResetCleared ? 0 : report.clearedCount,
-    clearedConfirmations: shouldResetCleared ? [] : report.clearedConfirmations,
-    resolved: false, // Un-resolve if someone confirms still there
+    ...result.changes,
+    photos,
     lastModified: Date.now(),
     syncStatus: 'pending',
   });
 
-  return { success: true, alreadyConfirmed: false };
+  return { success: true, alreadyConfirmed: false, resolved: result.resolved };
+}
+
+export async function incrementClearedCount(
+  id: string,
+  deviceId: string,
+  photo?: ReportPhoto,
+  staff?: boolean
+): Promise<ConfirmationOutcome> {
+  return addConfirmation(id, 'cleared', deviceId, photo, staff);
+}
+
+export async function incrementStillThereCount(
+  id: string,
+  deviceId: string,
+  photo?: ReportPhoto,
+  staff?: boolean
+): Promise<ConfirmationOutcome> {
+  return addConfirmation(id, 'stillThere', deviceId, photo, staff);
 }
 
 export async function markAsResolved(id: string): Promise<void> {
@@ -227,22 +376,37 @@ export async function getActiveReports(): Promise<Report[]> {
   return all.filter(r => !r.archived);
 }
 
+// Record when a moderation field was changed
+function stampModeration(
+  report: Report | undefined,
+  field: ModerationField,
+  now: number
+): Partial<Record<ModerationField, number>> {
+  return { ...report?.moderatedAt, [field]: now };
+}
+
 // Archive a report
 export async function archiveReport(id: string): Promise<void> {
+  const report = await db.reports.get(id);
+  const now = Date.now();
   await db.reports.update(id, {
     archived: true,
-    archivedAt: Date.now(),
-    lastModified: Date.now(),
+    archivedAt: now,
+    moderatedAt: stampModeration(report, 'archived', now),
+    lastModified: now,
     syncStatus: 'pending',
   });
 }
 
 // Unarchive a report
 export async function unarchiveReport(id: string): Promise<void> {
+  const report = await db.reports.get(id);
+  const now = Date.now();
   await db.reports.update(id, {
     archived: false,
     archivedAt: undefined,
-    lastModified: Date.now(),
+    moderatedAt: stampModeration(report, 'archived', now),
+    lastModified: now,
     syncStatus: 'pending',
   });
 }
@@ -253,9 +417,11 @@ export async function toggleFlagged(id: string): Promise<boolean> {
   if (!report) return false;
 
   const newFlagged = !report.flagged;
+  const now = Date.now();
   await db.reports.update(id, {
     flagged: newFlagged,
-    lastModified: Date.now(),
+    moderatedAt: stampModeration(report, 'flagged', now),
+    lastModified: now,
     syncStatus: 'pending',
   });
   return newFlagged;
@@ -266,9 +432,11 @@ export async function toggleNoGlassFound(id: string): Promise<boolean> {
   if (!report) return false;
 
   const newNoGlassFound = !report.noGlassFound;
+  const now = Date.now();
   await db.reports.update(id, {
     noGlassFound: newNoGlassFound,
-    lastModified: Date.now(),
+    moderatedAt: stampModeration(report, 'noGlassFound', now),
+    lastModified: now,
     syncStatus: 'pending',
   });
   return newNoGlassFound;
@@ -285,9 +453,40 @@ export async function autoArchiveOldResolvedReports(): Promise<number> {
     r.lastModified < sevenDaysAgo
   );
 
+  // Not stamped in moderatedAt: an automatic archive should never win
+  // over (or conflict with) a council decision made elsewhere
+  const now = Date.now();
   for (const report of toArchive) {
-    await archiveReport(report.id);
+    await db.reports.update(report.id, {
+      archived: true,
+      archivedAt: now,
+      lastModified: now,
+      syncStatus: 'pending',
+    });
   }
 
   return toArchive.length;
 }
+
+// Resolve a sync conflict by keeping the local values or taking the remote ones
+export async function resolveConflict(id: string, keep: 'local' | 'remote'): Promise<void> {
+  const report = await db.reports.get(id);
+  if (!report?.remoteConflict) return;
+
+  // Re-stamp the fields so the chosen values win on other devices too
+  const now = Date.now();
+  const moderatedAt = { ...report.moderatedAt };
+  for (const field of Object.keys(report.remoteConflict) as ModerationField[]) {
+    moderatedAt[field] = now;
+  }
+  const changes: Partial<Report> = { remoteConflict: undefined, moderatedAt };
+
+  if (keep === 'remote') {
+    Object.assign(changes, report.remoteConflict);
+    if (report.remoteConflict.archived !== undefined) {
+      changes.archivedAt = report.remoteConflict.archived ? (report.archivedAt ?? now) : undefined;
+    }
+  }
+
+  await updateReport(id, changes);
+}
@@ -0,0 +1,115 @@
+// Confidence that a hazard is still there. It starts at 1 when the hazard
+// is reported or someone confirms "Still There", and halves every
+// half-life after that (glass in a busy street is usually swept within
+// days). Low-confidence hazards are drawn faded, walkers near them are
+// asked whether they are still there, and below the expiry threshold they
+// stop counting as active until someone confirms them again.
+
+import { Report } from './db';
+import {
+  HazardCategory,
+  HazardSeverity,
+  DEFAULT_HAZARD_CATEGORY,
+  DEFAULT_HAZARD_SEVERITY,
+} from './hazards';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface DecayConfig {
+  halfLifeHours: Record<HazardCategory, number>;
+  severityFactor: Record<HazardSeverity, number>; // Scales the half-life
+  fadeBelow: number; // Markers are faded below this confidence
+  promptBelow: number; // Nearby walkers are asked below this
+  expireBelow: number; // Expired below this, when autoExpire is on
+  autoExpire: boolean;
+}
+
+export const DEFAULT_DECAY_CONFIG: DecayConfig = {
+  halfLifeHours: {
+    glass: 48,
+    needles: 72,
+    sharpMetal: 96,
+    nails: 168,
+    chemicals: 72,
+    poison: 336,
+    other: 96,
+  },
+  severityFactor: { minor: 0.75, moderate: 1, severe: 1.5 },
+  fadeBelow: 0.5,
+  promptBelow: 0.4,
+  expireBelow: 0.1,
+  autoExpire: true,
+};
+
+// NEXT_PUBLIC_HAZARD_AUTO_EXPIRE=false turns expiry off,
+// NEXT_PUBLIC_HAZARD_EXPIRE_BELOW sets the expiry threshold (0-1) and
+// NEXT_PUBLIC_HAZARD_HALF_LIFE_SCALE multiplies every half-life
+export function getDecayConfig(): DecayConfig {
+  const expireBelow = Number(process.env.NEXT_PUBLIC_HAZARD_EXPIRE_BELOW);
+  const scale = Number(process.env.NEXT_PUBLIC_HAZARD_HALF_LIFE_SCALE);
+  const defaults = DEFAULT_DECAY_CONFIG;
+
+  return {
+    ...defaults,
+    halfLifeHours: scale > 0
+      ? Object.fromEntries(
+        Object.entries(defaults.halfLifeHours).map(([category, hours]) => [category, hours * scale])
+      ) as Record<HazardCategory, number>
+      : defaults.halfLifeHours,
+    expireBelow: expireBelow > 0 && expireBelow < 1 ? expireBelow : defaults.expireBelow,
+    autoExpire: process.env.NEXT_PUBLIC_HAZARD_AUTO_EXPIRE !== 'false',
+  };
+}
+
+const decayConfig = getDecayConfig();
+
+function toTime(timestamp: string): number {
+  return new Date(timestamp).getTime() || 0;
+}
+
+// When the hazard was last known to be there
+export function getLastSeenAt(report: Report): number {
+  const confirmations = report.stillThereConfirmations || [];
+  return Math.max(toTime(report.date), ...confirmations.map(c => toTime(c.timestamp)));
+}
+
+export function getHalfLifeHours(report: Report, config: DecayConfig = decayConfig): number {
+  return config.halfLifeHours[report.category ?? DEFAULT_HAZARD_CATEGORY] *
+    config.severityFactor[report.severity ?? DEFAULT_HAZARD_SEVERITY];
+}
+
+// 0-1; resolved and archived hazards are 0
+export function getConfidence(report: Report, now: number = Date.now(), config: DecayConfig = decayConfig): number {
+  if (report.resolved || report.archived) return 0;
+  const ageHours = Math.max(0, now - getLastSeenAt(report)) / HOUR_MS;
+  return Math.pow(0.5, ageHours / getHalfLifeHours(report, config));
+}
+
+// When confidence drops below the expiry threshold
+export function getExpiresAt(report: Report, config: DecayConfig = decayConfig): number {
+  const halfLives = Math.log2(1 / config.expireBelow);
+  return getLastSeenAt(report) + halfLives * getHalfLifeHours(report, config) * HOUR_MS;
+}
+
+export function isExpired(report: Report, now: number = Date.now(), config: DecayConfig = decayConfig): boolean {
+  return config.autoExpire && !report.resolved && !report.archived &&
+    getConfidence(report, now, config) < config.expireBelow;
+}
+
+// Unresolved and not expired
+export function isLiveHazard(report: Report, now: number = Date.now(), config: DecayConfig = decayConfig): boolean {
+  return !report.resolved && !report.archived && !isExpired(report, now, config);
+}
+
+// Worth asking a nearby walker whether it is still there
+export function needsStillTherePrompt(report: Report, now: number = Date.now(), config: DecayConfig = decayConfig): boolean {
+  return isLiveHazard(report, now, config) && getConfidence(report, now, config) < config.promptBelow;
+}
+
+// Marker opacity: full strength down to fadeBelow, then fading to 0.35
+export function getMarkerOpacity(report: Report, now: number = Date.now(), config: DecayConfig = decayConfig): number {
+  if (report.resolved) return 1;
+  const confidence = getConfidence(report, now, config);
+  if (confidence >= config.fadeBelow) return 1;
+  return 0.35 + 0.65 * (confidence / config.fadeBelow);
+}
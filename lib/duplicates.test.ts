@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CONFIRMATION_RULES, RuleContext } from './confirmationRules';
+import { foldLeftoverCopies, mergeDuplicateReports } from './duplicates';
+import { NOW, report, vote } from './__fixtures__/reports';
+
+const context: RuleContext = { rules: DEFAULT_CONFIRMATION_RULES, reputation: {}, now: NOW };
+
+describe('mergeDuplicateReports', () => {
+  it('combines votes, descriptions and the merge list', () => {
+    const survivor = report({ id: 'a', desc: 'Broken bottle', stillThereConfirmations: [vote('x', 3)] });
+    const duplicate = report({ id: 'b', desc: 'Glass by the bench', stillThereConfirmations: [vote('y', 2)] });
+    const merged = mergeDuplicateReports(survivor, [duplicate], context);
+
+    expect(merged.desc).toBe('Broken bottle\n\nGlass by the bench');
+    expect(merged.stillThereConfirmations!.map(c => c.deviceId)).toEqual(['x', 'y']);
+    expect(merged.mergedFrom).toEqual(['b']);
+    expect(merged.syncStatus).toBe('pending');
+  });
+});
+
+describe('foldLeftoverCopies', () => {
+  it('takes only the votes from a copy of a report merged elsewhere', () => {
+    // Merged on another device, which already combined the descriptions.
+    // This device still holds its copy of B with a vote it hasn't synced.
+    const survivor = report({
+      id: 'a',
+      desc: 'Broken bottle\n\nGlass by the bench',
+      stillThereConfirmations: [vote('x', 3)],
+      flagged: true,
+      mergedFrom: ['b'],
+    });
+    const leftover = report({
+      id: 'b',
+      desc: 'Glass by the bench',
+      stillThereConfirmations: [vote('y', 1)],
+      syncStatus: 'pending',
+    });
+    const folded = foldLeftoverCopies(survivor, [leftover], context);
+
+    expect(folded.desc).toBe(survivor.desc);
+    expect(folded.mergedFrom).toEqual(['b']);
+    expect(folded.flagged).toBe(true);
+    expect(folded.stillThereConfirmations!.map(c => c.deviceId)).toEqual(['x', 'y']);
+    expect(folded.stillThereCount).toBe(2);
+  });
+});
@@ -0,0 +1,236 @@
+// Duplicate reports. Several people often report the same hazard within
+// minutes, a few metres apart. New reports are checked against nearby
+// active ones, and a council admin can merge duplicates into one report.
+// Merged reports leave an alias behind (see ReportAlias) so sync doesn't
+// bring them back from devices that still have a copy.
+
+import { db, Report, ReportPhoto, Confirmation, ReportAlias } from './db';
+import { calculateDistance } from './utils';
+import { isLiveHazard } from './decay';
+import { RuleContext, createRuleContext, getClearedProgress } from './confirmationRules';
+
+// Reports closer than this are treated as possibly the same hazard
+export const DUPLICATE_RADIUS_METERS = 10;
+
+// Longest description the database rules accept
+const MAX_DESC_LENGTH = 500;
+
+export interface NearbyReport {
+  report: Report;
+  distanceMeters: number;
+}
+
+// Active reports within radiusMeters of a location, nearest first
+export function findNearbyReports(
+  reports: Report[],
+  lat: number,
+  lng: number,
+  radiusMeters: number = DUPLICATE_RADIUS_METERS
+): NearbyReport[] {
+  return reports
+    .filter(report => isLiveHazard(report))
+    .map(report => ({ report, distanceMeters: calculateDistance(lat, lng, report.lat, report.lng) }))
+    .filter(nearby => nearby.distanceMeters <= radiusMeters)
+    .sort((a, b) => a.distanceMeters - b.distanceMeters);
+}
+
+// Groups of active reports close enough to be the same hazard, keyed by
+// report ID. Each group starts from its oldest report.
+export function findDuplicateGroups(
+  reports: Report[],
+  radiusMeters: number = DUPLICATE_RADIUS_METERS
+): Record<string, string[]> {
+  const active = reports
+    .filter(report => isLiveHazard(report))
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  const groups: Record<string, string[]> = {};
+
+  for (const report of active) {
+    if (groups[report.id]) continue;
+    const group = findNearbyReports(active, report.lat, report.lng, radiusMeters)
+      .map(nearby => nearby.report.id)
+      .filter(id => !groups[id]);
+    if (group.length < 2) continue;
+    for (const id of group) {
+      groups[id] = group;
+    }
+  }
+
+  return groups;
+}
+
+// Append confirmations not already present. Existing entries keep their
+// positions, which the database rules require.
+function appendConfirmations(
+  existing: Confirmation[] = [],
+  added: Confirmation[],
+  keyOf: (c: Confirmation) => string
+): Confirmation[] {
+  const keys = new Set(existing.map(keyOf));
+  const result = [...existing];
+  for (const confirmation of added) {
+    if (keys.has(keyOf(confirmation))) continue;
+    keys.add(keyOf(confirmation));
+    result.push(confirmation);
+  }
+  return result;
+}
+
+// A duplicate's photos as gallery entries, including a legacy top-level photo
+function galleryPhotos(report: Report): ReportPhoto[] {
+  const photos = report.photos || [];
+  if (!report.photoUrl && !report.photoBase64) return photos;
+  return [{
+    id: `${report.id}-photo`,
+    kind: 'report',
+    deviceId: 'unknown', // Legacy photos don't record who took them
+    addedAt: report.date,
+    photoUrl: report.photoUrl,
+    thumbnailUrl: report.thumbnailUrl,
+    photoBase64: report.photoBase64,
+  }, ...photos];
+}
+
+// Distinct descriptions, survivor's first, within the length limit
+function combineDescriptions(descs: string[]): string {
+  const seen = new Set<string>();
+  const parts: string[] = [];
+  for (const desc of descs) {
+    const trimmed = desc.trim();
+    if (!trimmed || seen.has(trimmed.toLowerCase())) continue;
+    seen.add(trimmed.toLowerCase());
+    parts.push(trimmed);
+  }
+  return parts.join('\n\n').slice(0, MAX_DESC_LENGTH);
+}
+
+// Fold duplicates into the surviving report: confirmations, photos and
+// descriptions are combined. Location, category, severity and date stay
+// those of the survivor.
+export function mergeDuplicateReports(survivor: Report, duplicates: Report[], context: RuleContext): Report {
+  const ordered = [...duplicates].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  const stillThereConfirmations = appendConfirmations(
+    survivor.stillThereConfirmations,
+    ordered.flatMap(report => report.stillThereConfirmations || []),
+    c => `${c.deviceId}|${c.timestamp}`
+  );
+  const clearedConfirmations = appendConfirmations(
+    survivor.clearedConfirmations,
+    ordered.flatMap(report => report.clearedConfirmations || []),
+    c => c.deviceId
+  );
+  const overturnedConfirmations = appendConfirmations(
+    survivor.overturnedConfirmations,
+    ordered.flatMap(report => report.overturnedConfirmations || []),
+    c => `${c.deviceId}|${c.timestamp}`
+  );
+
+  const photoIds = new Set((survivor.photos || []).map(photo => photo.id));
+  const photos = [...(survivor.photos || [])];
+  for (const photo of ordered.flatMap(galleryPhotos)) {
+    if (photoIds.has(photo.id)) continue;
+    photoIds.add(photo.id);
+    photos.push(photo);
+  }
+
+  const mergedFrom = Array.from(new Set([
+    ...(survivor.mergedFrom || []),
+    ...ordered.flatMap(report => [report.id, ...(report.mergedFrom || [])]),
+  ])).filter(id => id !== survivor.id);
+
+  return {
+    ...survivor,
+    desc: combineDescriptions([survivor.desc, ...ordered.map(report => report.desc)]),
+    photos: photos.length > 0 ? photos : undefined,
+    stillThereConfirmations,
+    stillThereCount: stillThereConfirmations.length,
+    clearedConfirmations,
+    clearedCount: clearedConfirmations.length,
+    overturnedConfirmations: overturnedConfirmations.length > 0 ? overturnedConfirmations : undefined,
+    resolved: survivor.resolved || getClearedProgress(clearedConfirmations, context).met,
+    mergedFrom,
+    lastModified: Date.now(),
+    syncStatus: 'pending',
+  };
+}
+
+// Fold unsynced local copies of reports merged on another device into the
+// synced survivor. Only votes and photos are taken: the description and
+// merge list were settled by the council admin who merged them, and this
+// device isn't allowed to change them
+export function foldLeftoverCopies(survivor: Report, leftovers: Report[], context: RuleContext): Report {
+  return {
+    ...mergeDuplicateReports(survivor, leftovers, context),
+    desc: survivor.desc,
+    mergedFrom: survivor.mergedFrom,
+  };
+}
+
+// Merge duplicates into a surviving report in the local database
+export async function mergeReportsLocally(survivorId: string, duplicateIds: string[]): Promise<Report> {
+  return db.transaction('rw', db.reports, db.reportAliases, async () => {
+    const survivor = await db.reports.get(survivorId);
+    if (!survivor) throw new Error(`Report ${survivorId} not found`);
+    const duplicates = (await db.reports.bulkGet(duplicateIds))
+      .filter((report): report is Report => report !== undefined && report.id !== survivorId);
+
+    const merged = mergeDuplicateReports(survivor, duplicates, createRuleContext(await db.reports.toArray()));
+    const now = Date.now();
+    await db.reports.put(merged);
+    await db.reports.bulkDelete(duplicates.map(report => report.id));
+    await db.reportAliases.bulkPut(duplicates.map(report => ({
+      id: report.id,
+      survivorId,
+      mergedAt: now,
+      syncStatus: 'pending' as const,
+    })));
+    return merged;
+  });
+}
+
+// IDs among the given ones that were merged into another report
+export async function getAliasedIds(ids: string[]): Promise<Set<string>> {
+  const aliases = await db.reportAliases.bulkGet(ids);
+  return new Set(aliases.filter((alias): alias is ReportAlias => alias !== undefined).map(alias => alias.id));
+}
+
+// Apply merges made on other devices: record the aliases of synced
+// survivors and fold in any local copies of the merged reports, keeping
+// their unsynced confirmations and photos
+export async function applyRemoteMerges(reports: Report[]): Promise<void> {
+  const survivors = reports.filter(report => report.mergedFrom && report.mergedFrom.length > 0);
+  if (survivors.length === 0) return;
+
+  await db.transaction('rw', db.reports, db.reportAliases, async () => {
+    const context = createRuleContext(await db.reports.toArray());
+    for (const survivor of survivors) {
+      const known = await getAliasedIds(survivor.mergedFrom!);
+      const newIds = survivor.mergedFrom!.filter(id => !known.has(id));
+      if (newIds.length === 0) continue;
+
+      const leftovers = (await db.reports.bulkGet(newIds))
+        .filter((report): report is Report => report !== undefined);
+      const unsynced = leftovers.filter(report => report.syncStatus !== 'synced');
+      if (unsynced.length > 0) {
+        const current = (await db.reports.get(survivor.id)) ?? survivor;
+        await db.reports.put(foldLeftoverCopies(current, unsynced, context));
+      }
+      await db.reports.bulkDelete(leftovers.map(report => report.id));
+      await db.reportAliases.bulkPut(newIds.map(id => ({
+        id,
+        survivorId: survivor.id,
+        mergedAt: survivor.lastModified,
+        syncStatus: 'synced' as const,
+      })));
+    }
+  });
+}
+
+export async function getPendingAliases(): Promise<ReportAlias[]> {
+  return await db.reportAliases.where('syncStatus').equals('pending').toArray();
+}
+
+export async function markAliasSynced(id: string): Promise<void> {
+  await db.reportAliases.update(id, { syncStatus: 'synced' });
+}
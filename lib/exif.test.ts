@@ -0,0 +1,84 @@
+import { describe, expect, it, vi } from 'vitest';
+import { uploadString } from 'firebase/storage';
+import { readExif, stripJpegMetadata } from './exif';
+import { uploadReportPhoto } from './photos';
+import { ByteOrder, PHOTO_LOCATION, PHOTO_TAKEN_AT, bareJpeg, exifJpeg, toJpegDataUrl } from './__fixtures__/jpegs';
+
+vi.mock('./firebase-config', () => ({ database: {}, auth: {}, storage: {} }));
+vi.mock('firebase/storage', () => ({
+  ref: (_storage: unknown, path: string) => ({ fullPath: path }),
+  uploadString: vi.fn(async (ref: { fullPath: string }) => ({ ref })),
+  getDownloadURL: async (ref: { fullPath: string }) => `https://storage.example/${ref.fullPath}`,
+  deleteObject: vi.fn(),
+  listAll: vi.fn(),
+}));
+// The canvas isn't available, so the "resized" thumbnail is a fresh copy
+// of the photo with all its metadata
+vi.mock('./utils', async importOriginal => {
+  const { exifJpeg, toJpegDataUrl } = await import('./__fixtures__/jpegs');
+  return {
+    ...(await importOriginal<typeof import('./utils')>()),
+    resizeImage: async () => toJpegDataUrl(exifJpeg('MM')),
+  };
+});
+
+function toBuffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
+
+const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+describe('readExif', () => {
+  for (const byteOrder of ['II', 'MM'] as ByteOrder[]) {
+    it(`reads the location and time in ${byteOrder} byte order`, () => {
+      const metadata = readExif(toBuffer(exifJpeg(byteOrder)));
+      expect(metadata?.location?.lat).toBeCloseTo(PHOTO_LOCATION.lat, 6);
+      expect(metadata?.location?.lng).toBeCloseTo(PHOTO_LOCATION.lng, 6);
+      expect(metadata?.takenAt?.toISOString()).toBe(PHOTO_TAKEN_AT);
+    });
+  }
+
+  it('returns null without EXIF', () => {
+    expect(readExif(toBuffer(bareJpeg()))).toBeNull();
+  });
+
+  it('returns null for other file types', () => {
+    expect(readExif(toBuffer(PNG_SIGNATURE))).toBeNull();
+  });
+});
+
+describe('stripJpegMetadata', () => {
+  it('removes every APP1-APP15 segment and comment, keeping JFIF and the image', () => {
+    const stripped = stripJpegMetadata(toJpegDataUrl(exifJpeg()));
+    expect(stripped).toBe(toJpegDataUrl(bareJpeg()));
+  });
+
+  it('leaves a JPEG without metadata as it is', () => {
+    const bare = toJpegDataUrl(bareJpeg());
+    expect(stripJpegMetadata(bare)).toBe(bare);
+  });
+
+  it('rejects anything that is not a JPEG', () => {
+    expect(() => stripJpegMetadata(`data:image/png;base64,${Buffer.from(PNG_SIGNATURE).toString('base64')}`))
+      .toThrow('Photo is not a JPEG');
+    expect(() => stripJpegMetadata(`data:image/jpeg;base64,${Buffer.from(PNG_SIGNATURE).toString('base64')}`))
+      .toThrow('Photo is not a JPEG');
+  });
+});
+
+describe('uploadReportPhoto', () => {
+  it('strips the metadata from the photo and its thumbnail', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const urls = await uploadReportPhoto('report-1', toJpegDataUrl(exifJpeg()), 'upload-1');
+
+    const uploaded = vi.mocked(uploadString).mock.calls.map(([ref, data]) => [ref.fullPath, data]);
+    expect(uploaded).toEqual([
+      ['reports/report-1/upload-1-full.jpg', toJpegDataUrl(bareJpeg())],
+      ['reports/report-1/upload-1-thumb.jpg', toJpegDataUrl(bareJpeg())],
+    ]);
+    expect(urls).toEqual({
+      photoUrl: 'https://storage.example/reports/report-1/upload-1-full.jpg',
+      thumbnailUrl: 'https://storage.example/reports/report-1/upload-1-thumb.jpg',
+    });
+  });
+});
@@ -0,0 +1,301 @@
+// Minimal JPEG EXIF reader and metadata stripper.
+// Reads the capture location and time from a photo before it is
+// re-encoded, and removes every metadata segment from JPEGs we upload.
+
+export interface PhotoMetadata {
+  location?: { lat: number; lng: number };
+  takenAt?: Date;
+}
+
+// JPEG markers
+const SOI = 0xd8;
+const SOS = 0xda;
+const EOI = 0xd9;
+const APP0 = 0xe0;
+const APP1 = 0xe1;
+const APP15 = 0xef;
+const COM = 0xfe;
+
+// TIFF tags
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+
+// TIFF field types
+const TYPE_ASCII = 2;
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+const TYPE_RATIONAL = 5;
+
+// EXIF is at the start of the file, so only this much is read
+const EXIF_READ_BYTES = 128 * 1024;
+
+interface JpegSegment {
+  marker: number;
+  start: number; // Offset of the 0xFF marker byte
+  end: number; // Offset after the segment
+  dataStart: number; // Offset of the segment payload
+}
+
+// List the segments before the image data (stops at start-of-scan)
+function readJpegSegments(bytes: Uint8Array): JpegSegment[] | null {
+  if (bytes.length < 4 || bytes[0] !== 0xff || bytes[1] !== SOI) {
+    return null;
+  }
+
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      // Fill byte
+      offset++;
+      continue;
+    }
+    if (marker === SOS || marker === EOI) break;
+
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const end = offset + 2 + length;
+    segments.push({ marker, start: offset, end, dataStart: offset + 4 });
+    offset = end;
+  }
+  return segments;
+}
+
+class TiffReader {
+  private view: DataView;
+  private littleEndian: boolean;
+
+  constructor(view: DataView, littleEndian: boolean) {
+    this.view = view;
+    this.littleEndian = littleEndian;
+  }
+
+  get byteLength(): number {
+    return this.view.byteLength;
+  }
+
+  uint16(offset: number): number {
+    return this.view.getUint16(offset, this.littleEndian);
+  }
+
+  uint32(offset: number): number {
+    return this.view.getUint32(offset, this.littleEndian);
+  }
+
+  // Read an IFD into a map of tag -> entry offset
+  readIfd(offset: number): Map<number, number> {
+    const entries = new Map<number, number>();
+    if (offset + 2 > this.view.byteLength) return entries;
+
+    const count = this.uint16(offset);
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      if (entry + 12 > this.view.byteLength) break;
+      entries.set(this.uint16(entry), entry);
+    }
+    return entries;
+  }
+
+  // Offset of an entry's value (inline when it fits in 4 bytes)
+  private valueOffset(entry: number, byteSize: number): number {
+    return byteSize <= 4 ? entry + 8 : this.uint32(entry + 8);
+  }
+
+  readAscii(entry: number): string | null {
+    if (this.uint16(entry + 2) !== TYPE_ASCII) return null;
+    const count = this.uint32(entry + 4);
+    const start = this.valueOffset(entry, count);
+    if (start + count > this.view.byteLength) return null;
+
+    let text = '';
+    for (let i = 0; i < count; i++) {
+      const code = this.view.getUint8(start + i);
+      if (code === 0) break;
+      text += String.fromCharCode(code);
+    }
+    return text;
+  }
+
+  readRationals(entry: number): number[] | null {
+    if (this.uint16(entry + 2) !== TYPE_RATIONAL) return null;
+    const count = this.uint32(entry + 4);
+    const start = this.valueOffset(entry, count * 8);
+    if (start + count * 8 > this.view.byteLength) return null;
+
+    const values: number[] = [];
+    for (let i = 0; i < count; i++) {
+      const numerator = this.uint32(start + i * 8);
+      const denominator = this.uint32(start + i * 8 + 4);
+      values.push(denominator === 0 ? 0 : numerator / denominator);
+    }
+    return values;
+  }
+
+  readPointer(entry: number): number | null {
+    const type = this.uint16(entry + 2);
+    if (type === TYPE_LONG) return this.uint32(entry + 8);
+    if (type === TYPE_SHORT) return this.uint16(entry + 8);
+    return null;
+  }
+}
+
+// Degrees/minutes/seconds with an N/S/E/W reference to signed decimal degrees
+function toDecimalDegrees(dms: number[] | null, ref: string | null): number | null {
+  if (!dms || dms.length < 3 || !ref) return null;
+  const degrees = dms[0] + dms[1] / 60 + dms[2] / 3600;
+  return ref === 'S' || ref === 'W' ? -degrees : degrees;
+}
+
+// EXIF dates are "YYYY:MM:DD HH:MM:SS" in the camera's local time, with an
+// optional "+HH:MM" offset stored separately
+function parseExifDate(value: string | null, offset: string | null): Date | undefined {
+  const match = value?.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return undefined;
+
+  const [, year, month, day, hour, minute, second] = match;
+  const iso = `${year}-${month}-${day}T${hour}:${minute}:${second}`;
+  const date = offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? new Date(iso + offset) : new Date(iso);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function readTiff(reader: TiffReader): PhotoMetadata {
+  const metadata: PhotoMetadata = {};
+  const ifd0 = reader.readIfd(reader.uint32(4));
+
+  const exifEntry = ifd0.get(TAG_EXIF_IFD);
+  const exifOffset = exifEntry !== undefined ? reader.readPointer(exifEntry) : null;
+  if (exifOffset !== null) {
+    const exif = reader.readIfd(exifOffset);
+    const dateEntry = exif.get(TAG_DATE_TIME_ORIGINAL);
+    const offsetEntry = exif.get(TAG_OFFSET_TIME_ORIGINAL);
+    metadata.takenAt = parseExifDate(
+      dateEntry !== undefined ? reader.readAscii(dateEntry) : null,
+      offsetEntry !== undefined ? reader.readAscii(offsetEntry) : null
+    );
+  }
+
+  const gpsEntry = ifd0.get(TAG_GPS_IFD);
+  const gpsOffset = gpsEntry !== undefined ? reader.readPointer(gpsEntry) : null;
+  if (gpsOffset !== null) {
+    const gps = reader.readIfd(gpsOffset);
+    const read = (tag: number) => gps.get(tag);
+    const latEntry = read(TAG_GPS_LATITUDE);
+    const latRefEntry = read(TAG_GPS_LATITUDE_REF);
+    const lngEntry = read(TAG_GPS_LONGITUDE);
+    const lngRefEntry = read(TAG_GPS_LONGITUDE_REF);
+
+    if (latEntry !== undefined && latRefEntry !== undefined && lngEntry !== undefined && lngRefEntry !== undefined) {
+      const lat = toDecimalDegrees(reader.readRationals(latEntry), reader.readAscii(latRefEntry));
+      const lng = toDecimalDegrees(reader.readRationals(lngEntry), reader.readAscii(lngRefEntry));
+      // 0,0 is what some cameras write when they had no fix
+      if (lat !== null && lng !== null && Math.abs(lat) <= 90 && Math.abs(lng) <= 180 && (lat !== 0 || lng !== 0)) {
+        metadata.location = { lat, lng };
+      }
+    }
+  }
+
+  return metadata;
+}
+
+// Read capture location and time from JPEG bytes. Returns null for
+// non-JPEG files or photos without EXIF.
+export function readExif(buffer: ArrayBuffer): PhotoMetadata | null {
+  const bytes = new Uint8Array(buffer);
+  const segments = readJpegSegments(bytes);
+  if (!segments) return null;
+
+  for (const segment of segments) {
+    if (segment.marker !== APP1) continue;
+    // "Exif\0\0" header
+    const header = String.fromCharCode(...bytes.subarray(segment.dataStart, segment.dataStart + 4));
+    if (header !== 'Exif') continue;
+
+    const tiffStart = segment.dataStart + 6;
+    const tiffLength = Math.min(segment.end, bytes.length) - tiffStart;
+    if (tiffLength < 8) return null;
+
+    const view = new DataView(buffer, tiffStart, tiffLength);
+    const byteOrder = view.getUint16(0);
+    if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return null;
+
+    try {
+      return readTiff(new TiffReader(view, byteOrder === 0x4949));
+    } catch (error) {
+      console.warn('Failed to read photo EXIF:', error);
+      return null;
+    }
+  }
+  return null;
+}
+
+// Read capture location and time from an image file
+export async function readPhotoMetadata(file: File): Promise<PhotoMetadata | null> {
+  try {
+    return readExif(await file.slice(0, EXIF_READ_BYTES).arrayBuffer());
+  } catch (error) {
+    console.warn('Failed to read photo metadata:', error);
+    return null;
+  }
+}
+
+function dataUrlToBytes(dataUrl: string): Uint8Array | null {
+  const match = dataUrl.match(/^data:image\/jpeg;base64,(.*)$/);
+  if (!match) return null;
+  const binary = atob(match[1]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function bytesToDataUrl(bytes: Uint8Array): string {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return `data:image/jpeg;base64,${btoa(binary)}`;
+}
+
+// Remove every APPn segment except the JFIF header, and all comments,
+// from a JPEG data URL. Throws if the data isn't a JPEG, so nothing
+// unchecked is uploaded.
+export function stripJpegMetadata(dataUrl: string): string {
+  const bytes = dataUrlToBytes(dataUrl);
+  const segments = bytes && readJpegSegments(bytes);
+  if (!bytes || !segments) {
+    throw new Error('Photo is not a JPEG');
+  }
+
+  const isMetadata = (marker: number) =>
+    (marker > APP0 && marker <= APP15) || marker === COM;
+  if (!segments.some(segment => isMetadata(segment.marker))) {
+    return dataUrl;
+  }
+
+  const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+  let imageStart = 2;
+  for (const segment of segments) {
+    if (!isMetadata(segment.marker)) {
+      parts.push(bytes.subarray(segment.start, segment.end));
+    }
+    imageStart = segment.end;
+  }
+  parts.push(bytes.subarray(imageStart));
+
+  const stripped = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    stripped.set(part, offset);
+    offset += part.length;
+  }
+  return bytesToDataUrl(stripped);
+}
@@ -1,16 +1,22 @@
 import { initializeApp, getApps } from 'firebase/app';
-import { getDatabase } from 'firebase/database';
+import { getDatabase, connectDatabaseEmulator } from 'firebase/database';
+import { getAuth, connectAuthEmulator } from 'firebase/auth';
+import { getStorage, connectStorageEmulator } from 'firebase/storage';
 
 const firebaseConfig = {
   apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY,
   authDomain: process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN,
   projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID || 'glass-alert-app',
-  storageBucket: process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET,
+  storageBucket: process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET || `${process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID || 'glass-alert-app'}.appspot.com`,
   messagingSenderId: process.env.NEXT_PUBLIC_FIREBASE_MESSAGING_SENDER_ID,
   appId: process.env.NEXT_PUBLIC_FIREBASE_APP_ID,
   databaseURL: process.env.NEXT_PUBLIC_FIREBASE_DATABASE_URL || `https://${process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID || 'glass-alert-app'}-default-rtdb.europe-west1.firebasedatabase.app`,
 };
 
+// Point the SDKs at the local Firebase emulators (see "emulators" in firebase.json)
+const USE_EMULATORS = process.env.NEXT_PUBLIC_FIREBASE_USE_EMULATORS === 'true';
+const EMULATOR_HOST = process.env.NEXT_PUBLIC_FIREBASE_EMULATOR_HOST || '127.0.0.1';
+
 // Log Firebase config (without sensitive keys) for debugging
 if (typeof window !== 'undefined') {
   console.log('Firebase config:', {
@@ -19,13 +25,28 @@ if (typeof window !== 'undefined') {
     databaseURL: firebaseConfig.databaseURL,
     hasApiKey: !!firebaseConfig.apiKey,
     hasAppId: !!firebaseConfig.appId,
+    useEmulators: USE_EMULATORS,
   });
 }
 
 // Initialize Firebase only if it hasn't been initialized yet
-const app = getApps().length === 0 ? initializeApp(firebaseConfig) : getApps()[0];
+const isFirstInit = getApps().length === 0;
+const app = isFirstInit ? initializeApp(firebaseConfig) : getApps()[0];
 
 // Initialize Realtime Database
 export const database = getDatabase(app);
 
+// Initialize Auth (used for council admin sign-in)
+export const auth = getAuth(app);
+
+// Initialize Storage (report photos and thumbnails)
+export const storage = getStorage(app);
+
+// Emulators can only be connected once per app instance
+if (USE_EMULATORS && isFirstInit) {
+  connectDatabaseEmulator(database, EMULATOR_HOST, 9000);
+  connectAuthEmulator(auth, `http://${EMULATOR_HOST}:9099`, { disableWarnings: true });
+  connectStorageEmulator(storage, EMULATOR_HOST, 9199);
+}
+
 export default app;
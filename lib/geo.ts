@@ -0,0 +1,210 @@
+// Geospatial helpers for PawSafe: geohash encoding and radius/bounds queries
+
+const BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+// Precision stored on reports (~4.8m x 4.8m cells)
+export const REPORT_GEOHASH_PRECISION = 9;
+
+// Precision used for in-memory bucket indexes (~1.2km x 0.6km cells)
+const INDEX_PRECISION = 6;
+
+const METERS_PER_DEGREE_LAT = 111320;
+
+export interface LatLngBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+interface GeohashCell {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+// Encode a coordinate as a geohash string
+export function encodeGeohash(lat: number, lng: number, precision: number = REPORT_GEOHASH_PRECISION): string {
+  let minLat = -90;
+  let maxLat = 90;
+  let minLng = -180;
+  let maxLng = 180;
+  let hash = '';
+  let bits = 0;
+  let value = 0;
+  let isLng = true;
+
+  while (hash.length < precision) {
+    if (isLng) {
+      const mid = (minLng + maxLng) / 2;
+      if (lng >= mid) {
+        value = (value << 1) | 1;
+        minLng = mid;
+      } else {
+        value = value << 1;
+        maxLng = mid;
+      }
+    } else {
+      const mid = (minLat + maxLat) / 2;
+      if (lat >= mid) {
+        value = (value << 1) | 1;
+        minLat = mid;
+      } else {
+        value = value << 1;
+        maxLat = mid;
+      }
+    }
+    isLng = !isLng;
+
+    if (++bits === 5) {
+      hash += BASE32[value];
+      bits = 0;
+      value = 0;
+    }
+  }
+
+  return hash;
+}
+
+// Decode a geohash to the cell it covers
+function decodeGeohashCell(hash: string): GeohashCell {
+  let minLat = -90;
+  let maxLat = 90;
+  let minLng = -180;
+  let maxLng = 180;
+  let isLng = true;
+
+  for (const char of hash) {
+    const value = BASE32.indexOf(char);
+    for (let bit = 4; bit >= 0; bit--) {
+      const isSet = (value >> bit) & 1;
+      if (isLng) {
+        const mid = (minLng + maxLng) / 2;
+        if (isSet) minLng = mid;
+        else maxLng = mid;
+      } else {
+        const mid = (minLat + maxLat) / 2;
+        if (isSet) minLat = mid;
+        else maxLat = mid;
+      }
+      isLng = !isLng;
+    }
+  }
+
+  return { minLat, maxLat, minLng, maxLng };
+}
+
+// Smallest side of a geohash cell in metres at a given latitude
+function cellSizeMeters(precision: number, lat: number): number {
+  const lngBits = Math.ceil((precision * 5) / 2);
+  const latBits = Math.floor((precision * 5) / 2);
+  const heightMeters = (180 / 2 ** latBits) * METERS_PER_DEGREE_LAT;
+  const widthMeters = (360 / 2 ** lngBits) * METERS_PER_DEGREE_LAT * Math.cos((lat * Math.PI) / 180);
+  return Math.min(heightMeters, widthMeters);
+}
+
+// Longest geohash precision whose cells are at least `meters` across, so a
+// radius query is always covered by a cell and its eight neighbours
+export function geohashPrecisionForRadius(meters: number, lat: number): number {
+  for (let precision = REPORT_GEOHASH_PRECISION; precision > 1; precision--) {
+    if (cellSizeMeters(precision, lat) >= meters) {
+      return precision;
+    }
+  }
+  return 1;
+}
+
+// Geohash cells (centre cell plus neighbours) that cover a circle
+export function geohashesCoveringRadius(lat: number, lng: number, meters: number): string[] {
+  const precision = geohashPrecisionForRadius(meters, lat);
+  const cell = decodeGeohashCell(encodeGeohash(lat, lng, precision));
+  const latStep = cell.maxLat - cell.minLat;
+  const lngStep = cell.maxLng - cell.minLng;
+  const centerLat = (cell.minLat + cell.maxLat) / 2;
+  const centerLng = (cell.minLng + cell.maxLng) / 2;
+
+  const cells = new Set<string>();
+  for (const dLat of [-1, 0, 1]) {
+    for (const dLng of [-1, 0, 1]) {
+      const neighbourLat = centerLat + dLat * latStep;
+      if (neighbourLat < -90 || neighbourLat > 90) continue;
+      // Wrap longitude across the antimeridian
+      const neighbourLng = ((centerLng + dLng * lngStep + 540) % 360) - 180;
+      cells.add(encodeGeohash(neighbourLat, neighbourLng, precision));
+    }
+  }
+
+  return Array.from(cells);
+}
+
+// Check whether a coordinate is inside a bounding box
+export function isWithinBounds(lat: number, lng: number, bounds: LatLngBounds): boolean {
+  if (lat < bounds.south || lat > bounds.north) return false;
+  // Bounds that cross the antimeridian have west > east
+  if (bounds.west <= bounds.east) {
+    return lng >= bounds.west && lng <= bounds.east;
+  }
+  return lng >= bounds.west || lng <= bounds.east;
+}
+
+// Grow bounds by a fraction of their size on every side
+export function padBounds(bounds: LatLngBounds, fraction: number): LatLngBounds {
+  const latPad = (bounds.north - bounds.south) * fraction;
+  const lngSpan = bounds.west <= bounds.east
+    ? bounds.east - bounds.west
+    : bounds.east + 360 - bounds.west;
+  const lngPad = lngSpan * fraction;
+  return {
+    north: Math.min(90, bounds.north + latPad),
+    south: Math.max(-90, bounds.south - latPad),
+    east: bounds.east + lngPad,
+    west: bounds.west - lngPad,
+  };
+}
+
+// In-memory index of items bucketed by geohash prefix, for queries that
+// run on every GPS fix without scanning every report
+export interface GeohashIndex<T> {
+  precision: number;
+  buckets: Map<string, T[]>;
+}
+
+export function createGeohashIndex<T extends { geohash: string }>(items: T[]): GeohashIndex<T> {
+  const buckets = new Map<string, T[]>();
+  for (const item of items) {
+    const key = item.geohash.slice(0, INDEX_PRECISION);
+    const bucket = buckets.get(key);
+    if (bucket) {
+      bucket.push(item);
+    } else {
+      buckets.set(key, [item]);
+    }
+  }
+  return { precision: INDEX_PRECISION, buckets };
+}
+
+// Items in the cells covering a circle (candidates only: callers still
+// check the exact distance)
+export function queryGeohashIndex<T>(index: GeohashIndex<T>, lat: number, lng: number, meters: number): T[] {
+  const cells = geohashesCoveringRadius(lat, lng, meters);
+  const keys = new Set<string>();
+
+  for (const cell of cells) {
+    if (cell.length >= index.precision) {
+      keys.add(cell.slice(0, index.precision));
+    } else {
+      // Large radius: every bucket inside the coarser cell
+      for (const key of index.buckets.keys()) {
+        if (key.startsWith(cell)) keys.add(key);
+      }
+    }
+  }
+
+  const results: T[] = [];
+  for (const key of keys) {
+    const bucket = index.buckets.get(key);
+    if (bucket) results.push(...bucket);
+  }
+  return results;
+}
@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest';
+import { Report } from './db';
+import { GpsFix } from './lookAhead';
+import { calculateDistance } from './utils';
+import {
+  DEFAULT_GPS_FILTER_OPTIONS,
+  ENTRY_CONFIDENCE,
+  EXIT_CONFIDENCE,
+  FilteredFix,
+  GpsFilterState,
+  filterFix,
+  proximityConfidence,
+  stepProximity,
+} from './gpsFilter';
+import { TRACE_START, hazardAt, offsetPosition, simulateWalk } from './__fixtures__/walkTraces';
+
+const SEEDS = Array.from({ length: 30 }, (_, i) => i + 1);
+
+interface Replay {
+  entries: { id: string; index: number }[];
+  filtered: (FilteredFix | null)[];
+}
+
+// Feed a trace through the filter and proximity steps, as the alerts hook does
+function replay(fixes: GpsFix[], reports: Report[]): Replay {
+  let state: GpsFilterState | null = null;
+  let inside = new Map<string, number>();
+  const result: Replay = { entries: [], filtered: [] };
+
+  fixes.forEach((raw, index) => {
+    const { state: next, fix } = filterFix(state, raw);
+    state = next;
+    result.filtered.push(fix);
+    if (!fix) return;
+
+    const step = stepProximity(inside, fix, reports);
+    inside = step.inside;
+    result.entries.push(...step.newlyEntered.map(id => ({ id, index })));
+  });
+  return result;
+}
+
+// A hazard `along` metres up a northbound walk from the trace start,
+// `lateral` metres east of it
+function hazardBeside(along: number, lateral: number, severity: Report['severity']): Report {
+  return hazardAt('hazard', offsetPosition(offsetPosition(TRACE_START, 0, along), 90, lateral), severity);
+}
+
+describe('proximityConfidence', () => {
+  it('is even at the edge of the radius', () => {
+    expect(proximityConfidence(10, 10, 10)).toBeCloseTo(0.5, 5);
+  });
+
+  it('rises inside the radius and falls outside it', () => {
+    expect(proximityConfidence(5, 10, 10)).toBeGreaterThan(0.5);
+    expect(proximityConfidence(15, 10, 10)).toBeLessThan(0.5);
+  });
+
+  it('needs a bigger margin inside the radius for a worse fix', () => {
+    expect(proximityConfidence(9, 10, 2)).toBeGreaterThanOrEqual(ENTRY_CONFIDENCE);
+    expect(proximityConfidence(9, 10, 20)).toBeLessThan(ENTRY_CONFIDENCE);
+    expect(proximityConfidence(2, 10, 20)).toBeGreaterThanOrEqual(ENTRY_CONFIDENCE);
+  });
+
+  it('keeps a gap between entering and leaving', () => {
+    expect(EXIT_CONFIDENCE).toBeLessThan(ENTRY_CONFIDENCE);
+  });
+});
+
+describe('filterFix', () => {
+  const start = { lat: TRACE_START.lat, lng: TRACE_START.lng, timestamp: 0, accuracy: 10 };
+
+  it('starts from the first fix', () => {
+    const { state, fix } = filterFix(null, start);
+    expect(fix).toMatchObject({ lat: start.lat, lng: start.lng });
+    expect(fix!.accuracy).toBeCloseTo(10, 5);
+    expect(state.rejections).toBe(0);
+  });
+
+  it('rejects a jump until it repeats', () => {
+    let { state } = filterFix(null, start);
+    const jumped = { ...offsetPosition(TRACE_START, 90, 200), timestamp: 1000, accuracy: 10 };
+
+    for (let i = 1; i < DEFAULT_GPS_FILTER_OPTIONS.maxRejections; i++) {
+      const result = filterFix(state, { ...jumped, timestamp: i * 1000 });
+      expect(result.fix).toBeNull();
+      state = result.state;
+    }
+
+    const accepted = filterFix(state, { ...jumped, timestamp: DEFAULT_GPS_FILTER_OPTIONS.maxRejections * 1000 });
+    expect(accepted.fix).toMatchObject({ lat: jumped.lat, lng: jumped.lng });
+  });
+
+  it('starts over after a long gap', () => {
+    const { state } = filterFix(null, start);
+    const later = { ...offsetPosition(TRACE_START, 0, 500), timestamp: DEFAULT_GPS_FILTER_OPTIONS.resetAfterMs + 1, accuracy: 10 };
+    expect(filterFix(state, later).fix).toMatchObject({ lat: later.lat, lng: later.lng });
+  });
+});
+
+describe('replaying noisy traces', () => {
+  it('smooths a standing fix towards the true position', () => {
+    const fixes = simulateWalk([{ bearing: 0, seconds: 60 }], { speed: 0, accuracy: 20 });
+    const { filtered } = replay(fixes, []);
+    const error = (fix: { lat: number; lng: number }) =>
+      calculateDistance(fix.lat, fix.lng, TRACE_START.lat, TRACE_START.lng);
+    const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+    const settled = fixes.slice(10);
+    expect(mean(filtered.slice(10).map(fix => error(fix!)))).toBeLessThan(mean(settled.map(error)) / 2);
+    expect(filtered[filtered.length - 1]!.accuracy).toBeLessThan(20);
+  });
+
+  it('alerts once when walking over a hazard', () => {
+    for (const seed of SEEDS) {
+      const fixes = simulateWalk([{ bearing: 0, seconds: 60 }], { accuracy: 10, seed });
+      expect(replay(fixes, [hazardBeside(42, 0, 'severe')]).entries, `seed ${seed}`).toHaveLength(1);
+    }
+  });
+
+  it('alerts once when walking just beside a hazard with a good fix', () => {
+    for (const seed of SEEDS) {
+      const fixes = simulateWalk([{ bearing: 0, seconds: 60 }], { accuracy: 5, seed });
+      expect(replay(fixes, [hazardBeside(42, 3, 'moderate')]).entries, `seed ${seed}`).toHaveLength(1);
+    }
+  });
+
+  it('does not alert for a hazard the walk passes well clear of', () => {
+    for (const seed of SEEDS) {
+      const fixes = simulateWalk([{ bearing: 0, seconds: 60 }], { accuracy: 25, seed });
+      expect(replay(fixes, [hazardBeside(42, 20, 'severe')]).entries, `seed ${seed}`).toHaveLength(0);
+    }
+  });
+
+  it('does not alert on noise when standing outside the entry radius', () => {
+    // A 0.5 entry threshold alerted on several of these seeds
+    for (const seed of SEEDS) {
+      const moderate = simulateWalk([{ bearing: 0, seconds: 120 }], { speed: 0, accuracy: 15, seed });
+      expect(replay(moderate, [hazardBeside(0, 12, 'moderate')]).entries, `seed ${seed}`).toHaveLength(0);
+
+      const minor = simulateWalk([{ bearing: 0, seconds: 120 }], { speed: 0, accuracy: 25, seed });
+      expect(replay(minor, [hazardBeside(0, 10, 'minor')]).entries, `seed ${seed}`).toHaveLength(0);
+    }
+  });
+
+  it('does not repeat an alert while standing at the edge of a hazard', () => {
+    for (const seed of SEEDS) {
+      const fixes = simulateWalk([{ bearing: 0, seconds: 120 }], { speed: 0, accuracy: 15, seed });
+      expect(replay(fixes, [hazardBeside(0, 10, 'severe')]).entries.length, `seed ${seed}`).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('ignores multipath jumps onto a hazard', () => {
+    const jumps = [15, 30, 45];
+    for (const seed of SEEDS) {
+      const fixes = simulateWalk([{ bearing: 0, seconds: 60 }], { accuracy: 10, seed });
+      // Move each jumped fix right onto the hazard
+      const hazard = hazardBeside(42, 25, 'severe');
+      for (const index of jumps) {
+        fixes[index] = { ...fixes[index], lat: hazard.lat, lng: hazard.lng };
+      }
+      const { entries, filtered } = replay(fixes, [hazard]);
+      expect(entries, `seed ${seed}`).toHaveLength(0);
+      expect(jumps.every(index => filtered[index] === null || calculateDistance(
+        filtered[index]!.lat, filtered[index]!.lng, hazard.lat, hazard.lng
+      ) > 10)).toBe(true);
+    }
+  });
+});
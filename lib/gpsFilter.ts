@@ -0,0 +1,166 @@
+// GPS smoothing and accuracy-aware proximity decisions.
+// Pure functions, so recorded traces can be replayed through
+// filterFix() and stepProximity() without a browser.
+
+import { Report } from './db';
+import { calculateDistance } from './utils';
+import { GpsFix } from './lookAhead';
+import { ALERT_RADIUS_BY_SEVERITY, DEFAULT_HAZARD_SEVERITY } from './hazards';
+
+// Geolocation accuracy is a 95% confidence radius; for a 2D normal
+// error that is about 2.45 standard deviations
+const ACCURACY_TO_SIGMA = 1 / 2.45;
+
+export interface GpsFilterOptions {
+  processNoise: number; // m/s of expected movement uncertainty (walking pace)
+  maxSpeed: number; // m/s; faster implied movement is treated as a jump
+  maxRejections: number; // Consecutive jumps accepted as a real move after this many
+  resetAfterMs: number; // Start over after a gap this long
+  maxUsableAccuracy: number; // Fixes worse than this (m) never start or clear alerts
+}
+
+export const DEFAULT_GPS_FILTER_OPTIONS: GpsFilterOptions = {
+  processNoise: 1.5,
+  maxSpeed: 10,
+  maxRejections: 3,
+  resetAfterMs: 60000,
+  maxUsableAccuracy: 50,
+};
+
+export interface GpsFilterState {
+  lat: number;
+  lng: number;
+  variance: number; // m²
+  timestamp: number;
+  rejections: number; // Consecutive rejected fixes
+}
+
+export interface FilteredFix extends GpsFix {
+  accuracy: number; // 95% radius of the filtered estimate, m
+}
+
+export interface GpsFilterResult {
+  state: GpsFilterState;
+  fix: FilteredFix | null; // Null when the fix was rejected as an outlier
+}
+
+function fixVariance(fix: GpsFix): number {
+  // Devices occasionally report 0 or nothing; assume a typical phone fix
+  const accuracy = fix.accuracy && fix.accuracy > 0 ? fix.accuracy : 20;
+  const sigma = accuracy * ACCURACY_TO_SIGMA;
+  return sigma * sigma;
+}
+
+function toFilteredFix(fix: GpsFix, state: GpsFilterState): FilteredFix {
+  return { ...fix, lat: state.lat, lng: state.lng, accuracy: Math.sqrt(state.variance) / ACCURACY_TO_SIGMA };
+}
+
+// Feed one raw fix through a simple Kalman filter with jump rejection
+export function filterFix(
+  state: GpsFilterState | null,
+  fix: GpsFix,
+  options: GpsFilterOptions = DEFAULT_GPS_FILTER_OPTIONS
+): GpsFilterResult {
+  const measurementVariance = fixVariance(fix);
+  const fresh = (): GpsFilterResult => {
+    const next = { lat: fix.lat, lng: fix.lng, variance: measurementVariance, timestamp: fix.timestamp, rejections: 0 };
+    return { state: next, fix: toFilteredFix(fix, next) };
+  };
+
+  if (!state || fix.timestamp - state.timestamp > options.resetAfterMs) {
+    return fresh();
+  }
+
+  const seconds = Math.max(0, (fix.timestamp - state.timestamp) / 1000);
+
+  // Reject jumps that would need an implausible speed, allowing for the
+  // uncertainty of both positions
+  const distance = calculateDistance(state.lat, state.lng, fix.lat, fix.lng);
+  const slack = (Math.sqrt(state.variance) + Math.sqrt(measurementVariance)) / ACCURACY_TO_SIGMA;
+  const impliedSpeed = Math.max(0, distance - slack) / Math.max(seconds, 1);
+  if (impliedSpeed > options.maxSpeed) {
+    // A run of consistent "jumps" is a real move (e.g. leaving a tunnel)
+    if (state.rejections + 1 >= options.maxRejections) {
+      return fresh();
+    }
+    return { state: { ...state, rejections: state.rejections + 1 }, fix: null };
+  }
+
+  // Predict: uncertainty grows with time as the walker may have moved
+  const predictedVariance = state.variance + seconds * options.processNoise * options.processNoise;
+
+  // Update
+  const gain = predictedVariance / (predictedVariance + measurementVariance);
+  const next: GpsFilterState = {
+    lat: state.lat + gain * (fix.lat - state.lat),
+    lng: state.lng + gain * (fix.lng - state.lng),
+    variance: (1 - gain) * predictedVariance,
+    timestamp: fix.timestamp,
+    rejections: 0,
+  };
+  return { state: next, fix: toFilteredFix(fix, next) };
+}
+
+// Standard normal cumulative distribution (Abramowitz & Stegun 7.1.26)
+function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))))
+    * Math.exp(-(x * x) / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+// Probability (0-1) that the user is really within `radius` of a hazard
+// `distance` away, given a position with the given 95% accuracy
+export function proximityConfidence(distance: number, radius: number, accuracy: number): number {
+  const sigma = Math.max(accuracy * ACCURACY_TO_SIGMA, 0.5);
+  return normalCdf((radius - distance) / sigma);
+}
+
+// Confidence needed to start alerting, and below which an alert ends.
+// Entry at 0.8 puts the estimate about 0.84 sigma inside the radius, so
+// the worse the fix the closer it has to be; 0.5 would ignore accuracy.
+export const ENTRY_CONFIDENCE = 0.8;
+export const EXIT_CONFIDENCE = 0.2;
+
+export interface ProximityStep {
+  inside: Map<string, number>; // Report id -> confidence, for reports now alerting
+  newlyEntered: string[];
+  confidence: number; // Highest confidence among alerting reports, 0 if none
+}
+
+// Decide which reports the user is near. Entry uses the severity's entry
+// radius; once alerting, a report stays until confidence of being within
+// its exit radius drops below EXIT_CONFIDENCE. Fixes too inaccurate to
+// tell either way leave the previous decision unchanged. `radiusMultiplier`
+// scales the radii for users who want earlier or fewer alerts.
+export function stepProximity(
+  previous: Map<string, number>,
+  fix: FilteredFix,
+  reports: Report[],
+  radiusMultiplier: number = 1,
+  options: GpsFilterOptions = DEFAULT_GPS_FILTER_OPTIONS
+): ProximityStep {
+  if (fix.accuracy > options.maxUsableAccuracy) {
+    return { inside: previous, newlyEntered: [], confidence: Math.max(0, ...previous.values()) };
+  }
+
+  const inside = new Map<string, number>();
+  for (const report of reports) {
+    const distance = calculateDistance(fix.lat, fix.lng, report.lat, report.lng);
+    const radius = ALERT_RADIUS_BY_SEVERITY[report.severity ?? DEFAULT_HAZARD_SEVERITY];
+
+    if (previous.has(report.id)) {
+      const confidence = proximityConfidence(distance, radius.exit * radiusMultiplier, fix.accuracy);
+      if (confidence >= EXIT_CONFIDENCE) inside.set(report.id, confidence);
+    } else {
+      const confidence = proximityConfidence(distance, radius.entry * radiusMultiplier, fix.accuracy);
+      if (confidence >= ENTRY_CONFIDENCE) inside.set(report.id, confidence);
+    }
+  }
+
+  return {
+    inside,
+    newlyEntered: Array.from(inside.keys()).filter(id => !previous.has(id)),
+    confidence: Math.max(0, ...inside.values()),
+  };
+}
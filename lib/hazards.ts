@@ -0,0 +1,62 @@
+// Hazard categories and severity levels for reports
+
+export type HazardCategory =
+  | 'glass'
+  | 'needles'
+  | 'sharpMetal'
+  | 'nails'
+  | 'chemicals'
+  | 'poison'
+  | 'other';
+
+export type HazardSeverity = 'minor' | 'moderate' | 'severe';
+
+export interface HazardCategoryInfo {
+  label: string;
+  icon: string; // Emoji shown in pickers and map pins
+  color: string; // Pin colour
+}
+
+export const HAZARD_CATEGORIES: Record<HazardCategory, HazardCategoryInfo> = {
+  glass: { label: 'Broken Glass', icon: '🍾', color: '#f59e0b' },
+  needles: { label: 'Needles', icon: '💉', color: '#dc2626' },
+  sharpMetal: { label: 'Sharp Cans / Metal', icon: '🥫', color: '#64748b' },
+  nails: { label: 'Nails / Screws', icon: '🔩', color: '#78716c' },
+  chemicals: { label: 'Spilled Chemicals', icon: '🧪', color: '#7c3aed' },
+  poison: { label: 'Rat Poison', icon: '☠️', color: '#111827' },
+  other: { label: 'Other Hazard', icon: '⚠️', color: '#ea580c' },
+};
+
+export const HAZARD_CATEGORY_ORDER = Object.keys(HAZARD_CATEGORIES) as HazardCategory[];
+
+export const HAZARD_SEVERITIES: Record<HazardSeverity, { label: string; description: string }> = {
+  minor: { label: 'Minor', description: 'A few small pieces, easy to avoid' },
+  moderate: { label: 'Moderate', description: 'Scattered across part of the path' },
+  severe: { label: 'Severe', description: 'Covers the path or is very dangerous' },
+};
+
+export const HAZARD_SEVERITY_ORDER = Object.keys(HAZARD_SEVERITIES) as HazardSeverity[];
+
+// Reports created before categories existed were all broken glass
+export const DEFAULT_HAZARD_CATEGORY: HazardCategory = 'glass';
+export const DEFAULT_HAZARD_SEVERITY: HazardSeverity = 'moderate';
+
+// Proximity alert radii per severity: alert when within `entry` metres,
+// stay alerted until beyond `exit` (the buffer prevents flicker)
+export const ALERT_RADIUS_BY_SEVERITY: Record<HazardSeverity, { entry: number; exit: number }> = {
+  minor: { entry: 3, exit: 6 },
+  moderate: { entry: 5, exit: 10 },
+  severe: { entry: 10, exit: 20 },
+};
+
+export const MAX_ALERT_EXIT_RADIUS = Math.max(
+  ...Object.values(ALERT_RADIUS_BY_SEVERITY).map(radius => radius.exit)
+);
+
+export function isHazardCategory(value: unknown): value is HazardCategory {
+  return typeof value === 'string' && value in HAZARD_CATEGORIES;
+}
+
+export function isHazardSeverity(value: unknown): value is HazardSeverity {
+  return typeof value === 'string' && value in HAZARD_SEVERITIES;
+}
@@ -0,0 +1,88 @@
+// Hazard density for the heatmap layer. Resolved reports are kept: the
+// heatmap shows where hazards turn up over time, not what is there now.
+
+import { Report } from './db';
+import { HazardSeverity, DEFAULT_HAZARD_SEVERITY } from './hazards';
+
+export type HeatmapDayFilter = 'all' | 'weekdays' | 'weekends';
+
+export interface HeatmapFilter {
+  windowEnd: number; // ms; reports up to the end of this day are shown
+  windowDays: number | null; // Days before windowEnd to include (null = all time)
+  days: HeatmapDayFilter;
+}
+
+export interface HeatmapPoint {
+  lat: number;
+  lng: number;
+  weight: number;
+}
+
+export const HEATMAP_SEVERITY_WEIGHT: Record<HazardSeverity, number> = {
+  minor: 1,
+  moderate: 2,
+  severe: 4,
+};
+
+export const HEATMAP_WINDOW_OPTIONS: { days: number | null; label: string }[] = [
+  { days: 7, label: 'Week' },
+  { days: 30, label: 'Month' },
+  { days: 90, label: '3 months' },
+  { days: null, label: 'All time' },
+];
+
+export const HEATMAP_DAY_FILTERS: Record<HeatmapDayFilter, string> = {
+  all: 'Every day',
+  weekdays: 'Weekdays',
+  weekends: 'Weekends',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Start of the local day containing a timestamp
+export function startOfDay(timestamp: number): number {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+// First and last report days, for the time slider's range
+export function getReportDateRange(reports: Report[]): { start: number; end: number } | null {
+  const times = reports.map(report => new Date(report.date).getTime()).filter(time => !isNaN(time));
+  if (times.length === 0) return null;
+  return { start: startOfDay(Math.min(...times)), end: startOfDay(Math.max(...times)) };
+}
+
+// All time, up to the latest report
+export function defaultHeatmapFilter(range: { start: number; end: number } | null): HeatmapFilter {
+  return { windowEnd: range?.end ?? 0, windowDays: null, days: 'all' };
+}
+
+// Weekend by the viewer's local time (Saturday and Sunday)
+function isWeekend(date: Date): boolean {
+  const day = date.getDay();
+  return day === 0 || day === 6;
+}
+
+export function filterReportsByTime(reports: Report[], filter: HeatmapFilter): Report[] {
+  const end = startOfDay(filter.windowEnd) + DAY_MS;
+  const start = filter.windowDays === null ? -Infinity : end - filter.windowDays * DAY_MS;
+
+  return reports.filter(report => {
+    const date = new Date(report.date);
+    const time = date.getTime();
+    if (isNaN(time) || time < start || time >= end) return false;
+    if (filter.days === 'weekdays') return !isWeekend(date);
+    if (filter.days === 'weekends') return isWeekend(date);
+    return true;
+  });
+}
+
+// One weighted point per report, so density reflects count and severity
+export function toHeatmapPoints(reports: Report[]): HeatmapPoint[] {
+  return reports.map(report => ({
+    lat: report.lat,
+    lng: report.lng,
+    weight: HEATMAP_SEVERITY_WEIGHT[report.severity ?? DEFAULT_HAZARD_SEVERITY],
+  }));
+}
@@ -0,0 +1,236 @@
+import { describe, expect, it } from 'vitest';
+import { Report } from './db';
+import { GpsFilterState, filterFix } from './gpsFilter';
+import {
+  DEFAULT_LOOK_AHEAD_OPTIONS,
+  GpsFix,
+  HazardAhead,
+  INITIAL_LOOK_AHEAD_STATE,
+  LookAheadState,
+  angleDifference,
+  bearingBetween,
+  deriveHeading,
+  describeHazardAhead,
+  estimateSpeed,
+  findHazardsAhead,
+  lookAheadDistance,
+  updateLookAhead,
+} from './lookAhead';
+import { Position, TRACE_START, WalkOptions, hazardAt, offsetPosition, simulateWalk } from './__fixtures__/walkTraces';
+
+const SEEDS = Array.from({ length: 30 }, (_, i) => i + 1);
+
+interface Announcement {
+  index: number;
+  hazard: HazardAhead;
+}
+
+// Feed a trace through the GPS filter and the look-ahead, as the alerts
+// hook does, collecting each announcement
+function replay(fixes: GpsFix[], reports: Report[]): Announcement[] {
+  let filterState: GpsFilterState | null = null;
+  let state: LookAheadState = INITIAL_LOOK_AHEAD_STATE;
+  const announcements: Announcement[] = [];
+
+  fixes.forEach((raw, index) => {
+    const { state: nextFilterState, fix } = filterFix(filterState, raw);
+    filterState = nextFilterState;
+    if (!fix) return;
+
+    const update = updateLookAhead(state, fix, reports);
+    state = update.state;
+    announcements.push(...update.newAlerts.map(hazard => ({ index, hazard })));
+  });
+  return announcements;
+}
+
+// The side reported for each fix the hazard was ahead
+function replaySides(fixes: GpsFix[], reports: Report[]): HazardAhead['side'][] {
+  let filterState: GpsFilterState | null = null;
+  let state: LookAheadState = INITIAL_LOOK_AHEAD_STATE;
+  const sides: HazardAhead['side'][] = [];
+
+  for (const raw of fixes) {
+    const { state: nextFilterState, fix } = filterFix(filterState, raw);
+    filterState = nextFilterState;
+    if (!fix) continue;
+
+    const update = updateLookAhead(state, fix, reports);
+    state = update.state;
+    sides.push(...update.hazardsAhead.map(hazard => hazard.side));
+  }
+  return sides;
+}
+
+// `along` metres north of `from`, `lateral` metres east of that
+function beside(from: Position, along: number, lateral: number): Position {
+  return offsetPosition(offsetPosition(from, 0, along), 90, lateral);
+}
+
+function walkNorth(seconds: number, options: WalkOptions = {}): GpsFix[] {
+  return simulateWalk([{ bearing: 0, seconds }], options);
+}
+
+describe('bearings', () => {
+  it('measures bearings clockwise from north', () => {
+    expect(bearingBetween(TRACE_START.lat, TRACE_START.lng, TRACE_START.lat + 0.001, TRACE_START.lng)).toBeCloseTo(0, 5);
+    const east = offsetPosition(TRACE_START, 90, 100);
+    expect(bearingBetween(TRACE_START.lat, TRACE_START.lng, east.lat, east.lng)).toBeCloseTo(90, 1);
+    const southWest = offsetPosition(TRACE_START, 225, 100);
+    expect(bearingBetween(TRACE_START.lat, TRACE_START.lng, southWest.lat, southWest.lng)).toBeCloseTo(225, 1);
+  });
+
+  it('takes the short way round between bearings, negative to the left', () => {
+    expect(angleDifference(350, 10)).toBe(20);
+    expect(angleDifference(10, 350)).toBe(-20);
+    expect(angleDifference(90, 270)).toBe(180);
+    expect(angleDifference(270, 90)).toBe(180);
+  });
+});
+
+describe('deriveHeading', () => {
+  it('uses the device heading while moving', () => {
+    const fixes = walkNorth(3, { withHeading: true });
+    expect(deriveHeading([{ ...fixes[2], heading: 45 }])).toBe(45);
+  });
+
+  it('ignores the device heading when standing still', () => {
+    const fix = { ...TRACE_START, timestamp: 0, heading: 45, speed: 0.1 };
+    expect(deriveHeading([fix])).toBeNull();
+  });
+
+  it('derives the heading from recent fixes', () => {
+    const fixes = simulateWalk([{ bearing: 135, seconds: 8 }], { accuracy: 0 });
+    expect(deriveHeading(fixes)).toBeCloseTo(135, 0);
+  });
+
+  it('waits until the walker has moved far enough', () => {
+    const fixes = simulateWalk([{ bearing: 135, seconds: 3 }], { accuracy: 0 });
+    expect(deriveHeading(fixes)).toBeNull();
+  });
+});
+
+describe('estimateSpeed', () => {
+  it('uses the device speed when it has one', () => {
+    expect(estimateSpeed(walkNorth(3, { withHeading: true, speed: 1.2 }))).toBe(1.2);
+  });
+
+  it('derives the speed from recent fixes', () => {
+    expect(estimateSpeed(walkNorth(8, { accuracy: 0, speed: 1.5 }))).toBeCloseTo(1.5, 1);
+  });
+});
+
+describe('lookAheadDistance', () => {
+  it('scales with speed between the minimum and maximum', () => {
+    const { minLookAhead, maxLookAhead, lookAheadSeconds } = DEFAULT_LOOK_AHEAD_OPTIONS;
+    expect(lookAheadDistance(0)).toBe(minLookAhead);
+    expect(lookAheadDistance(1.5)).toBe(1.5 * lookAheadSeconds);
+    expect(lookAheadDistance(10)).toBe(maxLookAhead);
+  });
+});
+
+describe('findHazardsAhead', () => {
+  const reports = [
+    hazardAt('ahead', beside(TRACE_START, 30, 1)),
+    hazardAt('left', beside(TRACE_START, 25, -8)),
+    hazardAt('right', beside(TRACE_START, 40, 10)),
+    hazardAt('outside-cone', beside(TRACE_START, 20, -15)),
+    hazardAt('too-close', beside(TRACE_START, 5, 0)),
+    hazardAt('too-far', beside(TRACE_START, 60, 0)),
+    hazardAt('behind', beside(TRACE_START, -30, 0)),
+  ];
+
+  it('finds hazards in the forward cone, nearest first', () => {
+    const found = findHazardsAhead(TRACE_START, 0, 50, reports);
+    expect(found.map(hazard => hazard.report.id)).toEqual(['left', 'ahead', 'right']);
+    expect(found.map(hazard => hazard.side)).toEqual(['left', 'ahead', 'right']);
+  });
+
+  it('turns the cone with the heading', () => {
+    // Facing east, everything north of the walker is off to the left
+    expect(findHazardsAhead(TRACE_START, 90, 50, reports)).toEqual([]);
+    const east = hazardAt('east', offsetPosition(TRACE_START, 90, 30));
+    expect(findHazardsAhead(TRACE_START, 90, 50, [east]).map(hazard => hazard.side)).toEqual(['ahead']);
+  });
+
+  it('describes where the hazard is', () => {
+    const [left, ahead] = findHazardsAhead(TRACE_START, 0, 50, reports);
+    expect(describeHazardAhead(left)).toBe('25 m ahead on your left');
+    expect(describeHazardAhead(ahead)).toBe('30 m straight ahead');
+  });
+});
+
+describe('replaying noisy traces', () => {
+  const sideCases: { name: string; lateral: number; side: HazardAhead['side'] }[] = [
+    { name: 'to the left', lateral: -8, side: 'left' },
+    { name: 'to the right', lateral: 8, side: 'right' },
+  ];
+
+  for (const { name, lateral, side } of sideCases) {
+    it(`announces a hazard ${name} once, on that side`, () => {
+      for (const seed of SEEDS) {
+        const fixes = walkNorth(40, { accuracy: 5, withHeading: true, seed });
+        const announcements = replay(fixes, [hazardAt('hazard', beside(TRACE_START, 45, lateral))]);
+
+        expect(announcements, `seed ${seed}`).toHaveLength(1);
+        expect(announcements[0].hazard.side, `seed ${seed}`).toBe(side);
+        expect(announcements[0].hazard.distance, `seed ${seed}`).toBeGreaterThanOrEqual(DEFAULT_LOOK_AHEAD_OPTIONS.minDistance);
+      }
+    });
+  }
+
+  it('announces a hazard on the path once, mostly as straight ahead', () => {
+    // A couple of metres of position error can put it just off the path
+    for (const seed of SEEDS) {
+      const fixes = walkNorth(40, { accuracy: 5, withHeading: true, seed });
+      const reports = [hazardAt('hazard', beside(TRACE_START, 45, 0))];
+
+      expect(replay(fixes, reports), `seed ${seed}`).toHaveLength(1);
+      const sides = replaySides(fixes, reports);
+      expect(sides.filter(side => side === 'ahead').length / sides.length, `seed ${seed}`).toBeGreaterThan(0.5);
+    }
+  });
+
+  it('mostly places the hazard on the right side with a derived heading', () => {
+    // Without a device heading the side can flip on a noisy fix, but over
+    // the approach it should be the one reported
+    for (const seed of SEEDS) {
+      const fixes = walkNorth(40, { accuracy: 5, seed });
+      const sides = replaySides(fixes, [hazardAt('hazard', beside(TRACE_START, 45, -8))]);
+
+      expect(sides.length, `seed ${seed}`).toBeGreaterThan(0);
+      expect(sides.filter(side => side === 'left').length / sides.length, `seed ${seed}`).toBeGreaterThan(0.5);
+    }
+  });
+
+  it('stays quiet about hazards behind or well beside the path', () => {
+    for (const seed of SEEDS) {
+      const fixes = walkNorth(40, { accuracy: 5, withHeading: true, seed });
+      const reports = [
+        hazardAt('behind', beside(TRACE_START, -20, 0)),
+        hazardAt('beside', beside(TRACE_START, 30, 25)),
+      ];
+      expect(replay(fixes, reports), `seed ${seed}`).toEqual([]);
+    }
+  });
+
+  it('announces a hazard only once the walker turns towards it', () => {
+    // East for 20 s, then north; the hazard is north of the corner
+    const corner = offsetPosition(TRACE_START, 90, 28);
+    for (const seed of SEEDS) {
+      const fixes = simulateWalk([{ bearing: 90, seconds: 20 }, { bearing: 0, seconds: 20 }], { accuracy: 5, withHeading: true, seed });
+      const announcements = replay(fixes, [hazardAt('hazard', beside(corner, 30, -8))]);
+
+      expect(announcements, `seed ${seed}`).toHaveLength(1);
+      expect(announcements[0].index, `seed ${seed}`).toBeGreaterThanOrEqual(20);
+      expect(announcements[0].hazard.side, `seed ${seed}`).toBe('left');
+    }
+  });
+
+  it('stays quiet while standing still', () => {
+    for (const seed of SEEDS) {
+      const fixes = walkNorth(60, { speed: 0, accuracy: 5, seed });
+      expect(replay(fixes, [hazardAt('hazard', beside(TRACE_START, 25, 0))]), `seed ${seed}`).toEqual([]);
+    }
+  });
+});
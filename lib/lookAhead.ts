@@ -0,0 +1,203 @@
+// Route-ahead hazard detection from walking heading and speed.
+// Everything here is pure (no browser APIs), so recorded GPS traces can be
+// replayed through updateLookAhead() to check which alerts would fire.
+
+import { Report } from './db';
+import { calculateDistance } from './utils';
+
+export interface GpsFix {
+  lat: number;
+  lng: number;
+  timestamp: number; // ms
+  heading?: number | null; // Degrees clockwise from north, from the device
+  speed?: number | null; // m/s, from the device
+  accuracy?: number; // metres
+}
+
+export type HazardSide = 'ahead' | 'left' | 'right';
+
+export interface HazardAhead {
+  report: Report;
+  distance: number; // metres
+  relativeBearing: number; // Degrees from the heading, negative = left
+  side: HazardSide;
+}
+
+export interface LookAheadOptions {
+  minDistance: number; // Ignore hazards closer than this (proximity alerts cover them)
+  minLookAhead: number; // Look-ahead distance when walking slowly
+  maxLookAhead: number; // Look-ahead distance when moving fast
+  lookAheadSeconds: number; // Seconds of travel to look ahead
+  coneHalfAngle: number; // Degrees either side of the heading
+  pathHalfWidth: number; // Metres either side of the heading counted as "ahead"
+  minSpeed: number; // m/s below which the walker is treated as standing still
+  headingWindowMs: number; // How far back fixes are used to derive heading
+  minHeadingDistance: number; // Metres moved before a derived heading is trusted
+}
+
+export const DEFAULT_LOOK_AHEAD_OPTIONS: LookAheadOptions = {
+  minDistance: 10,
+  minLookAhead: 20,
+  maxLookAhead: 50,
+  lookAheadSeconds: 20,
+  coneHalfAngle: 30,
+  pathHalfWidth: 2,
+  minSpeed: 0.4,
+  headingWindowMs: 10000,
+  minHeadingDistance: 5,
+};
+
+// Convert a browser position to a fix
+export function toGpsFix(position: GeolocationPosition): GpsFix {
+  const { latitude, longitude, heading, speed, accuracy } = position.coords;
+  return { lat: latitude, lng: longitude, timestamp: position.timestamp, heading, speed, accuracy };
+}
+
+// Initial bearing from one point to another, degrees clockwise from north
+export function bearingBetween(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const phi1 = (lat1 * Math.PI) / 180;
+  const phi2 = (lat2 * Math.PI) / 180;
+  const deltaLambda = ((lng2 - lng1) * Math.PI) / 180;
+  const y = Math.sin(deltaLambda) * Math.cos(phi2);
+  const x = Math.cos(phi1) * Math.sin(phi2) - Math.sin(phi1) * Math.cos(phi2) * Math.cos(deltaLambda);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+
+// Signed difference between two bearings, in (-180, 180]
+export function angleDifference(from: number, to: number): number {
+  const diff = ((to - from) % 360 + 540) % 360 - 180;
+  return diff === -180 ? 180 : diff;
+}
+
+// Walking speed in m/s: the device's value, or derived from recent fixes
+export function estimateSpeed(fixes: GpsFix[], options: LookAheadOptions = DEFAULT_LOOK_AHEAD_OPTIONS): number {
+  const latest = fixes[fixes.length - 1];
+  if (!latest) return 0;
+  if (typeof latest.speed === 'number' && latest.speed >= 0) return latest.speed;
+
+  const oldest = fixes.find(fix => latest.timestamp - fix.timestamp <= options.headingWindowMs);
+  if (!oldest || oldest === latest) return 0;
+  const seconds = (latest.timestamp - oldest.timestamp) / 1000;
+  if (seconds <= 0) return 0;
+  return calculateDistance(oldest.lat, oldest.lng, latest.lat, latest.lng) / seconds;
+}
+
+// Direction of travel: the device's heading while moving, otherwise the
+// bearing from the oldest fix in the window that is far enough back (the
+// longer the baseline, the less GPS noise swings it). Null when not moving.
+export function deriveHeading(fixes: GpsFix[], options: LookAheadOptions = DEFAULT_LOOK_AHEAD_OPTIONS): number | null {
+  const latest = fixes[fixes.length - 1];
+  if (!latest) return null;
+
+  const deviceHeading = latest.heading;
+  if (
+    typeof deviceHeading === 'number' &&
+    !Number.isNaN(deviceHeading) &&
+    typeof latest.speed === 'number' &&
+    latest.speed >= options.minSpeed
+  ) {
+    return deviceHeading;
+  }
+
+  for (const fix of fixes) {
+    if (latest.timestamp - fix.timestamp > options.headingWindowMs) continue;
+    if (calculateDistance(fix.lat, fix.lng, latest.lat, latest.lng) >= options.minHeadingDistance) {
+      return bearingBetween(fix.lat, fix.lng, latest.lat, latest.lng);
+    }
+  }
+  return null;
+}
+
+// How far ahead to look at the current speed
+export function lookAheadDistance(speed: number, options: LookAheadOptions = DEFAULT_LOOK_AHEAD_OPTIONS): number {
+  return Math.min(options.maxLookAhead, Math.max(options.minLookAhead, speed * options.lookAheadSeconds));
+}
+
+// Hazards in the forward cone, nearest first
+export function findHazardsAhead(
+  position: { lat: number; lng: number },
+  heading: number,
+  maxDistance: number,
+  reports: Report[],
+  options: LookAheadOptions = DEFAULT_LOOK_AHEAD_OPTIONS
+): HazardAhead[] {
+  const ahead: HazardAhead[] = [];
+
+  for (const report of reports) {
+    const distance = calculateDistance(position.lat, position.lng, report.lat, report.lng);
+    if (distance < options.minDistance || distance > maxDistance) continue;
+
+    const relativeBearing = angleDifference(heading, bearingBetween(position.lat, position.lng, report.lat, report.lng));
+    if (Math.abs(relativeBearing) > options.coneHalfAngle) continue;
+
+    // Sideways offset from the line of travel
+    const lateral = distance * Math.sin((relativeBearing * Math.PI) / 180);
+    const side: HazardSide = Math.abs(lateral) <= options.pathHalfWidth
+      ? 'ahead'
+      : lateral < 0 ? 'left' : 'right';
+
+    ahead.push({ report, distance, relativeBearing, side });
+  }
+
+  return ahead.sort((a, b) => a.distance - b.distance);
+}
+
+export interface LookAheadState {
+  fixes: GpsFix[]; // Recent fixes, oldest first
+  alertedIds: string[]; // Hazards already announced while still ahead
+}
+
+export const INITIAL_LOOK_AHEAD_STATE: LookAheadState = { fixes: [], alertedIds: [] };
+
+export interface LookAheadUpdate {
+  state: LookAheadState;
+  heading: number | null;
+  hazardsAhead: HazardAhead[];
+  newAlerts: HazardAhead[]; // Hazards that have just come into the cone
+}
+
+// Feed one GPS fix. Each hazard is announced once when it enters the cone,
+// and may be announced again once it has fallen behind the walker or out
+// of range. Drifting in and out of the edge of the cone doesn't repeat it.
+export function updateLookAhead(
+  state: LookAheadState,
+  fix: GpsFix,
+  reports: Report[],
+  options: LookAheadOptions = DEFAULT_LOOK_AHEAD_OPTIONS
+): LookAheadUpdate {
+  const fixes = [...state.fixes, fix].filter(f => fix.timestamp - f.timestamp <= options.headingWindowMs);
+  const heading = deriveHeading(fixes, options);
+
+  if (heading === null) {
+    // Standing still: keep what was announced so it isn't repeated
+    return { state: { fixes, alertedIds: state.alertedIds }, heading, hazardsAhead: [], newAlerts: [] };
+  }
+
+  const speed = estimateSpeed(fixes, options);
+  const hazardsAhead = findHazardsAhead(fix, heading, lookAheadDistance(speed, options), reports, options);
+  const aheadIds = new Set(hazardsAhead.map(hazard => hazard.report.id));
+  const newAlerts = hazardsAhead.filter(hazard => !state.alertedIds.includes(hazard.report.id));
+
+  // Keep announced hazards that are still in front and within range
+  const stillInFront = (report: Report) =>
+    calculateDistance(fix.lat, fix.lng, report.lat, report.lng) <= options.maxLookAhead &&
+    Math.abs(angleDifference(heading, bearingBetween(fix.lat, fix.lng, report.lat, report.lng))) < 90;
+  const keptIds = reports
+    .filter(report => state.alertedIds.includes(report.id) && !aheadIds.has(report.id) && stillInFront(report))
+    .map(report => report.id);
+
+  return {
+    state: { fixes, alertedIds: [...aheadIds, ...keptIds] },
+    heading,
+    hazardsAhead,
+    newAlerts,
+  };
+}
+
+// Short description for alerts, e.g. "30 m ahead on your left"
+export function describeHazardAhead(hazard: HazardAhead): string {
+  const metres = Math.max(5, Math.round(hazard.distance / 5) * 5);
+  return hazard.side === 'ahead'
+    ? `${metres} m straight ahead`
+    : `${metres} m ahead on your ${hazard.side}`;
+}
@@ -0,0 +1,96 @@
+// Map provider abstraction. components/Map.tsx describes what to draw
+// with these types and a provider adapter (GoogleMapAdapter or
+// LeafletMapAdapter) draws it, so the app runs without a Google key.
+
+import type { ReactNode } from 'react';
+import { LatLngBounds } from './geo';
+import { HeatmapPoint } from './heatmap';
+
+export type MapProviderName = 'google' | 'leaflet';
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+// Image icon, anchored at (anchorX, anchorY) pixels from its top left
+export interface MapIcon {
+  url: string;
+  width: number;
+  height: number;
+  anchorX: number;
+  anchorY: number;
+}
+
+export interface MapMarkerSpec {
+  id: string;
+  position: LatLng;
+  icon?: MapIcon; // Provider's default marker when omitted
+  zIndex?: number;
+  draggable?: boolean;
+  bounce?: boolean; // Draw attention (Google only)
+  opacity?: number; // 0-1, fully opaque when omitted
+  onClick?: () => void;
+  onDragEnd?: (position: LatLng) => void;
+}
+
+export interface MapPolylineSpec {
+  id: string;
+  path: LatLng[];
+  color: string;
+  opacity: number;
+  weight: number;
+  zIndex?: number;
+}
+
+export interface MapPopupSpec {
+  position: LatLng;
+  offsetY: number; // Pixels above the position, e.g. to clear a pin
+  content: ReactNode;
+  onClose: () => void;
+}
+
+export interface MapViewState {
+  center: LatLng;
+  zoom: number;
+  bounds: LatLngBounds;
+}
+
+// Imperative controls handed to Map.tsx once the map has loaded
+export interface MapController {
+  panTo(position: LatLng): void;
+  setZoom(zoom: number): void;
+}
+
+export interface MapAdapterProps {
+  center: LatLng; // Re-applied whenever a new object is passed
+  zoom: number;
+  markers: MapMarkerSpec[]; // Report markers and cluster bubbles, already clustered
+  pins: MapMarkerSpec[]; // Other markers (user location, report pin)
+  polylines: MapPolylineSpec[];
+  heatmap: HeatmapPoint[] | null; // Shown instead of markers when set
+  popup: MapPopupSpec | null;
+  onMapClick: (position: LatLng) => void;
+  onLoad: (controller: MapController) => void;
+  onIdle: (view: MapViewState) => void; // After the map stops moving
+}
+
+// OpenStreetMap's volunteer-run tile server; set NEXT_PUBLIC_MAP_TILE_URL
+// for production traffic (see operations.osmfoundation.org/policies/tiles)
+export const DEFAULT_TILE_URL = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+export const DEFAULT_TILE_ATTRIBUTION = '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+// NEXT_PUBLIC_MAP_PROVIDER picks the provider; without it Google is used
+// when an API key is configured and Leaflet/OpenStreetMap otherwise
+export function getMapProviderName(): MapProviderName {
+  const configured = process.env.NEXT_PUBLIC_MAP_PROVIDER;
+  if (configured === 'google' || configured === 'leaflet') return configured;
+  return process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY ? 'google' : 'leaflet';
+}
+
+export function getTileConfig(): { url: string; attribution: string } {
+  return {
+    url: process.env.NEXT_PUBLIC_MAP_TILE_URL || DEFAULT_TILE_URL,
+    attribution: process.env.NEXT_PUBLIC_MAP_TILE_ATTRIBUTION || DEFAULT_TILE_ATTRIBUTION,
+  };
+}
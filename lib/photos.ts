@@ -0,0 +1,206 @@
+// Report photos in Firebase Storage.
+// New photos are kept inline (photoBase64) in IndexedDB until they can be
+// uploaded, so reporting works offline. Once uploaded only the download
+// URLs are stored on the report and synced.
+
+import { ref as storageRef, uploadString, getDownloadURL, deleteObject, listAll } from 'firebase/storage';
+import { ref, get, update, serverTimestamp } from 'firebase/database';
+import { storage, database } from './firebase-config';
+import { db, Report, ReportPhoto, PhotoKind } from './db';
+import { resizeImage, generateId } from './utils';
+import { requirePermission } from './auth';
+import { stripJpegMetadata } from './exif';
+
+const REPORTS_PATH = 'reports';
+
+// Full-size photo as compressed on the device before upload
+export const PHOTO_MAX_WIDTH = 1280;
+export const PHOTO_QUALITY = 0.8;
+
+export const THUMBNAIL_MAX_WIDTH = 480;
+const THUMBNAIL_QUALITY = 0.6;
+
+// Photos are immutable once uploaded, so they can be cached for a long time
+const PHOTO_CACHE_CONTROL = 'public, max-age=31536000, immutable';
+
+export interface ReportPhotoUrls {
+  photoUrl: string;
+  thumbnailUrl: string;
+}
+
+// Each upload gets its own file names: Storage rules don't allow
+// overwriting, so a retried upload must not reuse a half-finished one
+function photoPath(reportId: string, uploadId: string, variant: 'full' | 'thumb'): string {
+  return `${REPORTS_PATH}/${reportId}/${uploadId}-${variant}.jpg`;
+}
+
+// Upload the full-size photo and a generated thumbnail for a report
+export async function uploadReportPhoto(
+  reportId: string,
+  photoBase64: string,
+  uploadId: string = generateId()
+): Promise<ReportPhotoUrls> {
+  // Canvas re-encoding already drops EXIF; stripping here guarantees no
+  // location or device metadata reaches Storage whatever the photo's source
+  const fullBase64 = stripJpegMetadata(photoBase64);
+  const thumbnailBase64 = stripJpegMetadata(
+    await resizeImage(fullBase64, THUMBNAIL_MAX_WIDTH, THUMBNAIL_QUALITY)
+  );
+  const metadata = { contentType: 'image/jpeg', cacheControl: PHOTO_CACHE_CONTROL };
+
+  const [full, thumb] = await Promise.all([
+    uploadString(storageRef(storage, photoPath(reportId, uploadId, 'full')), fullBase64, 'data_url', metadata),
+    uploadString(storageRef(storage, photoPath(reportId, uploadId, 'thumb')), thumbnailBase64, 'data_url', metadata),
+  ]);
+
+  const [photoUrl, thumbnailUrl] = await Promise.all([
+    getDownloadURL(full.ref),
+    getDownloadURL(thumb.ref),
+  ]);
+  console.log('Uploaded photo for report:', reportId);
+  return { photoUrl, thumbnailUrl };
+}
+
+// New gallery photo, kept inline until the next sync uploads it
+export function createPendingPhoto(photoBase64: string, kind: PhotoKind, deviceId: string): ReportPhoto {
+  return {
+    id: generateId(),
+    kind,
+    deviceId,
+    addedAt: new Date().toISOString(),
+    photoBase64,
+  };
+}
+
+// All photos of a report in the order they were added. Reports created
+// before galleries existed have a single photo in the top-level fields.
+export function getReportPhotos(report: Report): ReportPhoto[] {
+  const photos = report.photos || [];
+  if (!report.photoUrl && !report.photoBase64) {
+    return photos;
+  }
+  const legacy: ReportPhoto = {
+    id: `${report.id}-photo`,
+    kind: 'report',
+    deviceId: '',
+    addedAt: report.date,
+    photoUrl: report.photoUrl,
+    thumbnailUrl: report.thumbnailUrl,
+    photoBase64: report.photoBase64,
+  };
+  return [legacy, ...photos];
+}
+
+// Display URL for a photo, preferring the thumbnail
+export function getPhotoThumbnailSrc(photo: ReportPhoto): string | undefined {
+  return photo.thumbnailUrl || photo.photoUrl || photo.photoBase64;
+}
+
+// Whether a report still has photos that haven't been uploaded
+export function hasPendingPhotos(report: Report): boolean {
+  return (!!report.photoBase64 && !report.photoUrl) ||
+    (report.photos || []).some(photo => !!photo.photoBase64 && !photo.photoUrl);
+}
+
+// Upload any inline photos of a report that haven't been uploaded yet and
+// swap them for their download URLs locally. Photos that fail to upload
+// stay inline and are retried on the next sync. Returns the updated report.
+export async function uploadPendingPhotos(report: Report): Promise<Report> {
+  if (!hasPendingPhotos(report)) {
+    return report;
+  }
+
+  let legacyUrls: ReportPhotoUrls | null = null;
+  if (report.photoBase64 && !report.photoUrl) {
+    try {
+      legacyUrls = await uploadReportPhoto(report.id, report.photoBase64);
+    } catch (error) {
+      console.error(`Failed to upload photo for report ${report.id}:`, error);
+    }
+  }
+
+  const uploaded = new Map<string, ReportPhotoUrls>();
+  for (const photo of report.photos || []) {
+    if (!photo.photoBase64 || photo.photoUrl) continue;
+    try {
+      uploaded.set(photo.id, await uploadReportPhoto(report.id, photo.photoBase64, photo.id));
+    } catch (error) {
+      console.error(`Failed to upload photo ${photo.id} for report ${report.id}:`, error);
+    }
+  }
+
+  const applyUploads = (target: Report) => {
+    if (legacyUrls) {
+      Object.assign(target, legacyUrls);
+      delete target.photoBase64;
+    }
+    target.photos = target.photos?.map((photo) => {
+      const urls = uploaded.get(photo.id);
+      if (!urls) return photo;
+      const next = { ...photo, ...urls };
+      delete next.photoBase64;
+      return next;
+    });
+  };
+
+  // Modify in place so edits made while uploading aren't lost
+  await db.reports.where('id').equals(report.id).modify(applyUploads);
+  const updated = { ...report };
+  applyUploads(updated);
+  return updated;
+}
+
+// Remove a report's photos from Storage (best effort)
+export async function deleteReportPhotos(reportId: string): Promise<void> {
+  try {
+    const { items } = await listAll(storageRef(storage, `${REPORTS_PATH}/${reportId}`));
+    await Promise.all(items.map(item => deleteObject(item)));
+  } catch (error) {
+    console.error('Failed to delete report photos:', error);
+  }
+}
+
+export interface PhotoMigrationResult {
+  migrated: number;
+  failed: number;
+}
+
+// Move photos still stored inline in the Realtime Database into Storage.
+// Council admin only; safe to run more than once.
+export async function migrateInlinePhotos(
+  onProgress?: (done: number, total: number) => void
+): Promise<PhotoMigrationResult> {
+  await requirePermission('migratePhotos');
+
+  const snapshot = await get(ref(database, REPORTS_PATH));
+  const pending: { id: string; photoBase64: string }[] = [];
+  snapshot.forEach((child) => {
+    const data = child.val() as Record<string, unknown>;
+    if (typeof data.photoBase64 === 'string' && !data.photoUrl) {
+      pending.push({ id: child.key as string, photoBase64: data.photoBase64 });
+    }
+  });
+
+  console.log('Inline photos to migrate:', pending.length);
+  const result: PhotoMigrationResult = { migrated: 0, failed: 0 };
+
+  for (const { id, photoBase64 } of pending) {
+    try {
+      const urls = await uploadReportPhoto(id, photoBase64);
+      await update(ref(database, `${REPORTS_PATH}/${id}`), {
+        ...urls,
+        photoBase64: null,
+        updatedAt: serverTimestamp(),
+      });
+      // Drop the inline copy from IndexedDB too; sync brings the URLs back
+      await db.reports.update(id, { ...urls, photoBase64: undefined });
+      result.migrated++;
+    } catch (error) {
+      console.error(`Failed to migrate photo for report ${id}:`, error);
+      result.failed++;
+    }
+    onProgress?.(result.migrated + result.failed, pending.length);
+  }
+
+  return result;
+}
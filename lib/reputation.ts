@@ -0,0 +1,143 @@
+// Trust weighting for confirmations. Each device earns a reputation from
+// its past confirmations on hazards whose outcome has settled: voting
+// "It's Cleared" on a hazard that stayed gone, or "Still There" on one that
+// stayed put, raises its weight; voting against the outcome lowers it.
+// The confirmation rules (see confirmationRules.ts) then ask for enough
+// weight as well as enough devices. New devices weigh less than 1, so an
+// N-device rule takes more than N of them, or one with a track record;
+// devices that voted against settled outcomes weigh less still and need
+// backing from trusted ones. Reputation is worked out on each device from
+// the reports it has synced, so the database rules don't enforce it.
+
+import { Report, Confirmation } from './db';
+import { isExpired } from './decay';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TrustConfig {
+  newDeviceWeight: number; // Weight of a device with no settled votes
+  agreeBonus: number; // Added per vote that matched the outcome
+  disagreePenalty: number; // Taken off per vote against the outcome
+  minWeight: number;
+  maxWeight: number;
+  settleDays: number; // Quiet days after the last vote before an outcome counts
+}
+
+export const DEFAULT_TRUST_CONFIG: TrustConfig = {
+  newDeviceWeight: 0.75,
+  agreeBonus: 0.25,
+  disagreePenalty: 0.5,
+  minWeight: 0.1,
+  maxWeight: 2,
+  settleDays: 3,
+};
+
+// NEXT_PUBLIC_TRUST_NEW_DEVICE_WEIGHT sets the weight of devices without
+// a track record
+export function getTrustConfig(): TrustConfig {
+  const newDeviceWeight = Number(process.env.NEXT_PUBLIC_TRUST_NEW_DEVICE_WEIGHT);
+  const defaults = DEFAULT_TRUST_CONFIG;
+
+  return {
+    ...defaults,
+    newDeviceWeight: newDeviceWeight > 0 ? newDeviceWeight : defaults.newDeviceWeight,
+  };
+}
+
+export const trustConfig = getTrustConfig();
+
+// A device's settled votes
+export interface DeviceRecord {
+  agreed: number;
+  disagreed: number;
+}
+
+export type Reputation = Record<string, DeviceRecord>;
+
+export type SettledOutcome = 'gone' | 'present';
+
+function toTime(timestamp: string): number {
+  return new Date(timestamp).getTime() || 0;
+}
+
+// "It's Cleared" votes, including ones a later "Still There" overturned
+function allClearedVotes(report: Report): Confirmation[] {
+  return [...(report.overturnedConfirmations || []), ...(report.clearedConfirmations || [])];
+}
+
+// What became of the hazard, once nobody has voted on it for settleDays.
+// A council "No Glass Found" settles it as gone straight away. Archived
+// and expired hazards never settle: nobody knows what happened to them.
+export function getSettledOutcome(report: Report, now: number = Date.now(), config: TrustConfig = trustConfig): SettledOutcome | null {
+  if (report.noGlassFound) return 'gone';
+  if (report.archived && !report.resolved) return null;
+
+  const votes = [...(report.stillThereConfirmations || []), ...allClearedVotes(report)];
+  if (votes.length === 0) return null;
+  const lastVote = Math.max(...votes.map(c => toTime(c.timestamp)));
+  if (now - lastVote < config.settleDays * DAY_MS) return null;
+
+  if (report.resolved) return 'gone';
+  return isExpired(report, now) ? null : 'present';
+}
+
+// Each device's last vote on a hazard. "Still There" votes from before
+// anyone said it was gone aren't counted: there was nothing to dispute.
+function settledVotes(report: Report): Record<string, SettledOutcome> {
+  const clearedVotes = allClearedVotes(report);
+  if (clearedVotes.length === 0) return {}; // Nobody said it was gone
+
+  const firstCleared = Math.min(...clearedVotes.map(c => toTime(c.timestamp)));
+  const votes: { deviceId: string; time: number; outcome: SettledOutcome }[] = [
+    ...clearedVotes.map(c => ({ deviceId: c.deviceId, time: toTime(c.timestamp), outcome: 'gone' as const })),
+    ...(report.stillThereConfirmations || [])
+      .filter(c => toTime(c.timestamp) >= firstCleared)
+      .map(c => ({ deviceId: c.deviceId, time: toTime(c.timestamp), outcome: 'present' as const })),
+  ].sort((a, b) => a.time - b.time);
+
+  const byDevice: Record<string, SettledOutcome> = {};
+  for (const vote of votes) {
+    byDevice[vote.deviceId] = vote.outcome;
+  }
+  return byDevice;
+}
+
+// Reputation of every device that voted on the given reports
+export function buildReputation(reports: Report[], now: number = Date.now(), config: TrustConfig = trustConfig): Reputation {
+  const reputation: Reputation = {};
+
+  for (const report of reports) {
+    const outcome = getSettledOutcome(report, now, config);
+    if (!outcome) continue;
+
+    for (const [deviceId, vote] of Object.entries(settledVotes(report))) {
+      const record = reputation[deviceId] ?? (reputation[deviceId] = { agreed: 0, disagreed: 0 });
+      if (vote === outcome) {
+        record.agreed++;
+      } else {
+        record.disagreed++;
+      }
+    }
+  }
+
+  return reputation;
+}
+
+export function getDeviceWeight(deviceId: string, reputation: Reputation, config: TrustConfig = trustConfig): number {
+  const record = reputation[deviceId];
+  if (!record) return config.newDeviceWeight;
+  const weight = config.newDeviceWeight +
+    record.agreed * config.agreeBonus -
+    record.disagreed * config.disagreePenalty;
+  return Math.min(config.maxWeight, Math.max(config.minWeight, weight));
+}
+
+// Combined weight of the confirmations, one vote per device
+export function getConfirmationWeight(confirmations: Confirmation[] = [], reputation: Reputation, config: TrustConfig = trustConfig): number {
+  const devices = new Set(confirmations.map(c => c.deviceId));
+  let total = 0;
+  for (const deviceId of devices) {
+    total += getDeviceWeight(deviceId, reputation, config);
+  }
+  return total;
+}
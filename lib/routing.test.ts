@@ -0,0 +1,39 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createStraightLineBackend, getRoutingBackend, pathDistance } from './routing';
+import { TRACE_START, offsetPosition } from './__fixtures__/walkTraces';
+
+describe('getRoutingBackend', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('stays offline unless a router is configured', () => {
+    vi.stubEnv('NEXT_PUBLIC_ROUTING_BACKEND', '');
+    expect(getRoutingBackend()).toMatchObject({ name: 'straightLine', approximate: true });
+  });
+
+  it('needs a server URL for OSRM', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.stubEnv('NEXT_PUBLIC_ROUTING_BACKEND', 'osrm');
+    vi.stubEnv('NEXT_PUBLIC_ROUTING_URL', '');
+    expect(getRoutingBackend().name).toBe('straightLine');
+
+    vi.stubEnv('NEXT_PUBLIC_ROUTING_URL', 'https://osrm.example.org');
+    expect(getRoutingBackend().name).toBe('osrm');
+    expect(getRoutingBackend().approximate).toBeFalsy();
+  });
+});
+
+describe('createStraightLineBackend', () => {
+  it('walks straight through the waypoints', async () => {
+    const via = offsetPosition(TRACE_START, 90, 300);
+    const end = offsetPosition(via, 0, 400);
+    const [route] = await createStraightLineBackend().getRoutes({ start: TRACE_START, end, via: [via] });
+
+    expect(route.path).toEqual([TRACE_START, via, end]);
+    expect(route.distanceMeters).toBeCloseTo(700, -1);
+    expect(route.distanceMeters).toBe(pathDistance(route.path));
+    expect(route.durationSeconds).toBeGreaterThan(0);
+  });
+});
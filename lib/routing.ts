@@ -0,0 +1,157 @@
+// Walking route backends. The planner in safeRoutes.ts only talks to the
+// RoutingBackend interface, so OSRM, GraphHopper or the offline stand-in
+// can be swapped without touching it.
+
+import { calculateDistance } from './utils';
+
+export interface RoutePoint {
+  lat: number;
+  lng: number;
+}
+
+export interface WalkingRoute {
+  path: RoutePoint[];
+  distanceMeters: number;
+  durationSeconds: number;
+}
+
+export interface RouteRequest {
+  start: RoutePoint;
+  end: RoutePoint;
+  via?: RoutePoint[]; // Waypoints to pass through, in order
+  alternatives?: boolean; // Ask for alternative routes when the backend supports them
+}
+
+export interface RoutingBackend {
+  name: string;
+  approximate?: boolean; // Straight lines rather than paths a walker can follow
+  getRoutes(request: RouteRequest): Promise<WalkingRoute[]>;
+}
+
+export type RoutingBackendName = 'osrm' | 'graphhopper' | 'straightLine';
+
+const WALKING_SPEED = 1.3; // m/s, for backends that don't estimate duration
+
+const DEFAULT_GRAPHHOPPER_URL = 'https://graphhopper.com/api/1';
+
+export function pathDistance(path: RoutePoint[]): number {
+  let total = 0;
+  for (let i = 1; i < path.length; i++) {
+    total += calculateDistance(path[i - 1].lat, path[i - 1].lng, path[i].lat, path[i].lng);
+  }
+  return total;
+}
+
+// GeoJSON LineString coordinates are [lng, lat]
+function fromGeoJsonCoordinates(coordinates: [number, number][]): RoutePoint[] {
+  return coordinates.map(([lng, lat]) => ({ lat, lng }));
+}
+
+interface OsrmResponse {
+  code: string;
+  message?: string;
+  routes?: {
+    distance: number;
+    duration: number;
+    geometry: { coordinates: [number, number][] };
+  }[];
+}
+
+// OSRM HTTP API (project-osrm.org/docs/v5.24.0/api). The profile segment
+// of the URL is ignored by OSRM; the server decides how it routes.
+export function createOsrmBackend(baseUrl: string): RoutingBackend {
+  return {
+    name: 'osrm',
+    async getRoutes({ start, end, via = [], alternatives = false }) {
+      const coordinates = [start, ...via, end].map(point => `${point.lng},${point.lat}`).join(';');
+      const params = new URLSearchParams({
+        overview: 'full',
+        geometries: 'geojson',
+        // OSRM only offers alternatives between two points
+        alternatives: String(alternatives && via.length === 0),
+      });
+
+      const response = await fetch(`${baseUrl}/route/v1/foot/${coordinates}?${params}`);
+      if (!response.ok) throw new Error(`OSRM request failed: ${response.status}`);
+
+      const data = (await response.json()) as OsrmResponse;
+      if (data.code !== 'Ok' || !data.routes) throw new Error(`OSRM: ${data.message || data.code}`);
+
+      return data.routes.map(route => ({
+        path: fromGeoJsonCoordinates(route.geometry.coordinates),
+        distanceMeters: route.distance,
+        durationSeconds: route.duration,
+      }));
+    },
+  };
+}
+
+interface GraphHopperResponse {
+  message?: string;
+  paths?: {
+    distance: number;
+    time: number; // ms
+    points: { coordinates: [number, number][] };
+  }[];
+}
+
+// GraphHopper Routing API (docs.graphhopper.com), hosted or self-hosted
+export function createGraphHopperBackend(baseUrl: string = DEFAULT_GRAPHHOPPER_URL, apiKey?: string): RoutingBackend {
+  return {
+    name: 'graphhopper',
+    async getRoutes({ start, end, via = [], alternatives = false }) {
+      const params = new URLSearchParams({ profile: 'foot', points_encoded: 'false' });
+      for (const point of [start, ...via, end]) {
+        params.append('point', `${point.lat},${point.lng}`);
+      }
+      // Like OSRM, alternative routes only work without waypoints
+      if (alternatives && via.length === 0) params.set('algorithm', 'alternative_route');
+      if (apiKey) params.set('key', apiKey);
+
+      const response = await fetch(`${baseUrl}/route?${params}`);
+      const data = (await response.json()) as GraphHopperResponse;
+      if (!response.ok || !data.paths) {
+        throw new Error(`GraphHopper request failed: ${data.message || response.status}`);
+      }
+
+      return data.paths.map(path => ({
+        path: fromGeoJsonCoordinates(path.points.coordinates),
+        distanceMeters: path.distance,
+        durationSeconds: path.time / 1000,
+      }));
+    },
+  };
+}
+
+// Offline stand-in: straight lines through the waypoints. Deterministic and
+// network-free, so the planner can be exercised without a routing server.
+export function createStraightLineBackend(): RoutingBackend {
+  return {
+    name: 'straightLine',
+    approximate: true,
+    async getRoutes({ start, end, via = [] }) {
+      const path = [start, ...via, end];
+      const distanceMeters = pathDistance(path);
+      return [{ path, distanceMeters, durationSeconds: distanceMeters / WALKING_SPEED }];
+    },
+  };
+}
+
+// Backend chosen by NEXT_PUBLIC_ROUTING_BACKEND. Defaults to the offline
+// stand-in so the walker's start and destination stay on the device until
+// a router is configured; OSRM also needs NEXT_PUBLIC_ROUTING_URL.
+export function getRoutingBackend(): RoutingBackend {
+  const name = (process.env.NEXT_PUBLIC_ROUTING_BACKEND || 'straightLine') as RoutingBackendName;
+  const url = process.env.NEXT_PUBLIC_ROUTING_URL || undefined;
+
+  switch (name) {
+    case 'graphhopper':
+      return createGraphHopperBackend(url, process.env.NEXT_PUBLIC_GRAPHHOPPER_API_KEY || undefined);
+    case 'osrm':
+      if (url) return createOsrmBackend(url);
+      console.warn('OSRM routing needs NEXT_PUBLIC_ROUTING_URL; using straight lines');
+      return createStraightLineBackend();
+    default:
+      return createStraightLineBackend();
+  }
+}
@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import { Report } from './db';
+import { HazardSeverity } from './hazards';
+import { RouteRequest, RoutingBackend, WalkingRoute, createStraightLineBackend, pathDistance } from './routing';
+import {
+  DEFAULT_SAFE_ROUTE_OPTIONS,
+  hazardsAlongPath,
+  planLoopRoute,
+  planSafeRoute,
+  scoreRoute,
+} from './safeRoutes';
+import { TRACE_START, hazardAt, offsetPosition } from './__fixtures__/walkTraces';
+
+const END = offsetPosition(TRACE_START, 0, 400);
+
+// A hazard `along` metres up the walk north from TRACE_START, `lateral`
+// metres east of it. Reported today, so it hasn't decayed.
+function hazard(id: string, along: number, lateral: number, severity: HazardSeverity = 'severe'): Report {
+  const position = offsetPosition(offsetPosition(TRACE_START, 0, along), 90, lateral);
+  return { ...hazardAt(id, position, severity), date: new Date().toISOString() };
+}
+
+function straightRoute(path: WalkingRoute['path']): WalkingRoute {
+  return { path, distanceMeters: pathDistance(path), durationSeconds: 0 };
+}
+
+// Straight lines, counting the requests made
+function countingBackend(): RoutingBackend & { requests: RouteRequest[] } {
+  const straightLine = createStraightLineBackend();
+  const requests: RouteRequest[] = [];
+  return {
+    name: 'counting',
+    requests,
+    getRoutes(request) {
+      requests.push(request);
+      return straightLine.getRoutes(request);
+    },
+  };
+}
+
+describe('scoreRoute', () => {
+  it('weights hazards by severity, in the order they are passed', () => {
+    const route = straightRoute([TRACE_START, END]);
+    const reports = [hazard('late', 300, 0, 'minor'), hazard('early', 100, 5, 'severe'), hazard('far', 200, 100)];
+
+    const scored = scoreRoute(route, reports, DEFAULT_SAFE_ROUTE_OPTIONS.bufferMeters);
+    expect(scored.hazards.map(report => report.id)).toEqual(['early', 'late']);
+    expect(scored.weight).toBe(5);
+  });
+
+  it('ignores resolved hazards', () => {
+    const route = straightRoute([TRACE_START, END]);
+    const reports = [{ ...hazard('cleared', 200, 0), resolved: true }];
+    expect(hazardsAlongPath(route.path, reports, DEFAULT_SAFE_ROUTE_OPTIONS.bufferMeters)).toEqual([]);
+  });
+});
+
+describe('planSafeRoute', () => {
+  it('keeps the direct route when nothing is on it', async () => {
+    const backend = countingBackend();
+    const plan = await planSafeRoute(backend, TRACE_START, END, [hazard('aside', 200, 80)]);
+
+    expect(plan.route.weight).toBe(0);
+    expect(plan.route.via).toEqual([]);
+    expect(plan.route.route.distanceMeters).toBeCloseTo(plan.direct.route.distanceMeters, 5);
+    expect(backend.requests).toHaveLength(1);
+  });
+
+  it('detours around a hazard on the direct route', async () => {
+    const reports = [hazard('bottle', 200, 0)];
+    const plan = await planSafeRoute(createStraightLineBackend(), TRACE_START, END, reports);
+
+    expect(plan.direct.hazards.map(report => report.id)).toEqual(['bottle']);
+    expect(plan.route.hazards).toEqual([]);
+    expect(plan.route.via).toHaveLength(1);
+    expect(plan.route.route.distanceMeters).toBeLessThanOrEqual(
+      plan.direct.route.distanceMeters * DEFAULT_SAFE_ROUTE_OPTIONS.maxDetourRatio
+    );
+  });
+
+  it('marks plans made on straight lines as approximate', async () => {
+    expect((await planSafeRoute(createStraightLineBackend(), TRACE_START, END, [])).approximate).toBe(true);
+
+    const backend: RoutingBackend = { name: 'fixed', getRoutes: async () => [straightRoute([TRACE_START, END])] };
+    expect((await planSafeRoute(backend, TRACE_START, END, [])).approximate).toBe(false);
+  });
+
+  it('detours around several hazards, keeping the waypoints in order', async () => {
+    const reports = [hazard('first', 100, 0), hazard('second', 300, 0)];
+    const plan = await planSafeRoute(createStraightLineBackend(), TRACE_START, END, reports);
+
+    expect(plan.route.hazards).toEqual([]);
+    expect(plan.route.via).toHaveLength(2);
+    expect(plan.route.via[0].lat).toBeLessThan(plan.route.via[1].lat);
+  });
+
+  it('prefers the alternative with less hazard weight', async () => {
+    const west = offsetPosition(offsetPosition(TRACE_START, 0, 200), 270, 60);
+    const east = offsetPosition(offsetPosition(TRACE_START, 0, 200), 90, 60);
+    const alternatives = [straightRoute([TRACE_START, END]), straightRoute([TRACE_START, west, END]), straightRoute([TRACE_START, east, END])];
+    const backend: RoutingBackend = { name: 'fixed', getRoutes: async () => alternatives };
+    // One severe hazard on the direct route, two minor ones on the west
+    // route and a moderate and a minor one on the east route
+    const reports = [
+      hazard('severe', 200, 0),
+      hazard('west-1', 200, -60, 'minor'),
+      hazard('west-2', 150, -45, 'minor'),
+      hazard('east-1', 200, 60, 'moderate'),
+      hazard('east-2', 150, 45, 'minor'),
+    ];
+
+    const plan = await planSafeRoute(backend, TRACE_START, END, reports, { ...DEFAULT_SAFE_ROUTE_OPTIONS, maxDetourRequests: 0 });
+    expect(plan.direct.weight).toBe(4);
+    expect(plan.route.route).toBe(alternatives[1]);
+    expect(plan.route.weight).toBe(2);
+  });
+
+  it('keeps the direct route when every detour is too long', async () => {
+    const plan = await planSafeRoute(createStraightLineBackend(), TRACE_START, END, [hazard('bottle', 200, 0)], {
+      ...DEFAULT_SAFE_ROUTE_OPTIONS,
+      maxDetourRatio: 1.01,
+    });
+    expect(plan.route.hazards.map(report => report.id)).toEqual(['bottle']);
+    expect(plan.route.via).toEqual([]);
+  });
+
+  it('stops after the detour request budget', async () => {
+    const backend = countingBackend();
+    const reports = [100, 150, 200, 250, 300].map(along => hazard(`hazard-${along}`, along, 0));
+    await planSafeRoute(backend, TRACE_START, END, reports, { ...DEFAULT_SAFE_ROUTE_OPTIONS, maxDetourRequests: 3 });
+
+    expect(backend.requests).toHaveLength(4);
+  });
+
+  it('fails when the backend finds no route', async () => {
+    const backend: RoutingBackend = { name: 'empty', getRoutes: async () => [] };
+    await expect(planSafeRoute(backend, TRACE_START, END, [])).rejects.toThrow('No route found');
+  });
+});
+
+describe('planLoopRoute', () => {
+  it('returns a loop from the start close to the target length', async () => {
+    const plan = await planLoopRoute(createStraightLineBackend(), TRACE_START, 2000, []);
+    const { path, distanceMeters } = plan.route.route;
+
+    expect(path[0]).toEqual(TRACE_START);
+    expect(path[path.length - 1]).toEqual(TRACE_START);
+    expect(Math.abs(distanceMeters - 2000) / 2000).toBeLessThanOrEqual(0.3);
+  });
+
+  it('picks a loop away from hazards', async () => {
+    // A hazard just north of the start, on the loops heading that way
+    const plan = await planLoopRoute(createStraightLineBackend(), TRACE_START, 2000, [hazard('north', 150, 0)]);
+    expect(plan.route.weight).toBe(0);
+  });
+});
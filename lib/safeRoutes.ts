@@ -0,0 +1,232 @@
+// Walking routes that keep clear of active hazards. Routes come from a
+// RoutingBackend (lib/routing.ts); this module only scores them and asks
+// for detours, so it runs unchanged against the offline stand-in.
+
+import { Report } from './db';
+import { RoutePoint, RoutingBackend, WalkingRoute } from './routing';
+import { calculateDistance } from './utils';
+import { isLiveHazard } from './decay';
+import { ALERT_RADIUS_BY_SEVERITY, DEFAULT_HAZARD_SEVERITY } from './hazards';
+import { HEATMAP_SEVERITY_WEIGHT } from './heatmap';
+
+export interface SafeRouteOptions {
+  bufferMeters: number; // Clearance beyond a hazard's alert exit radius
+  maxDetourRatio: number; // Longest acceptable route, relative to the direct one
+  maxDetourRequests: number; // Routing requests spent looking for detours
+}
+
+export const DEFAULT_SAFE_ROUTE_OPTIONS: SafeRouteOptions = {
+  bufferMeters: 10,
+  maxDetourRatio: 1.5,
+  maxDetourRequests: 6,
+};
+
+export const LOOP_DISTANCE_OPTIONS = [1000, 2000, 3000, 5000];
+const LOOP_DIRECTIONS = 6; // Loop shapes tried, evenly spread around the compass
+const LOOP_ROAD_FACTOR = 1.25; // Paths are longer than the straight lines between waypoints
+const LOOP_DISTANCE_TOLERANCE = 0.3; // Loops within 30% of the target are acceptable
+
+export interface ScoredRoute {
+  route: WalkingRoute;
+  hazards: Report[]; // Active hazards within the buffer, in the order they are passed
+  weight: number;
+  via: RoutePoint[];
+}
+
+export interface SafeRoutePlan {
+  route: ScoredRoute; // Suggested route
+  direct: ScoredRoute; // What you'd get without avoiding hazards
+  approximate: boolean; // Planned on straight lines, not walkable paths
+}
+
+const METERS_PER_DEGREE = 111320;
+
+export function isActiveHazard(report: Report): boolean {
+  return isLiveHazard(report);
+}
+
+// Distance a route must keep from a hazard
+export function hazardClearance(report: Report, bufferMeters: number): number {
+  return ALERT_RADIUS_BY_SEVERITY[report.severity ?? DEFAULT_HAZARD_SEVERITY].exit + bufferMeters;
+}
+
+// Point on a bearing and distance from an origin (spherical earth)
+export function destinationPoint(origin: RoutePoint, bearing: number, meters: number): RoutePoint {
+  const R = 6371e3;
+  const delta = meters / R;
+  const theta = (bearing * Math.PI) / 180;
+  const phi1 = (origin.lat * Math.PI) / 180;
+  const lambda1 = (origin.lng * Math.PI) / 180;
+
+  const phi2 = Math.asin(Math.sin(phi1) * Math.cos(delta) + Math.cos(phi1) * Math.sin(delta) * Math.cos(theta));
+  const lambda2 = lambda1 + Math.atan2(
+    Math.sin(theta) * Math.sin(delta) * Math.cos(phi1),
+    Math.cos(delta) - Math.sin(phi1) * Math.sin(phi2)
+  );
+
+  return { lat: (phi2 * 180) / Math.PI, lng: ((((lambda2 * 180) / Math.PI) + 540) % 360) - 180 };
+}
+
+// Nearest point on segment a-b to p, as a fraction along the segment and
+// a distance in metres. Uses a flat projection, fine at walking scale.
+function nearestOnSegment(p: RoutePoint, a: RoutePoint, b: RoutePoint): { fraction: number; distance: number } {
+  const cosLat = Math.cos((p.lat * Math.PI) / 180);
+  const bx = (b.lng - a.lng) * cosLat;
+  const by = b.lat - a.lat;
+  const px = (p.lng - a.lng) * cosLat;
+  const py = p.lat - a.lat;
+
+  const lengthSquared = bx * bx + by * by;
+  const fraction = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, (px * bx + py * by) / lengthSquared));
+  const dx = px - fraction * bx;
+  const dy = py - fraction * by;
+  return { fraction, distance: Math.sqrt(dx * dx + dy * dy) * METERS_PER_DEGREE };
+}
+
+// Closest approach of a path to a point; position is the segment index
+// plus the fraction along it, for ordering points along the path
+export function nearestOnPath(p: RoutePoint, path: RoutePoint[]): { distance: number; position: number } {
+  if (path.length === 1) {
+    return { distance: calculateDistance(p.lat, p.lng, path[0].lat, path[0].lng), position: 0 };
+  }
+
+  let best = { distance: Infinity, position: 0 };
+  for (let i = 1; i < path.length; i++) {
+    const { fraction, distance } = nearestOnSegment(p, path[i - 1], path[i]);
+    if (distance < best.distance) best = { distance, position: i - 1 + fraction };
+  }
+  return best;
+}
+
+// Active hazards a path passes within clearance of, in path order
+export function hazardsAlongPath(path: RoutePoint[], reports: Report[], bufferMeters: number): Report[] {
+  return reports
+    .filter(isActiveHazard)
+    .map(report => ({ report, ...nearestOnPath(report, path) }))
+    .filter(({ report, distance }) => distance <= hazardClearance(report, bufferMeters))
+    .sort((a, b) => a.position - b.position)
+    .map(({ report }) => report);
+}
+
+export function scoreRoute(route: WalkingRoute, reports: Report[], bufferMeters: number, via: RoutePoint[] = []): ScoredRoute {
+  const hazards = hazardsAlongPath(route.path, reports, bufferMeters);
+  // Severe hazards count for more, as on the heatmap
+  const weight = hazards.reduce((sum, report) => sum + HEATMAP_SEVERITY_WEIGHT[report.severity ?? DEFAULT_HAZARD_SEVERITY], 0);
+  return { route, hazards, weight, via };
+}
+
+// Fewest (weighted) hazards first, then shortest
+function compareRoutes(a: ScoredRoute, b: ScoredRoute): number {
+  return a.weight - b.weight || a.route.distanceMeters - b.route.distanceMeters;
+}
+
+// Waypoints either side of a hazard, square to the path where it passes
+export function detourWaypoints(path: RoutePoint[], hazard: Report, offsetMeters: number): RoutePoint[] {
+  const { position } = nearestOnPath(hazard, path);
+  const index = Math.min(Math.floor(position), path.length - 2);
+  const a = path[Math.max(index, 0)];
+  const b = path[Math.max(index, 0) + 1] ?? a;
+
+  const cosLat = Math.cos((a.lat * Math.PI) / 180);
+  const bearing = (Math.atan2((b.lng - a.lng) * cosLat, b.lat - a.lat) * 180) / Math.PI;
+  return [
+    destinationPoint(hazard, bearing - 90, offsetMeters),
+    destinationPoint(hazard, bearing + 90, offsetMeters),
+  ];
+}
+
+// Suggest a route from start to end that avoids hazards where it can.
+// Takes the backend's alternatives, then tries waypoints around each
+// hazard still on the best route until it is clear or requests run out.
+export async function planSafeRoute(
+  backend: RoutingBackend,
+  start: RoutePoint,
+  end: RoutePoint,
+  reports: Report[],
+  options: SafeRouteOptions = DEFAULT_SAFE_ROUTE_OPTIONS
+): Promise<SafeRoutePlan> {
+  const routes = await backend.getRoutes({ start, end, alternatives: true });
+  if (routes.length === 0) throw new Error('No route found');
+
+  const direct = scoreRoute(routes[0], reports, options.bufferMeters);
+  const maxDistance = direct.route.distanceMeters * options.maxDetourRatio;
+  const acceptable = (candidate: ScoredRoute) => candidate.route.distanceMeters <= maxDistance;
+
+  let best = routes
+    .map(route => scoreRoute(route, reports, options.bufferMeters))
+    .filter(acceptable)
+    .sort(compareRoutes)[0] ?? direct;
+
+  const tried = new Set<string>();
+  let requests = 0;
+
+  while (best.weight > 0 && requests < options.maxDetourRequests) {
+    const hazard = best.hazards.find(report => !tried.has(report.id));
+    if (!hazard) break;
+    tried.add(hazard.id);
+
+    const offset = hazardClearance(hazard, options.bufferMeters) * 2;
+    const candidates: ScoredRoute[] = [];
+
+    for (const waypoint of detourWaypoints(best.route.path, hazard, offset)) {
+      if (requests >= options.maxDetourRequests) break;
+      requests++;
+
+      // Keep earlier detours, ordered along the direct route
+      const via = [...best.via, waypoint].sort(
+        (a, b) => nearestOnPath(a, direct.route.path).position - nearestOnPath(b, direct.route.path).position
+      );
+
+      try {
+        const [route] = await backend.getRoutes({ start, end, via });
+        if (route) candidates.push(scoreRoute(route, reports, options.bufferMeters, via));
+      } catch (error) {
+        console.warn('Detour request failed:', error);
+      }
+    }
+
+    const improved = candidates.filter(acceptable).sort(compareRoutes)[0];
+    if (improved && compareRoutes(improved, best) < 0) best = improved;
+  }
+
+  return { route: best, direct, approximate: Boolean(backend.approximate) };
+}
+
+// Suggest a loop of roughly the given length from start. Tries triangles
+// in several directions and keeps the safest one close to the length.
+export async function planLoopRoute(
+  backend: RoutingBackend,
+  start: RoutePoint,
+  targetMeters: number,
+  reports: Report[],
+  options: SafeRouteOptions = DEFAULT_SAFE_ROUTE_OPTIONS
+): Promise<SafeRoutePlan> {
+  const side = targetMeters / (3 * LOOP_ROAD_FACTOR);
+  const candidates: ScoredRoute[] = [];
+
+  for (let i = 0; i < LOOP_DIRECTIONS; i++) {
+    const bearing = (360 / LOOP_DIRECTIONS) * i;
+    const via = [destinationPoint(start, bearing, side), destinationPoint(start, bearing + 60, side)];
+
+    try {
+      const [route] = await backend.getRoutes({ start, end: start, via });
+      if (route) candidates.push(scoreRoute(route, reports, options.bufferMeters, via));
+    } catch (error) {
+      console.warn('Loop request failed:', error);
+    }
+  }
+
+  if (candidates.length === 0) throw new Error('No route found');
+
+  const lengthError = (candidate: ScoredRoute) => Math.abs(candidate.route.distanceMeters - targetMeters) / targetMeters;
+  const closest = [...candidates].sort((a, b) => lengthError(a) - lengthError(b));
+  const withinTolerance = closest.filter(candidate => lengthError(candidate) <= LOOP_DISTANCE_TOLERANCE);
+  const pool = withinTolerance.length > 0 ? withinTolerance : closest.slice(0, 1);
+
+  // The loop closest to the target length stands in for the "direct" route
+  return {
+    route: [...pool].sort((a, b) => a.weight - b.weight || lengthError(a) - lengthError(b))[0],
+    direct: closest[0],
+    approximate: Boolean(backend.approximate),
+  };
+}
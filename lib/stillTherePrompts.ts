@@ -0,0 +1,89 @@
+'use client';
+
+// "Is this still there?" prompts. Hazards whose confidence has decayed
+// (see decay.ts) are about to expire; when a walker passes close by, ask
+// them so a real hazard is confirmed before it drops off the map, and a
+// swept one is cleared. Each hazard is asked about at most once a day per
+// device.
+
+import { useState, useMemo, useCallback } from 'react';
+import { Report } from './db';
+import { hasDeviceConfirmedCleared, hasDeviceConfirmedStillThereRecently } from './confirmationRules';
+import { calculateDistance, getOrCreateDeviceId } from './utils';
+import { needsStillTherePrompt } from './decay';
+import { showAlertNotification } from './alertActions';
+import { useAlertSettings, isQuietHours } from './alertSettings';
+import { HAZARD_CATEGORIES, DEFAULT_HAZARD_CATEGORY } from './hazards';
+
+export const PROMPT_RADIUS_METERS = 40;
+const PROMPT_COOLDOWN_MS = 24 * 60 * 60 * 1000;
+
+const STORAGE_KEY_PROMPTED = 'pawsafe_still_there_prompted';
+
+// Report id -> when this device was last asked about it
+function loadPrompted(): Record<string, number> {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY_PROMPTED);
+    return stored ? (JSON.parse(stored) as Record<string, number>) : {};
+  } catch {
+    return {};
+  }
+}
+
+function savePrompted(prompted: Record<string, number>): void {
+  const now = Date.now();
+  const recent = Object.fromEntries(
+    Object.entries(prompted).filter(([, at]) => now - at < PROMPT_COOLDOWN_MS)
+  );
+  localStorage.setItem(STORAGE_KEY_PROMPTED, JSON.stringify(recent));
+}
+
+export function useStillTherePrompts(reports: Report[]) {
+  const [promptReportId, setPromptReportId] = useState<string | null>(null);
+  const { settings } = useAlertSettings();
+
+  // Hazards close to expiring that this device hasn't answered for
+  const candidates = useMemo(() => {
+    const deviceId = getOrCreateDeviceId();
+    return reports.filter(report =>
+      needsStillTherePrompt(report) &&
+      !hasDeviceConfirmedStillThereRecently(report, deviceId) &&
+      !hasDeviceConfirmedCleared(report, deviceId)
+    );
+  }, [reports]);
+
+  // Call with each position fix; asks about the nearest candidate in range
+  const checkPosition = useCallback((position: { lat: number; lng: number }) => {
+    // One question at a time; an answered one drops out of the candidates
+    if (candidates.length === 0 || candidates.some(report => report.id === promptReportId)) return;
+
+    const now = Date.now();
+    const prompted = loadPrompted();
+    const nearest = candidates
+      .filter(report => !prompted[report.id] || now - prompted[report.id] >= PROMPT_COOLDOWN_MS)
+      .map(report => ({ report, distance: calculateDistance(position.lat, position.lng, report.lat, report.lng) }))
+      .filter(({ distance }) => distance <= PROMPT_RADIUS_METERS)
+      .sort((a, b) => a.distance - b.distance)[0];
+    if (!nearest) return;
+
+    savePrompted({ ...prompted, [nearest.report.id]: now });
+    setPromptReportId(nearest.report.id);
+
+    if (isQuietHours(settings.quietHours)) return;
+    const { label } = HAZARD_CATEGORIES[nearest.report.category ?? DEFAULT_HAZARD_CATEGORY];
+    void showAlertNotification({
+      title: 'Is this still there?',
+      body: `${label} was reported near you. Can you see it?`,
+      tag: 'still-there-prompt',
+      reportId: nearest.report.id,
+      deviceId: getOrCreateDeviceId(),
+      withActions: true,
+    });
+  }, [promptReportId, candidates, settings.quietHours]);
+
+  const dismissPrompt = useCallback(() => setPromptReportId(null), []);
+
+  const promptReport = candidates.find(report => report.id === promptReportId) ?? null;
+
+  return { promptReport, checkPosition, dismissPrompt };
+}
@@ -0,0 +1,118 @@
+// Download size of a delta sync against a full re-download, measured on
+// the Realtime Database emulator:
+//   npm run test:bandwidth
+// Under a plain `npm test` no emulator is running and the suite is skipped.
+
+import { readFileSync } from 'fs';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { initializeTestEnvironment, RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import { goOffline } from 'firebase/database';
+
+// Point lib/sync.ts at the emulator instead of the configured project
+vi.mock('./firebase-config', async () => {
+  const host = process.env.FIREBASE_DATABASE_EMULATOR_HOST;
+  if (!host) return { database: {}, auth: {}, storage: {} };
+
+  const { initializeApp } = await import('firebase/app');
+  const { getDatabase, connectDatabaseEmulator } = await import('firebase/database');
+  const app = initializeApp({ projectId: 'demo-glass-alert', databaseURL: 'https://demo-glass-alert.firebaseio.com' }, 'bandwidth');
+  const database = getDatabase(app);
+  const [hostname, port] = host.split(':');
+  connectDatabaseEmulator(database, hostname, Number(port));
+  return { database, auth: {}, storage: {} };
+});
+
+import { database } from './firebase-config';
+import { fetchChangedSince, fetchFromFirestore } from './sync';
+
+const REPORT_COUNT = 2000;
+const CHANGED_COUNT = 20;
+const SYNCED_AT = Date.parse('2025-03-01T12:00:00.000Z');
+
+// A typical report as toRealtimeDbReport writes it, with a few votes
+function reportData(index: number, updatedAt: number): Record<string, unknown> {
+  const votes = Array.from({ length: index % 4 }, (_, i) => ({
+    deviceId: `device-${index}-${i}`,
+    timestamp: new Date(updatedAt - i * 60000).toISOString(),
+  }));
+  return {
+    id: `report-${index}`,
+    lat: 51.45 + (index % 100) * 0.001,
+    lng: -0.2 + Math.floor(index / 100) * 0.001,
+    geohash: 'gcpvj0',
+    category: 'glass',
+    severity: 'moderate',
+    desc: 'Broken bottle by the bus stop',
+    date: '2025-01-01T09:00:00.000Z',
+    clearedCount: 0,
+    resolved: false,
+    stillThereCount: votes.length,
+    stillThereConfirmations: votes,
+    clearedConfirmations: [],
+    overturnedConfirmations: [],
+    updatedAt,
+    archived: false,
+    flagged: false,
+    noGlassFound: false,
+  };
+}
+
+function payloadBytes(reports: unknown[]): number {
+  return Buffer.byteLength(JSON.stringify(reports));
+}
+
+const emulatorRunning = !!process.env.FIREBASE_DATABASE_EMULATOR_HOST;
+
+describe.skipIf(!emulatorRunning)('sync bandwidth', () => {
+  let testEnv: RulesTestEnvironment;
+
+  beforeAll(async () => {
+    // The rules carry the `updatedAt` index; without it the server sends
+    // the whole tree and the filtering happens on the device
+    testEnv = await initializeTestEnvironment({
+      projectId: 'demo-glass-alert',
+      database: { rules: readFileSync('database.rules.json', 'utf8') },
+    });
+    await testEnv.clearDatabase();
+
+    const reports: Record<string, unknown> = {};
+    for (let i = 0; i < REPORT_COUNT; i++) {
+      reports[`report-${i}`] = reportData(i, SYNCED_AT - (REPORT_COUNT - i) * 1000);
+    }
+    await testEnv.withSecurityRulesDisabled(async context => {
+      await context.database().ref('reports').set(reports);
+    });
+  });
+
+  afterAll(async () => {
+    goOffline(database);
+    await testEnv.cleanup();
+  });
+
+  it('downloads only the reports changed since the high-water mark', async () => {
+    const full = await fetchFromFirestore();
+    expect(full).toHaveLength(REPORT_COUNT);
+    const highWaterMark = Math.max(...full.map(report => report.lastModified));
+
+    // Votes on a handful of reports after the last sync
+    const changedIds = Array.from({ length: CHANGED_COUNT }, (_, i) => `report-${i * 97}`);
+    await testEnv.withSecurityRulesDisabled(async context => {
+      const updates: Record<string, unknown> = {};
+      changedIds.forEach((id, i) => {
+        updates[`${id}/updatedAt`] = SYNCED_AT + (i + 1) * 1000;
+      });
+      await context.database().ref('reports').update(updates);
+    });
+
+    const delta = await fetchChangedSince(highWaterMark);
+    const fullBytes = payloadBytes(full);
+    const deltaBytes = payloadBytes(delta);
+    console.log(`Full sync: ${full.length} reports, ${fullBytes} bytes; ` +
+      `delta sync: ${delta.length} reports, ${deltaBytes} bytes`);
+
+    expect(delta.map(report => report.id)).toEqual(expect.arrayContaining(changedIds));
+    // The report at the mark itself is fetched again
+    expect(delta.length).toBeLessThanOrEqual(CHANGED_COUNT + 1);
+    expect(deltaBytes).toBeLessThan(fullBytes / 50);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it, vi } from 'vitest';
+import { DEFAULT_CONFIRMATION_RULES, RuleContext } from './confirmationRules';
+
+vi.mock('./firebase-config', () => ({ database: {}, auth: {}, storage: {} }));
+
+import { mergeReport } from './sync';
+import { HOUR_MS, NOW, report, vote } from './__fixtures__/reports';
+
+const context: RuleContext = { rules: DEFAULT_CONFIRMATION_RULES, reputation: {}, now: NOW };
+const keepResolvedContext: RuleContext = {
+  ...context,
+  rules: { ...DEFAULT_CONFIRMATION_RULES, stillThere: { ...DEFAULT_CONFIRMATION_RULES.stillThere, reopensResolved: false } },
+};
+
+describe('mergeReport', () => {
+  it('keeps the remote order of votes and appends local-only ones', () => {
+    const local = report({ stillThereConfirmations: [vote('c', 9), vote('a', 5)], syncStatus: 'pending' });
+    const remote = report({ stillThereConfirmations: [vote('a', 5), vote('b', 3)] });
+
+    const merged = mergeReport(local, remote, context);
+    expect(merged.stillThereConfirmations).toEqual([vote('a', 5), vote('b', 3), vote('c', 9)]);
+    expect(merged.stillThereCount).toBe(3);
+  });
+
+  it('resolves when the merged "It\'s Cleared" votes meet the rules', () => {
+    const local = report({ clearedConfirmations: [vote('a', 3), vote('b', 2), vote('c', 2)], syncStatus: 'pending' });
+    const remote = report({ clearedConfirmations: [vote('d', 1)] });
+
+    const merged = mergeReport(local, remote, context);
+    expect(merged.clearedCount).toBe(4);
+    expect(merged.resolved).toBe(true);
+    expect(merged.syncStatus).toBe('pending');
+  });
+
+  it('un-resolves a hazard reset by later "Still There" votes', () => {
+    const cleared = [vote('c', 6), vote('d', 5), vote('e', 4)];
+    const remote = report({ clearedConfirmations: cleared, resolved: true, lastModified: NOW });
+    const local = report({
+      clearedConfirmations: cleared,
+      stillThereConfirmations: [vote('a', 3), vote('b', 2), vote('f', 1)],
+      syncStatus: 'pending',
+      lastModified: NOW - HOUR_MS,
+    });
+
+    const merged = mergeReport(local, remote, keepResolvedContext);
+    expect(merged.resolved).toBe(false);
+    expect(merged.clearedConfirmations).toEqual([]);
+    expect(merged.overturnedConfirmations).toEqual(cleared);
+  });
+
+  it('un-resolves a hazard whose reset one copy already applied', () => {
+    const cleared = [vote('c', 6), vote('d', 5), vote('e', 4)];
+    const remote = report({ clearedConfirmations: cleared, resolved: true, lastModified: NOW });
+    const local = report({
+      stillThereConfirmations: [vote('a', 2), vote('b', 1)],
+      overturnedConfirmations: cleared,
+      syncStatus: 'pending',
+      lastModified: NOW - HOUR_MS,
+    });
+
+    const merged = mergeReport(local, remote, keepResolvedContext);
+    expect(merged.resolved).toBe(false);
+    expect(merged.clearedConfirmations).toEqual([]);
+  });
+
+  it('reopens a council resolution on a "Still There" vote it hadn\'t seen', () => {
+    const remote = report({ resolved: true, lastModified: NOW });
+    const local = report({ stillThereConfirmations: [vote('a', 1)], syncStatus: 'pending', lastModified: NOW - HOUR_MS });
+
+    expect(mergeReport(local, remote, context).resolved).toBe(false);
+    expect(mergeReport(local, remote, keepResolvedContext).resolved).toBe(true);
+  });
+
+  it('keeps a council resolution nothing has reopened', () => {
+    const stillThereConfirmations = [vote('a', 20)];
+    const remote = report({ stillThereConfirmations, resolved: true, lastModified: NOW });
+    const local = report({ stillThereConfirmations, lastModified: NOW - 10 * HOUR_MS });
+
+    expect(mergeReport(local, remote, context).resolved).toBe(true);
+  });
+
+  it('keeps an unsynced local council resolution over a newer remote copy', () => {
+    const local = report({ resolved: true, syncStatus: 'pending', lastModified: NOW - HOUR_MS });
+    const remote = report({ clearedConfirmations: [vote('c', 1)], lastModified: NOW });
+
+    const merged = mergeReport(local, remote, context);
+    expect(merged.resolved).toBe(true);
+    expect(merged.syncStatus).toBe('pending');
+  });
+});
@@ -4,15 +4,89 @@ import {
   update,
   remove,
   get,
-  onValue,
+  query,
+  orderByChild,
+  startAt,
+  endAt,
+  limitToFirst,
+  onChildAdded,
+  onChildChanged,
+  onChildRemoved,
   serverTimestamp,
   DataSnapshot,
 } from 'firebase/database';
 import { database } from './firebase-config';
-import { db, Report, getAllReports, markAsSynced, getPendingReports } from './db';
+import {
+  db,
+  Report,
+  ReportPhoto,
+  Confirmation,
+  ModerationField,
+  getAllReports,
+  markAsSynced,
+  getPendingReports,
+  bulkMarkResolved,
+  updateReport,
+  toggleFlagged,
+  toggleNoGlassFound,
+  archiveReport,
+  unarchiveReport,
+  resolveConflict,
+  evictReportsOutsideCells,
+} from './db';
+import { AdminAction, requirePermission } from './auth';
+import { encodeGeohash } from './geo';
+import { isHazardCategory, isHazardSeverity, DEFAULT_HAZARD_CATEGORY, DEFAULT_HAZARD_SEVERITY } from './hazards';
+import { uploadPendingPhotos, hasPendingPhotos, deleteReportPhotos } from './photos';
+import { mergeReportsLocally, getAliasedIds, applyRemoteMerges, getPendingAliases, markAliasSynced } from './duplicates';
+import { RuleContext, createRuleContext, getClearedProgress, meetsResetRule } from './confirmationRules';
+import { getSyncCells, getLastSyncLocation, saveLastSyncLocation, SYNC_AREAS_CHANGED_EVENT } from './syncAreas';
 import toast from 'react-hot-toast';
 
 const REPORTS_PATH = 'reports';
+const ALIASES_PATH = 'reportAliases';
+
+// Highest server `updatedAt` seen so far; only newer reports are downloaded
+const HIGH_WATER_MARK_KEY = 'pawsafe_sync_high_water_mark';
+
+// How long to collect child events before writing them to Dexie in one batch
+const BATCH_FLUSH_MS = 300;
+
+function getHighWaterMark(): number {
+  if (typeof window === 'undefined') return 0;
+  const stored = Number(localStorage.getItem(HIGH_WATER_MARK_KEY));
+  return Number.isFinite(stored) ? stored : 0;
+}
+
+function advanceHighWaterMark(updatedAt: number): void {
+  if (updatedAt > getHighWaterMark()) {
+    localStorage.setItem(HIGH_WATER_MARK_KEY, String(updatedAt));
+  }
+}
+
+// Reset the high-water mark so the next sync downloads everything again
+export function resetHighWaterMark(): void {
+  localStorage.removeItem(HIGH_WATER_MARK_KEY);
+}
+
+// Sync is scoped to geohash cells around the user's saved areas and current
+// location. With neither, every report changed since the high-water mark is synced.
+let syncLocation: { lat: number; lng: number } | null = null;
+let rescopeSync: (() => void) | null = null;
+
+function getCurrentSyncCells(): string[] {
+  return getSyncCells(syncLocation ?? getLastSyncLocation());
+}
+
+// Tell a running sync where the user is so it can follow them
+export function updateSyncLocation(lat: number, lng: number): void {
+  syncLocation = { lat, lng };
+  rescopeSync?.();
+}
+
+function cellQuery(cell: string) {
+  return query(ref(database, REPORTS_PATH), orderByChild('geohash'), startAt(cell), endAt(`${cell}\uf8ff`));
+}
 
 // Convert local Report to Realtime Database format
 function toRealtimeDbReport(report: Report): Record<string, unknown> {
@@ -20,6 +94,9 @@ function toRealtimeDbReport(report: Report): Record<string, unknown> {
     id: report.id,
     lat: report.lat,
     lng: report.lng,
+    geohash: report.geohash || encodeGeohash(report.lat, report.lng),
+    category: report.category || DEFAULT_HAZARD_CATEGORY,
+    severity: report.severity || DEFAULT_HAZARD_SEVERITY,
     desc: report.desc || '',
     date: report.date,
     clearedCount: report.clearedCount || 0,
@@ -27,46 +104,86 @@ function toRealtimeDbReport(report: Report): Record<string, unknown> {
     stillThereCount: report.stillThereCount || 0,
     stillThereConfirmations: report.stillThereConfirmations || [],
     clearedConfirmations: report.clearedConfirmations || [],
+    overturnedConfirmations: report.overturnedConfirmations || [],
     updatedAt: serverTimestamp(),
     archived: report.archived || false,
     flagged: report.flagged || false,
+    noGlassFound: report.noGlassFound || false,
   };
 
-  // Only add optional fields if they exist
-  if (report.photoBase64) {
-    dbData.photoBase64 = report.photoBase64;
-  }
+  // Only add optional fields if they exist. Inline photos are never
+  // pushed: they are uploaded to Storage first and only the URLs synced.
   if (report.photoUrl) {
     dbData.photoUrl = report.photoUrl;
   }
+  if (report.thumbnailUrl) {
+    dbData.thumbnailUrl = report.thumbnailUrl;
+  }
+  const uploadedPhotos = (report.photos || []).filter(photo => photo.photoUrl && photo.thumbnailUrl);
+  if (uploadedPhotos.length > 0) {
+    dbData.photos = Object.fromEntries(uploadedPhotos.map(photo => [photo.id, {
+      kind: photo.kind,
+      deviceId: photo.deviceId,
+      addedAt: photo.addedAt,
+      photoUrl: photo.photoUrl,
+      thumbnailUrl: photo.thumbnailUrl,
+    }]));
+  }
   if (report.archivedAt) {
     dbData.archivedAt = report.archivedAt;
   }
+  if (report.moderatedAt && Object.keys(report.moderatedAt).length > 0) {
+    dbData.moderatedAt = report.moderatedAt;
+  }
+  if (report.mergedFrom && report.mergedFrom.length > 0) {
+    dbData.mergedFrom = report.mergedFrom;
+  }
 
   return dbData;
 }
 
+// Gallery photos are stored keyed by photo id
+function fromRealtimeDbPhotos(data: unknown): ReportPhoto[] | undefined {
+  if (!data || typeof data !== 'object') return undefined;
+  return Object.entries(data as Record<string, Omit<ReportPhoto, 'id'>>)
+    .map(([id, photo]) => ({ ...photo, id }))
+    .sort((a, b) => toTime(a.addedAt) - toTime(b.addedAt));
+}
+
 // Convert Realtime Database data to local Report
 function fromRealtimeDbReport(data: Record<string, unknown>, id: string): Report {
+  const lat = data.lat as number;
+  const lng = data.lng as number;
   return {
     id: (data.id as string) || id,
-    lat: data.lat as number,
-    lng: data.lng as number,
+    lat,
+    lng,
+    geohash: (data.geohash as string) || encodeGeohash(lat, lng),
+    category: isHazardCategory(data.category) ? data.category : DEFAULT_HAZARD_CATEGORY,
+    severity: isHazardSeverity(data.severity) ? data.severity : DEFAULT_HAZARD_SEVERITY,
     desc: data.desc as string,
     photoBase64: data.photoBase64 as string | undefined,
     photoUrl: data.photoUrl as string | undefined,
+    thumbnailUrl: data.thumbnailUrl as string | undefined,
+    photos: fromRealtimeDbPhotos(data.photos),
     date: data.date as string,
     clearedCount: (data.clearedCount as number) || 0,
     resolved: (data.resolved as boolean) || false,
     stillThereCount: (data.stillThereCount as number) || 0,
     stillThereConfirmations: (data.stillThereConfirmations as Report['stillThereConfirmations']) || [],
     clearedConfirmations: (data.clearedConfirmations as Report['clearedConfirmations']) || [],
+    overturnedConfirmations: data.overturnedConfirmations as Report['overturnedConfirmations'],
     syncStatus: 'synced',
-    lastModified: typeof data.updatedAt === 'number' ? data.updatedAt : Date.now(),
+    // Server time only: legacy reports without updatedAt get 0, so local
+    // clock time never reaches the high-water mark
+    lastModified: typeof data.updatedAt === 'number' ? data.updatedAt : 0,
     firebaseId: id,
     archived: (data.archived as boolean) || false,
     archivedAt: data.archivedAt as number | undefined,
     flagged: (data.flagged as boolean) || false,
+    noGlassFound: (data.noGlassFound as boolean) || false,
+    moderatedAt: data.moderatedAt as Report['moderatedAt'],
+    mergedFrom: data.mergedFrom as string[] | undefined,
   };
 }
 
@@ -114,11 +231,21 @@ export async function syncPendingToFirestore(): Promise<void> {
   const syncedIds: string[] = [];
   const errors: string[] = [];
 
-  for (const report of pendingReports) {
+  for (const pendingReport of pendingReports) {
+    // Photos that fail to upload are left out of the push and retried on
+    // the next sync. A legacy inline photo can't be dropped from an
+    // existing report, so that report waits for its upload instead.
+    const report = await uploadPendingPhotos(pendingReport);
+    if (report.photoBase64 && !report.photoUrl && report.firebaseId) {
+      continue;
+    }
+
     try {
       const firebaseId = await syncReportToFirestore(report);
       firebaseIds[report.id] = firebaseId;
-      syncedIds.push(report.id);
+      if (!hasPendingPhotos(report)) {
+        syncedIds.push(report.id);
+      }
     } catch (error) {
       console.error(`Failed to sync report ${report.id}:`, error);
       errors.push(report.id);
@@ -130,6 +257,8 @@ export async function syncPendingToFirestore(): Promise<void> {
     console.log('Marked as synced:', syncedIds.length, 'reports');
   }
 
+  await syncPendingAliases(errors);
+
   if (errors.length > 0) {
     toast.error(`Failed to sync ${errors.length} report(s). Check console for details.`);
   } else if (syncedIds.length > 0) {
@@ -137,24 +266,66 @@ export async function syncPendingToFirestore(): Promise<void> {
   }
 }
 
+// Delete merged reports from Realtime Database, leaving an alias in their
+// place that the database rules check before a report is written. Waits
+// until the survivor has been pushed so its combined confirmations are kept.
+async function syncPendingAliases(failedIds: string[]): Promise<void> {
+  const aliases = (await getPendingAliases()).filter(alias => !failedIds.includes(alias.survivorId));
+  for (const alias of aliases) {
+    try {
+      await update(ref(database), {
+        [`${ALIASES_PATH}/${alias.id}`]: { survivorId: alias.survivorId, mergedAt: serverTimestamp() },
+        [`${REPORTS_PATH}/${alias.id}`]: null,
+      });
+      await markAliasSynced(alias.id);
+      console.log('Synced merge of report', alias.id, 'into', alias.survivorId);
+    } catch (error) {
+      console.error(`Failed to sync merge of report ${alias.id}:`, error);
+    }
+  }
+}
+
 // Fetch all reports from Realtime Database
 export async function fetchFromFirestore(): Promise<Report[]> {
-  console.log('Fetching reports from Realtime Database...');
+  return fetchChangedSince(0);
+}
+
+// Fetch every report in the given geohash cells
+export async function fetchInCells(cells: string[]): Promise<Report[]> {
+  console.log('Fetching reports in', cells.length, 'area cells from Realtime Database...');
   try {
-    const reportsRef = ref(database, REPORTS_PATH);
-    const snapshot = await get(reportsRef);
+    const snapshots = await Promise.all(cells.map(cell => get(cellQuery(cell))));
+    const reports: Report[] = [];
+    for (const snapshot of snapshots) {
+      snapshot.forEach((child) => {
+        reports.push(fromRealtimeDbReport(child.val() as Record<string, unknown>, child.key as string));
+      });
+    }
+
+    console.log('Fetched', reports.length, 'reports from Realtime Database');
+    return reports;
+  } catch (error) {
+    console.error('Error fetching from Realtime Database:', error);
+    throw error;
+  }
+}
+
+// Fetch reports whose server `updatedAt` is at or after `since`
+export async function fetchChangedSince(since: number): Promise<Report[]> {
+  console.log('Fetching reports changed since', since, 'from Realtime Database...');
+  try {
+    const reportsQuery = query(ref(database, REPORTS_PATH), orderByChild('updatedAt'), startAt(since));
+    const snapshot = await get(reportsQuery);
 
     if (!snapshot.exists()) {
-      console.log('No reports found in Realtime Database');
+      console.log('No changed reports in Realtime Database');
       return [];
     }
 
-    const data = snapshot.val();
     const reports: Report[] = [];
-
-    for (const [id, reportData] of Object.entries(data)) {
-      reports.push(fromRealtimeDbReport(reportData as Record<string, unknown>, id));
-    }
+    snapshot.forEach((child) => {
+      reports.push(fromRealtimeDbReport(child.val() as Record<string, unknown>, child.key as string));
+    });
 
     console.log('Fetched', reports.length, 'reports from Realtime Database');
     return reports;
@@ -164,19 +335,230 @@ export async function fetchFromFirestore(): Promise<Report[]> {
   }
 }
 
-// Merge remote reports with local, preferring the most recently modified
+// Reputation only changes once a hazard's votes settle, days after the
+// last one, so the rule context for merging is rebuilt at most this often
+// rather than scanning every local report on each flush
+const RULE_CONTEXT_MAX_AGE_MS = 10 * 60 * 1000;
+let cachedRuleContext: RuleContext | null = null;
+
+async function getRuleContext(): Promise<RuleContext> {
+  const now = Date.now();
+  if (!cachedRuleContext || now - cachedRuleContext.now > RULE_CONTEXT_MAX_AGE_MS) {
+    cachedRuleContext = createRuleContext(await db.reports.toArray(), now);
+  }
+  return cachedRuleContext;
+}
+
+// Merge a batch of remote reports into Dexie with a single bulkGet/bulkPut,
+// and advance the high-water mark past them
+export async function applyRemoteReports(remoteReports: Report[]): Promise<void> {
+  if (remoteReports.length === 0) return;
+
+  // Reports merged into another one stay gone
+  const aliased = await getAliasedIds(remoteReports.map(r => r.id));
+  const incoming = remoteReports.filter(r => !aliased.has(r.id));
+
+  const localReports = await db.reports.bulkGet(incoming.map(r => r.id));
+  const context = await getRuleContext();
+  const merged: Report[] = [];
+  incoming.forEach((remote, i) => {
+    const local = localReports[i];
+    if (!local) {
+      merged.push(remote);
+    } else if (local.syncStatus !== 'synced' || local.lastModified !== remote.lastModified) {
+      // Unchanged synced copies (re-sent when area listeners attach) are skipped
+      merged.push(mergeReport(local, remote, context));
+    }
+  });
+
+  await db.reports.bulkPut(merged);
+  await applyRemoteMerges(incoming);
+
+  // Remote lastModified is the server's updatedAt (0 when it has none)
+  advanceHighWaterMark(Math.max(...remoteReports.map(r => r.lastModified)));
+}
+
+const MODERATION_FIELDS: ModerationField[] = ['flagged', 'noGlassFound', 'archived'];
+
+function toTime(timestamp: string): number {
+  return new Date(timestamp).getTime() || 0;
+}
+
+// Union two confirmation lists. The remote entries keep their positions,
+// which the database rules require; local-only ones follow, oldest first.
+function unionConfirmations(
+  local: Confirmation[] = [],
+  remote: Confirmation[] = [],
+  keyOf: (c: Confirmation) => string
+): Confirmation[] {
+  const keys = new Set(remote.map(keyOf));
+  const added = local
+    .filter(c => !keys.has(keyOf(c)))
+    .sort((x, y) => toTime(x.timestamp) - toTime(y.timestamp));
+  return [...remote, ...added];
+}
+
+// Union gallery photos by id, preferring the uploaded copy of each
+function mergePhotos(a: ReportPhoto[] = [], b: ReportPhoto[] = []): ReportPhoto[] | undefined {
+  const byId = new Map<string, ReportPhoto>();
+  for (const photo of [...a, ...b]) {
+    const existing = byId.get(photo.id);
+    if (!existing || (!existing.photoUrl && photo.photoUrl)) {
+      byId.set(photo.id, photo);
+    }
+  }
+  if (byId.size === 0) return undefined;
+  return Array.from(byId.values()).sort((x, y) => toTime(x.addedAt) - toTime(y.addedAt));
+}
+
+function sameConfirmations(a: Confirmation[] = [], b: Confirmation[] = []): boolean {
+  if (a.length !== b.length) return false;
+  const keys = new Set(a.map(c => `${c.deviceId}|${c.timestamp}`));
+  return b.every(c => keys.has(`${c.deviceId}|${c.timestamp}`));
+}
+
+// Merge two copies of the same report field by field.
+// Confirmations are unioned and the counts/resolved state recomputed from
+// them under the confirmation rules;
+// moderation fields are merged using their moderatedAt timestamps. A moderation
+// field changed both locally (unsynced) and remotely after the local edit
+// can't be reconciled, so the report is marked 'conflict' for a council
+// member to resolve.
+export function mergeReport(local: Report, remote: Report, context: RuleContext): Report {
+  const stillThereConfirmations = unionConfirmations(
+    local.stillThereConfirmations,
+    remote.stillThereConfirmations,
+    c => `${c.deviceId}|${c.timestamp}`
+  );
+  const overturnedConfirmations = unionConfirmations(
+    local.overturnedConfirmations,
+    remote.overturnedConfirmations,
+    c => `${c.deviceId}|${c.timestamp}`
+  );
+  const overturned = new Set(overturnedConfirmations.map(c => `${c.deviceId}|${c.timestamp}`));
+  let clearedConfirmations = unionConfirmations(
+    local.clearedConfirmations,
+    remote.clearedConfirmations,
+    c => c.deviceId
+  ).filter(c => !overturned.has(`${c.deviceId}|${c.timestamp}`));
+
+  // Replay the "still there resets cleared progress" rule over the merged history
+  if (meetsResetRule(stillThereConfirmations, context)) {
+    const lastStillThere = Math.max(...stillThereConfirmations.map(c => toTime(c.timestamp)));
+    overturnedConfirmations.push(...clearedConfirmations.filter(c => toTime(c.timestamp) <= lastStillThere));
+    clearedConfirmations = clearedConfirmations.filter(c => toTime(c.timestamp) > lastStillThere);
+  }
+
+  const localTime = local.lastModified || 0;
+  const remoteTime = remote.lastModified || 0;
+  const newer = remoteTime > localTime ? remote : local;
+  const hasLocalEdits = local.syncStatus !== 'synced';
+
+  // Resolved when the merged "It's Cleared" votes meet the rules, or when a
+  // copy resolved some other way (by the council) hasn't been reopened
+  // since: by a reset that overturned its "It's Cleared" votes, or by
+  // "Still There" votes it hadn't seen
+  const allOverturned = new Set(overturnedConfirmations.map(c => `${c.deviceId}|${c.timestamp}`));
+  const reopenedSince = (copy: Report): boolean => {
+    const seen = new Set((copy.stillThereConfirmations || []).map(c => `${c.deviceId}|${c.timestamp}`));
+    return (copy.clearedConfirmations || []).some(c => allOverturned.has(`${c.deviceId}|${c.timestamp}`)) ||
+      (context.rules.stillThere.reopensResolved && stillThereConfirmations.some(c => !seen.has(`${c.deviceId}|${c.timestamp}`)));
+  };
+  const resolvedCopies = (hasLocalEdits ? [newer, local] : [newer]).filter(copy => copy.resolved);
+  const resolved = getClearedProgress(clearedConfirmations, context).met ||
+    resolvedCopies.some(copy => !reopenedSince(copy));
+
+  const merged: Report = {
+    ...newer,
+    stillThereConfirmations,
+    stillThereCount: stillThereConfirmations.length,
+    clearedConfirmations,
+    clearedCount: clearedConfirmations.length,
+    overturnedConfirmations: overturnedConfirmations.length > 0 ? overturnedConfirmations : undefined,
+    resolved,
+    lastModified: Math.max(localTime, remoteTime),
+    firebaseId: remote.firebaseId ?? local.firebaseId,
+  };
+
+  // Photo URLs are set once; an inline photo is only kept until it's uploaded
+  merged.photoUrl = remote.photoUrl ?? local.photoUrl;
+  merged.thumbnailUrl = remote.thumbnailUrl ?? local.thumbnailUrl;
+  merged.photoBase64 = merged.photoUrl ? undefined : local.photoBase64 ?? remote.photoBase64;
+  merged.photos = mergePhotos(local.photos, remote.photos);
+
+  const mergedFrom = Array.from(new Set([...(local.mergedFrom || []), ...(remote.mergedFrom || [])]));
+  merged.mergedFrom = mergedFrom.length > 0 ? mergedFrom : undefined;
+
+  const moderatedAt: Partial<Record<ModerationField, number>> = {};
+  const remoteConflict: Partial<Pick<Report, ModerationField>> = { ...local.remoteConflict };
+
+  for (const field of MODERATION_FIELDS) {
+    const localValue = local[field] ?? false;
+    const remoteValue = remote[field] ?? false;
+    const localAt = local.moderatedAt?.[field] ?? 0;
+    const remoteAt = remote.moderatedAt?.[field] ?? 0;
+
+    let takeLocal: boolean;
+    if (localValue === remoteValue) {
+      takeLocal = localAt >= remoteAt;
+    } else if (hasLocalEdits && localAt > 0 && remoteAt > localAt) {
+      // Edited on both sides: keep ours for now and remember theirs
+      takeLocal = true;
+      remoteConflict[field] = remoteValue;
+    } else if (localAt !== remoteAt) {
+      takeLocal = localAt > remoteAt;
+    } else {
+      // No per-field history (older records): fall back to the newer copy
+      takeLocal = newer === local;
+    }
+
+    merged[field] = takeLocal ? localValue : remoteValue;
+    const stamp = takeLocal ? localAt : remoteAt;
+    if (stamp > 0) moderatedAt[field] = stamp;
+    if (field === 'archived') {
+      merged.archivedAt = takeLocal ? local.archivedAt : remote.archivedAt;
+    }
+  }
+
+  merged.moderatedAt = Object.keys(moderatedAt).length > 0 ? moderatedAt : undefined;
+
+  if (Object.keys(remoteConflict).length > 0) {
+    merged.remoteConflict = remoteConflict;
+    merged.syncStatus = 'conflict';
+    return merged;
+  }
+  merged.remoteConflict = undefined;
+
+  // Push if the merged copy has anything the remote copy lacks
+  const differsFromRemote =
+    !sameConfirmations(merged.stillThereConfirmations, remote.stillThereConfirmations) ||
+    !sameConfirmations(merged.clearedConfirmations, remote.clearedConfirmations) ||
+    !sameConfirmations(merged.overturnedConfirmations, remote.overturnedConfirmations) ||
+    merged.resolved !== remote.resolved ||
+    merged.photoUrl !== remote.photoUrl ||
+    (merged.photoBase64 !== undefined && remote.photoBase64 === undefined) ||
+    (merged.photos?.length ?? 0) !== (remote.photos?.length ?? 0) ||
+    (merged.photos || []).some(photo => photo.photoBase64 !== undefined) ||
+    (merged.mergedFrom?.length ?? 0) !== (remote.mergedFrom?.length ?? 0) ||
+    MODERATION_FIELDS.some(field => (merged[field] ?? false) !== (remote[field] ?? false));
+
+  merged.syncStatus = differsFromRemote ? 'pending' : 'synced';
+  return merged;
+}
+
+// Merge remote reports with local, field by field for reports present in both
 export async function mergeReports(
   localReports: Report[],
   remoteReports: Report[]
 ): Promise<Report[]> {
   const merged = new Map<string, Report>();
+  const context = createRuleContext(localReports);
 
   // Add all local reports first
   for (const report of localReports) {
     merged.set(report.id, report);
   }
 
-  // Merge remote reports, preferring newer versions
   for (const remoteReport of remoteReports) {
     const localReport = merged.get(remoteReport.id);
 
@@ -184,51 +566,32 @@ export async function mergeReports(
       // New report from remote, add it
       merged.set(remoteReport.id, remoteReport);
     } else {
-      // Compare timestamps, use the newer one
-      const localTime = localReport.lastModified || 0;
-      const remoteTime = remoteReport.lastModified || 0;
-
-      if (remoteTime > localTime) {
-        merged.set(remoteReport.id, {
-          ...remoteReport,
-          syncStatus: 'synced',
-        });
-      } else if (localTime > remoteTime && localReport.syncStatus === 'pending') {
-        // Local is newer and needs to be pushed
-        merged.set(remoteReport.id, localReport);
-      }
+      merged.set(remoteReport.id, mergeReport(localReport, remoteReport, context));
     }
   }
 
   return Array.from(merged.values());
 }
 
-// Full sync: pull from Realtime Database, merge, push pending changes
+// Full sync: pull changes since the high-water mark, merge, push pending changes
 export async function fullSync(): Promise<Report[]> {
   console.log('Starting full sync...');
   try {
-    // 1. Fetch remote reports
-    const remoteReports = await fetchFromFirestore();
-    console.log('Remote reports:', remoteReports.length);
-
-    // 2. Get local reports
-    const localReports = await getAllReports();
-    console.log('Local reports:', localReports.length);
+    // 1. Fetch reports in the user's areas, or everything changed since the last sync
+    const cells = getCurrentSyncCells();
+    const remoteReports = cells.length > 0
+      ? await fetchInCells(cells)
+      : await fetchChangedSince(await getEffectiveHighWaterMark());
+    console.log('Changed remote reports:', remoteReports.length);
 
-    // 3. Merge
-    const mergedReports = await mergeReports(localReports, remoteReports);
-    console.log('Merged reports:', mergedReports.length);
-
-    // 4. Save merged reports to local DB
-    for (const report of mergedReports) {
-      await db.reports.put(report);
-    }
+    // 2. Merge into the local DB
+    await applyRemoteReports(remoteReports);
 
-    // 5. Push any pending changes
+    // 3. Push any pending changes
     await syncPendingToFirestore();
 
     console.log('Full sync completed');
-    return mergedReports;
+    return getAllReports();
   } catch (error) {
     console.error('Full sync failed:', error);
     toast.error('Sync failed. Using local data only.');
@@ -237,12 +600,34 @@ export async function fullSync(): Promise<Report[]> {
   }
 }
 
+// Start from scratch if the local database was cleared since the last sync
+async function getEffectiveHighWaterMark(): Promise<number> {
+  if ((await db.reports.count()) === 0) {
+    resetHighWaterMark();
+    return 0;
+  }
+  return getHighWaterMark();
+}
+
+// Key for the unscoped listener (all reports since the high-water mark)
+const ALL_REPORTS_SCOPE = '*';
+
 // Initialize sync with real-time updates
 export function initializeSync(onReportsUpdate: (reports: Report[]) => void): () => void {
-  let unsubscribe: (() => void) | null = null;
+  // Child listeners per scope key (a geohash cell, or ALL_REPORTS_SCOPE)
+  const listeners = new Map<string, (() => void)[]>();
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+  let isActive = true;
+
+  // Child events are buffered and written to Dexie in batches
+  const changedReports = new Map<string, Report>();
+  const removedIds = new Set<string>();
 
   const handleOnline = async () => {
     console.log('Online: Starting sync...');
+    if (listeners.size === 0) {
+      applyScope();
+    }
     try {
       const reports = await fullSync();
       onReportsUpdate(reports);
@@ -256,68 +641,145 @@ export function initializeSync(onReportsUpdate: (reports: Report[]) => void): ()
     toast('You are offline. Changes will sync when back online.', { icon: '📡' });
   };
 
-  // Set up real-time listener for Realtime Database changes
-  const setupRealtimeListener = () => {
-    console.log('Setting up Realtime Database listener...');
-    const reportsRef = ref(database, REPORTS_PATH);
-
-    const callback = async (snapshot: DataSnapshot) => {
-      console.log('Realtime Database update received');
+  const flush = async () => {
+    flushTimer = null;
+    const batch = Array.from(changedReports.values());
+    const removed = Array.from(removedIds);
+    changedReports.clear();
+    removedIds.clear();
 
-      if (!navigator.onLine) {
-        console.log('Offline, skipping remote update');
-        return;
+    console.log('Applying', batch.length, 'changed and', removed.length, 'removed reports');
+    try {
+      await applyRemoteReports(batch);
+      if (removed.length > 0) {
+        await db.reports.bulkDelete(removed);
+      }
+      if (isActive) {
+        onReportsUpdate(await getAllReports());
       }
+    } catch (error) {
+      console.error('Failed to apply remote changes:', error);
+    }
+  };
 
-      const remoteReports: Report[] = [];
+  const scheduleFlush = () => {
+    if (flushTimer === null) {
+      flushTimer = setTimeout(flush, BATCH_FLUSH_MS);
+    }
+  };
 
-      if (snapshot.exists()) {
-        const data = snapshot.val();
-        for (const [id, reportData] of Object.entries(data)) {
-          remoteReports.push(fromRealtimeDbReport(reportData as Record<string, unknown>, id));
-        }
-      }
+  const handleChild = (snapshot: DataSnapshot) => {
+    const id = snapshot.key as string;
+    removedIds.delete(id);
+    changedReports.set(id, fromRealtimeDbReport(snapshot.val() as Record<string, unknown>, id));
+    scheduleFlush();
+  };
 
-      console.log('Received', remoteReports.length, 'reports from real-time update');
+  const handleChildRemoved = (snapshot: DataSnapshot) => {
+    const id = snapshot.key as string;
+    changedReports.delete(id);
+    removedIds.add(id);
+    scheduleFlush();
+  };
 
-      const localReports = await getAllReports();
-      const merged = await mergeReports(localReports, remoteReports);
+  const handleListenerError = (error: Error) => {
+    console.error('Realtime Database listener error:', error);
+    toast.error('Real-time sync error. Please refresh the page.');
+  };
 
-      // Update local DB
-      for (const report of merged) {
-        await db.reports.put(report);
-      }
+  // Attach child listeners for one scope. The initial onChildAdded events
+  // deliver the scope's current reports; later events stream changes.
+  const subscribe = async (key: string) => {
+    let scopeQuery;
+    if (key === ALL_REPORTS_SCOPE) {
+      // Unscoped: only reports changed since the last sync
+      const since = await getEffectiveHighWaterMark();
+      scopeQuery = query(ref(database, REPORTS_PATH), orderByChild('updatedAt'), startAt(since));
+    } else {
+      scopeQuery = cellQuery(key);
+    }
+    // Scope may have changed while waiting
+    if (!isActive || !listeners.has(key)) return;
+
+    listeners.get(key)!.push(
+      onChildAdded(scopeQuery, handleChild, handleListenerError),
+      onChildChanged(scopeQuery, handleChild, handleListenerError),
+      onChildRemoved(scopeQuery, handleChildRemoved, handleListenerError),
+    );
+  };
 
-      onReportsUpdate(merged);
-    };
+  const unsubscribe = (key: string) => {
+    listeners.get(key)?.forEach(off => off());
+    listeners.delete(key);
+  };
 
-    // onValue returns an unsubscribe function
-    unsubscribe = onValue(reportsRef, callback, (error) => {
-      console.error('Realtime Database listener error:', error);
-      toast.error('Real-time sync error. Please refresh the page.');
-    });
+  // Move listeners to the current set of area cells, evicting local
+  // reports that fall outside them
+  const applyScope = () => {
+    if (!isActive || !navigator.onLine) return;
+
+    const cells = getCurrentSyncCells();
+    const keys = cells.length > 0 ? cells : [ALL_REPORTS_SCOPE];
+    const changed = keys.length !== listeners.size || keys.some(key => !listeners.has(key));
+    if (!changed) return;
 
-    console.log('Realtime Database listener set up');
+    const wasScoped = listeners.size > 0 && !listeners.has(ALL_REPORTS_SCOPE);
+    for (const key of Array.from(listeners.keys())) {
+      if (!keys.includes(key)) unsubscribe(key);
+    }
+    for (const key of keys) {
+      if (!listeners.has(key)) {
+        listeners.set(key, []);
+        subscribe(key);
+      }
+    }
+    console.log('Sync scope:', cells.length > 0 ? cells.join(', ') : 'all reports');
+
+    if (cells.length > 0) {
+      if (syncLocation) saveLastSyncLocation(syncLocation);
+      evictReportsOutsideCells(cells).then(async (count) => {
+        if (count > 0) {
+          console.log('Evicted', count, 'reports outside sync areas');
+          if (isActive) onReportsUpdate(await getAllReports());
+        }
+      });
+    } else if (wasScoped) {
+      // Evicted reports must be downloaded again now sync is unscoped
+      resetHighWaterMark();
+    }
   };
 
-  // Initial sync
+  // Show local data straight away; remote changes arrive through the listeners
+  getAllReports().then(onReportsUpdate);
+
   if (navigator.onLine) {
-    handleOnline();
-    setupRealtimeListener();
-  } else {
-    getAllReports().then(onReportsUpdate);
+    applyScope();
+    syncPendingToFirestore().catch(err => {
+      console.error('Initial push failed:', err);
+    });
   }
 
-  // Listen for online/offline events
+  rescopeSync = applyScope;
+
+  // Listen for online/offline and sync area events
   window.addEventListener('online', handleOnline);
   window.addEventListener('offline', handleOffline);
+  window.addEventListener(SYNC_AREAS_CHANGED_EVENT, applyScope);
 
   // Return cleanup function
   return () => {
+    isActive = false;
+    if (rescopeSync === applyScope) {
+      rescopeSync = null;
+    }
     window.removeEventListener('online', handleOnline);
     window.removeEventListener('offline', handleOffline);
-    if (unsubscribe) {
-      unsubscribe();
+    window.removeEventListener(SYNC_AREAS_CHANGED_EVENT, applyScope);
+    if (flushTimer !== null) {
+      clearTimeout(flushTimer);
+    }
+    for (const key of Array.from(listeners.keys())) {
+      unsubscribe(key);
     }
   };
 }
@@ -326,16 +788,17 @@ export function initializeSync(onReportsUpdate: (reports: Report[]) => void): ()
 export async function deleteReportFromFirestore(reportId: string): Promise<void> {
   const reportRef = ref(database, `${REPORTS_PATH}/${reportId}`);
   await remove(reportRef);
+  await deleteReportPhotos(reportId);
 }
 
 // Test Firebase Realtime Database connection
 export async function testFirebaseConnection(): Promise<boolean> {
   try {
     console.log('Testing Firebase Realtime Database connection...');
-    const reportsRef = ref(database, REPORTS_PATH);
+    // Read a single report so the check doesn't download the whole database
+    const reportsRef = query(ref(database, REPORTS_PATH), limitToFirst(1));
     const snapshot = await get(reportsRef);
-    const count = snapshot.exists() ? Object.keys(snapshot.val()).length : 0;
-    console.log('Firebase Realtime Database connection successful! Documents:', count);
+    console.log('Firebase Realtime Database connection successful! Has reports:', snapshot.exists());
     return true;
   } catch (error: unknown) {
     const err = error as { code?: string; message?: string };
@@ -345,9 +808,8 @@ export async function testFirebaseConnection(): Promise<boolean> {
 
     // Give specific guidance based on error
     if (err.code === 'PERMISSION_DENIED' || err.message?.includes('permission')) {
-      console.error('REALTIME DB RULES: You need to update your Realtime Database security rules.');
-      console.error('Go to Firebase Console > Realtime Database > Rules and set:');
-      console.error('{ "rules": { ".read": true, ".write": true } }');
+      console.error('REALTIME DB RULES: Your Realtime Database security rules are rejecting this request.');
+      console.error('Deploy the checked-in rules with: firebase deploy --only database');
     }
     return false;
   }
@@ -364,3 +826,68 @@ export async function updateReportField(
     updatedAt: serverTimestamp(),
   });
 }
+
+// Run a council moderation action: check the signed-in user's role, apply the
+// change locally, then push it in the background. Realtime Database rules
+// enforce the same roles server-side.
+async function runModerationAction<T>(action: AdminAction, apply: () => Promise<T>): Promise<T> {
+  await requirePermission(action);
+  const result = await apply();
+
+  syncPendingToFirestore().catch(err => {
+    console.error('Background sync failed:', err);
+  });
+
+  return result;
+}
+
+export function adminBulkMarkResolved(ids: string[]): Promise<void> {
+  return runModerationAction('markResolved', () => bulkMarkResolved(ids));
+}
+
+export function adminSetResolved(id: string, resolved: boolean): Promise<void> {
+  return runModerationAction('markResolved', async () => {
+    await updateReport(id, { resolved });
+  });
+}
+
+export function adminToggleFlagged(id: string): Promise<boolean> {
+  return runModerationAction('flag', () => toggleFlagged(id));
+}
+
+export function adminToggleNoGlassFound(id: string): Promise<boolean> {
+  return runModerationAction('toggleNoGlassFound', () => toggleNoGlassFound(id));
+}
+
+export function adminArchiveReport(id: string): Promise<void> {
+  return runModerationAction('archive', () => archiveReport(id));
+}
+
+export function adminUnarchiveReport(id: string): Promise<void> {
+  return runModerationAction('archive', () => unarchiveReport(id));
+}
+
+// Merge duplicate reports into one surviving report
+export function adminMergeReports(survivorId: string, duplicateIds: string[]): Promise<Report> {
+  return runModerationAction('merge', () => mergeReportsLocally(survivorId, duplicateIds));
+}
+
+// Permission needed to settle a conflict on each moderation field
+const FIELD_ACTIONS: Record<ModerationField, AdminAction> = {
+  flagged: 'flag',
+  noGlassFound: 'toggleNoGlassFound',
+  archived: 'archive',
+};
+
+export async function adminResolveConflict(id: string, keep: 'local' | 'remote'): Promise<void> {
+  const report = await db.reports.get(id);
+  const fields = Object.keys(report?.remoteConflict ?? {}) as ModerationField[];
+  for (const field of fields) {
+    await requirePermission(FIELD_ACTIONS[field]);
+  }
+
+  await resolveConflict(id, keep);
+  syncPendingToFirestore().catch(err => {
+    console.error('Background sync failed:', err);
+  });
+}
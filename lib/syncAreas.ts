@@ -0,0 +1,106 @@
+// Areas whose hazards are downloaded to this device
+
+import { geohashesCoveringRadius } from './geo';
+import { generateId } from './utils';
+
+export interface SyncArea {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+  radiusMeters: number;
+}
+
+export const DEFAULT_SYNC_RADIUS_METERS = 2000;
+export const SYNC_RADIUS_OPTIONS = [500, 1000, 2000, 5000, 10000];
+
+// Window event fired when saved areas or the radius change
+export const SYNC_AREAS_CHANGED_EVENT = 'pawsafe:sync-areas-changed';
+
+const STORAGE_KEY_AREAS = 'pawsafe_sync_areas';
+const STORAGE_KEY_RADIUS = 'pawsafe_sync_radius';
+const STORAGE_KEY_LAST_LOCATION = 'pawsafe_sync_last_location';
+
+function notifyChanged(): void {
+  window.dispatchEvent(new Event(SYNC_AREAS_CHANGED_EVENT));
+}
+
+export function getSyncAreas(): SyncArea[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY_AREAS);
+    return stored ? (JSON.parse(stored) as SyncArea[]) : [];
+  } catch (error) {
+    console.warn('Failed to load sync areas:', error);
+    return [];
+  }
+}
+
+function saveSyncAreas(areas: SyncArea[]): void {
+  localStorage.setItem(STORAGE_KEY_AREAS, JSON.stringify(areas));
+  notifyChanged();
+}
+
+export function addSyncArea(area: Omit<SyncArea, 'id'>): SyncArea {
+  const newArea = { ...area, id: generateId() };
+  saveSyncAreas([...getSyncAreas(), newArea]);
+  return newArea;
+}
+
+export function removeSyncArea(id: string): void {
+  saveSyncAreas(getSyncAreas().filter(area => area.id !== id));
+}
+
+// Radius synced around the user's current location
+export function getLocationSyncRadius(): number {
+  if (typeof window === 'undefined') return DEFAULT_SYNC_RADIUS_METERS;
+  const stored = Number(localStorage.getItem(STORAGE_KEY_RADIUS));
+  return stored > 0 ? stored : DEFAULT_SYNC_RADIUS_METERS;
+}
+
+export function setLocationSyncRadius(meters: number): void {
+  localStorage.setItem(STORAGE_KEY_RADIUS, String(meters));
+  notifyChanged();
+}
+
+// Last known location, so sync can be scoped before the first GPS fix
+export function getLastSyncLocation(): { lat: number; lng: number } | null {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY_LAST_LOCATION);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveLastSyncLocation(location: { lat: number; lng: number }): void {
+  localStorage.setItem(STORAGE_KEY_LAST_LOCATION, JSON.stringify(location));
+}
+
+// Geohash cells covering the saved areas and the user's location. Cells
+// already covered by a shorter (larger) cell are dropped.
+export function getSyncCells(location: { lat: number; lng: number } | null): string[] {
+  const circles = getSyncAreas().map(area => ({ lat: area.lat, lng: area.lng, radius: area.radiusMeters }));
+  if (location) {
+    circles.push({ lat: location.lat, lng: location.lng, radius: getLocationSyncRadius() });
+  }
+
+  const cells = new Set<string>();
+  for (const circle of circles) {
+    for (const cell of geohashesCoveringRadius(circle.lat, circle.lng, circle.radius)) {
+      cells.add(cell);
+    }
+  }
+
+  const sorted = Array.from(cells).sort((a, b) => a.length - b.length);
+  const result: string[] = [];
+  for (const cell of sorted) {
+    if (!result.some(larger => cell.startsWith(larger))) {
+      result.push(cell);
+    }
+  }
+  return result.sort();
+}
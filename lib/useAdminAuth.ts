@@ -0,0 +1,44 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { AdminAction, AdminSession, canPerform, onAdminSessionChanged, signInAdmin, signOutAdmin } from './auth';
+
+interface AdminAuthState {
+  session: AdminSession | null;
+  isLoading: boolean;
+}
+
+// Track the council admin's Firebase Auth session and role
+export function useAdminAuth() {
+  const [state, setState] = useState<AdminAuthState>({
+    session: null,
+    isLoading: true,
+  });
+
+  useEffect(() => {
+    return onAdminSessionChanged((session) => {
+      setState({ session, isLoading: false });
+    });
+  }, []);
+
+  const signIn = useCallback((email: string, password: string) => {
+    return signInAdmin(email, password);
+  }, []);
+
+  const signOut = useCallback(() => {
+    return signOutAdmin();
+  }, []);
+
+  const can = useCallback((action: AdminAction) => {
+    return canPerform(state.session?.role, action);
+  }, [state.session]);
+
+  return {
+    session: state.session,
+    role: state.session?.role ?? null,
+    isLoading: state.isLoading,
+    signIn,
+    signOut,
+    can,
+  };
+}
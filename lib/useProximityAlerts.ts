@@ -1,25 +1,99 @@
 'use client';
 
-import { useEffect, useRef, useCallback, useState } from 'react';
+import { useEffect, useRef, useCallback, useState, useMemo } from 'react';
 import { Report } from './db';
-import { calculateDistance } from './utils';
-
-// Constants
-const ENTRY_RADIUS_METERS = 3; // ~10 feet
-const EXIT_RADIUS_METERS = 6; // ~20 feet (buffer to prevent flicker)
+import { getOrCreateDeviceId } from './utils';
+import { showAlertNotification } from './alertActions';
+import { useHazardAcknowledgements, isAcknowledgementActive, pruneAcknowledgements } from './acknowledgements';
+import { createGeohashIndex, queryGeohashIndex } from './geo';
+import { isLiveHazard } from './decay';
+import { MAX_ALERT_EXIT_RADIUS, HAZARD_CATEGORIES, DEFAULT_HAZARD_CATEGORY } from './hazards';
+import { GpsFilterState, FilteredFix, filterFix, stepProximity } from './gpsFilter';
+import { useAlertSettings, shouldAlertFor, isQuietHours, VIBRATION_PATTERNS } from './alertSettings';
+import { playAlertTone, speakAlert } from './alertSound';
+import { buildAlertPhrase, getUserLocale } from './alertPhrases';
+import {
+  HazardAhead,
+  LookAheadState,
+  INITIAL_LOOK_AHEAD_STATE,
+  DEFAULT_LOOK_AHEAD_OPTIONS,
+  updateLookAhead,
+  toGpsFix,
+  describeHazardAhead,
+} from './lookAhead';
+
+// Constants (radii, vibration, quiet hours and self-report suppression are
+// user settings, see alertSettings.ts; accuracy handling is in gpsFilter.ts)
 const DEBOUNCE_MS = 1000; // Check every second for responsive real-time alerts
-const SELF_REPORT_SUPPRESS_MS = 10 * 60 * 1000; // 10 minutes
+const AUDIO_COOLDOWN_MS = 2 * 60 * 1000; // Don't repeat the chime/phrase for the same alert within 2 minutes
+const SAVED_STATE_MAX_AGE_MS = 5 * 60 * 1000; // Restore alert state after a tab switch or reload within 5 minutes
+
+const STORAGE_KEY_ALERT_STATE = 'pawsafe_proximity_alert_state';
+
+// Alert state kept in sessionStorage so a page that was suspended or
+// reloaded in the background doesn't re-alert or lose the current alert
+interface SavedAlertState {
+  inside: [string, number][]; // Report id -> confidence
+  triggered: boolean;
+  savedAt: number;
+}
+
+function loadAlertState(): SavedAlertState | null {
+  try {
+    const stored = sessionStorage.getItem(STORAGE_KEY_ALERT_STATE);
+    const saved = stored ? (JSON.parse(stored) as SavedAlertState) : null;
+    return saved && Date.now() - saved.savedAt < SAVED_STATE_MAX_AGE_MS ? saved : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveAlertState(inside: Map<string, number>, triggered: boolean): void {
+  try {
+    if (inside.size === 0) {
+      sessionStorage.removeItem(STORAGE_KEY_ALERT_STATE);
+      return;
+    }
+    const saved: SavedAlertState = { inside: Array.from(inside.entries()), triggered, savedAt: Date.now() };
+    sessionStorage.setItem(STORAGE_KEY_ALERT_STATE, JSON.stringify(saved));
+  } catch (error) {
+    console.warn('Failed to save proximity alert state:', error);
+  }
+}
 
 interface ProximityAlertState {
   isInProximity: boolean;
   nearbyReportIds: string[];
-  userLocation: { lat: number; lng: number } | null;
+  userLocation: { lat: number; lng: number } | null; // Smoothed position
+  accuracy: number | null; // 95% radius of the smoothed position, metres
+  confidence: number; // 0-1 likelihood of really being within the nearest alerting hazard's radius
+  heading: number | null; // Direction of travel, null when standing still
+  hazardsAhead: HazardAhead[]; // Hazards in the look-ahead cone, nearest first
+}
+
+const INITIAL_STATE: ProximityAlertState = {
+  isInProximity: false,
+  nearbyReportIds: [],
+  userLocation: null,
+  accuracy: null,
+  confidence: 0,
+  heading: null,
+  hazardsAhead: [],
+};
+
+// Passed to onPosition after each checked fix
+export interface ProximityPositionUpdate {
+  fix: FilteredFix;
+  alertedReportIds: string[]; // Hazards alerted on at this fix (nearby or just seen ahead)
 }
 
 interface UseProximityAlertsProps {
   reports: Report[];
   enabled: boolean;
+  keepWatching?: boolean; // Keep GPS running even when alerts are off (e.g. recording a walk)
+  onPosition?: (update: ProximityPositionUpdate) => void;
   suppressedReportIds: string[]; // Report IDs to ignore (self-reported)
+  lookAheadEnabled?: boolean; // Also warn about hazards on the path ahead
   onAlertTriggered: (reportIds: string[]) => void;
   onAlertCleared: () => void;
 }
@@ -27,20 +101,56 @@ interface UseProximityAlertsProps {
 export function useProximityAlerts({
   reports,
   enabled,
+  keepWatching = false,
+  onPosition,
   suppressedReportIds,
+  lookAheadEnabled = false,
   onAlertTriggered,
   onAlertCleared,
 }: UseProximityAlertsProps) {
-  const [state, setState] = useState<ProximityAlertState>({
-    isInProximity: false,
-    nearbyReportIds: [],
-    userLocation: null,
-  });
+  const [state, setState] = useState<ProximityAlertState>(INITIAL_STATE);
+  const { settings } = useAlertSettings();
 
   const watchIdRef = useRef<number | null>(null);
   const lastCheckRef = useRef<number>(0);
-  const previouslyInProximityRef = useRef<Set<string>>(new Set());
+  const previouslyInProximityRef = useRef<Map<string, number>>(new Map());
   const hasTriggeredAlertRef = useRef(false);
+  const lookAheadRef = useRef<LookAheadState>(INITIAL_LOOK_AHEAD_STATE);
+  const gpsFilterRef = useRef<GpsFilterState | null>(null);
+  const lastAnnouncedRef = useRef<Map<string, number>>(new Map());
+
+  // Hazards this device has snoozed or muted
+  const { acknowledgements } = useHazardAcknowledgements();
+  const acknowledgedIds = useMemo(() => {
+    const deviceId = getOrCreateDeviceId();
+    return new Set(reports
+      .filter(report => {
+        const ack = acknowledgements.get(report.id);
+        return ack && isAcknowledgementActive(ack, report, deviceId);
+      })
+      .map(report => report.id));
+  }, [reports, acknowledgements]);
+
+  // Drop acknowledgements that have expired or been overtaken by new confirmations
+  useEffect(() => {
+    if (acknowledgements.size === 0) return;
+    const reportsById = new Map(reports.map(report => [report.id, report]));
+    pruneAcknowledgements(Array.from(acknowledgements.values()), reportsById, getOrCreateDeviceId())
+      .catch(error => console.error('Failed to prune acknowledgements:', error));
+  }, [reports, acknowledgements]);
+
+  // Spatial index of active reports (not resolved, archived or expired)
+  // that the user wants alerts for, rebuilt only when reports, settings or
+  // acknowledgements change so each GPS fix checks nearby hazards only
+  const { minSeverity, alertStatuses } = settings;
+  const activeReportIndex = useMemo(
+    () => createGeohashIndex(
+      reports.filter(r =>
+        isLiveHazard(r) && !acknowledgedIds.has(r.id) && shouldAlertFor(r, { minSeverity, alertStatuses })
+      )
+    ),
+    [reports, minSeverity, alertStatuses, acknowledgedIds]
+  );
 
   // Request notification permission on mount
   useEffect(() => {
@@ -51,82 +161,143 @@ export function useProximityAlerts({
     }
   }, [enabled]);
 
-  // Trigger vibration
-  const triggerVibration = useCallback(() => {
-    if (typeof navigator !== 'undefined' && 'vibrate' in navigator) {
-      navigator.vibrate([200, 100, 200]);
+  // Vibrate as configured; silent during quiet hours
+  const triggerVibration = useCallback((pattern: number[]) => {
+    if (isQuietHours(settings.quietHours)) return;
+    if (pattern.length > 0 && typeof navigator !== 'undefined' && 'vibrate' in navigator) {
+      navigator.vibrate(pattern);
     }
-  }, []);
+  }, [settings.quietHours]);
 
-  // Show browser notification
-  const showNotification = useCallback(() => {
-    if (typeof window === 'undefined' || !('Notification' in window)) return;
+  // Chime and/or speak an alert, at most once per cooldown for each
+  // hazard and alert kind; silent during quiet hours
+  const announce = useCallback((report: Report, ahead?: HazardAhead) => {
+    if ((!settings.sound && !settings.speech) || isQuietHours(settings.quietHours)) return;
 
-    if (Notification.permission === 'granted') {
-      new Notification('PawSafe Alert', {
-        body: 'Caution — Broken Glass Reported Ahead',
-        icon: '/icons/icon-192x192.png',
-        tag: 'proximity-alert', // Prevents duplicate notifications
-        requireInteraction: false,
-      });
+    const key = `${ahead ? 'ahead' : 'nearby'}:${report.id}`;
+    const now = Date.now();
+    const lastAnnounced = lastAnnouncedRef.current.get(key);
+    if (lastAnnounced !== undefined && now - lastAnnounced < AUDIO_COOLDOWN_MS) return;
+    lastAnnouncedRef.current.set(key, now);
+
+    if (settings.sound) {
+      playAlertTone();
     }
-  }, []);
+    if (settings.speech) {
+      const locale = getUserLocale();
+      const phrase = buildAlertPhrase(report.category ?? DEFAULT_HAZARD_CATEGORY, locale, ahead);
+      // Let the chime finish before speaking
+      setTimeout(() => speakAlert(phrase, locale), settings.sound ? 700 : 0);
+    }
+  }, [settings.sound, settings.speech, settings.quietHours]);
+
+  // Show browser notification with Still there / Cleared actions, so the
+  // walker can answer from the lock screen
+  const showNotification = useCallback((report: Report) => {
+    if (isQuietHours(settings.quietHours)) return;
+
+    const { label } = HAZARD_CATEGORIES[report.category ?? DEFAULT_HAZARD_CATEGORY];
+    void showAlertNotification({
+      title: 'PawSafe Alert',
+      body: `Caution — ${label} Reported Ahead`,
+      tag: 'proximity-alert',
+      reportId: report.id,
+      deviceId: getOrCreateDeviceId(),
+      withActions: true,
+    });
+  }, [settings.quietHours]);
+
+  // Warn about a hazard coming up on the path with a single short buzz
+  const showLookAheadNotification = useCallback((hazard: HazardAhead) => {
+    triggerVibration(settings.vibration === 'off' ? [] : VIBRATION_PATTERNS.short.pattern);
+    announce(hazard.report, hazard);
+    if (isQuietHours(settings.quietHours)) return;
+
+    const { label } = HAZARD_CATEGORIES[hazard.report.category ?? DEFAULT_HAZARD_CATEGORY];
+    void showAlertNotification({
+      title: 'PawSafe Alert',
+      body: `${label} ${describeHazardAhead(hazard)}`,
+      tag: 'look-ahead-alert',
+      reportId: hazard.report.id,
+      deviceId: getOrCreateDeviceId(),
+      withActions: false, // Not there yet, so nothing to confirm
+    });
+  }, [settings.vibration, settings.quietHours, triggerVibration, announce]);
 
   // Check proximity to reports
   const checkProximity = useCallback((position: GeolocationPosition) => {
+    // Smooth every fix, even ones the debounce skips
+    const filtered = filterFix(gpsFilterRef.current, toGpsFix(position));
+    gpsFilterRef.current = filtered.state;
+    const fix = filtered.fix;
+    if (!fix) return; // Jump outlier
+
     const now = Date.now();
 
     // Debounce checks
     if (now - lastCheckRef.current < DEBOUNCE_MS) return;
     lastCheckRef.current = now;
 
-    const { latitude, longitude } = position.coords;
-    const userLoc = { lat: latitude, lng: longitude };
+    const userLoc = { lat: fix.lat, lng: fix.lng };
 
-    // Filter active reports (not resolved, not archived)
-    const activeReports = reports.filter(r => !r.resolved && !r.archived);
-
-    // Find nearby reports (within entry or exit radius)
-    const nearbyIds: string[] = [];
-    const currentlyInProximity = new Set<string>();
+    // GPS only kept running for walk tracking
+    if (!enabled) {
+      setState(prev => ({ ...prev, userLocation: userLoc, accuracy: fix.accuracy }));
+      onPosition?.({ fix, alertedReportIds: [] });
+      return;
+    }
 
-    for (const report of activeReports) {
-      // Skip suppressed reports (self-reported)
-      if (suppressedReportIds.includes(report.id)) continue;
+    // Active reports in the geohash cells around the user, widened by how
+    // unsure we are of the position
+    const alertRadius = MAX_ALERT_EXIT_RADIUS * settings.radiusMultiplier + fix.accuracy;
+    const activeReports = queryGeohashIndex(activeReportIndex, fix.lat, fix.lng, alertRadius)
+      .filter(report => !suppressedReportIds.includes(report.id)); // Skip self-reported
 
-      const distance = calculateDistance(latitude, longitude, report.lat, report.lng);
+    const previous = previouslyInProximityRef.current;
+    const step = stepProximity(previous, fix, activeReports, settings.radiusMultiplier);
+    const nearbyIds = Array.from(step.inside.keys());
+    const justExited = nearbyIds.length === 0 && previous.size > 0;
 
-      // Check if within entry radius
-      if (distance <= ENTRY_RADIUS_METERS) {
-        nearbyIds.push(report.id);
-        currentlyInProximity.add(report.id);
-      }
-      // Check if was previously in proximity but now within exit radius (hysteresis)
-      else if (distance <= EXIT_RADIUS_METERS && previouslyInProximityRef.current.has(report.id)) {
-        nearbyIds.push(report.id);
-        currentlyInProximity.add(report.id);
+    // Update previous proximity set
+    previouslyInProximityRef.current = step.inside;
+
+    // Hazards coming up on the path, excluding ones already being alerted
+    let heading: number | null = null;
+    let hazardsAhead: HazardAhead[] = [];
+    let newAheadIds: string[] = [];
+    if (lookAheadEnabled) {
+      const candidates = queryGeohashIndex(activeReportIndex, fix.lat, fix.lng, DEFAULT_LOOK_AHEAD_OPTIONS.maxLookAhead)
+        .filter(report => !suppressedReportIds.includes(report.id) && !step.inside.has(report.id));
+      const update = updateLookAhead(lookAheadRef.current, fix, candidates);
+      lookAheadRef.current = update.state;
+      heading = update.heading;
+      hazardsAhead = update.hazardsAhead;
+      newAheadIds = update.newAlerts.map(hazard => hazard.report.id);
+      if (update.newAlerts.length > 0 && nearbyIds.length === 0) {
+        showLookAheadNotification(update.newAlerts[0]);
       }
     }
 
-    // Determine if we just entered proximity (new reports)
-    const newlyEntered = nearbyIds.filter(id => !previouslyInProximityRef.current.has(id));
-    const justExited = nearbyIds.length === 0 && previouslyInProximityRef.current.size > 0;
-
-    // Update previous proximity set
-    previouslyInProximityRef.current = currentlyInProximity;
-
     // Update state
     setState({
       isInProximity: nearbyIds.length > 0,
       nearbyReportIds: nearbyIds,
       userLocation: userLoc,
+      accuracy: fix.accuracy,
+      confidence: step.confidence,
+      heading,
+      hazardsAhead,
     });
 
     // Trigger alerts on entry
-    if (newlyEntered.length > 0 && !hasTriggeredAlertRef.current) {
+    if (step.newlyEntered.length > 0 && !hasTriggeredAlertRef.current) {
       hasTriggeredAlertRef.current = true;
-      triggerVibration();
-      showNotification();
+      triggerVibration(VIBRATION_PATTERNS[settings.vibration].pattern);
+      const firstEntered = activeReports.find(report => report.id === step.newlyEntered[0]);
+      if (firstEntered) {
+        showNotification(firstEntered);
+        announce(firstEntered);
+      }
       onAlertTriggered(nearbyIds);
     }
 
@@ -135,11 +306,14 @@ export function useProximityAlerts({
       hasTriggeredAlertRef.current = false;
       onAlertCleared();
     }
-  }, [reports, suppressedReportIds, triggerVibration, showNotification, onAlertTriggered, onAlertCleared]);
+
+    saveAlertState(step.inside, hasTriggeredAlertRef.current);
+    onPosition?.({ fix, alertedReportIds: [...nearbyIds, ...newAheadIds] });
+  }, [enabled, onPosition, activeReportIndex, suppressedReportIds, lookAheadEnabled, settings.radiusMultiplier, settings.vibration, triggerVibration, announce, showNotification, showLookAheadNotification, onAlertTriggered, onAlertCleared]);
 
   // Set up geolocation watch
   useEffect(() => {
-    if (!enabled || typeof navigator === 'undefined' || !('geolocation' in navigator)) {
+    if (!(enabled || keepWatching) || typeof navigator === 'undefined' || !('geolocation' in navigator)) {
       return;
     }
 
@@ -163,21 +337,70 @@ export function useProximityAlerts({
         watchIdRef.current = null;
       }
     };
+  }, [enabled, keepWatching, checkProximity]);
+
+  // Restore the alert state after the page was suspended or reloaded, and
+  // show a restored alert again. Read after mount so the first render
+  // matches the server's.
+  const restoredRef = useRef(false);
+  useEffect(() => {
+    if (restoredRef.current) return;
+    restoredRef.current = true;
+    const savedState = loadAlertState();
+    if (!savedState) return;
+
+    previouslyInProximityRef.current = new Map(savedState.inside);
+    hasTriggeredAlertRef.current = savedState.triggered;
+    setState(prev => ({
+      ...prev,
+      isInProximity: true,
+      nearbyReportIds: savedState.inside.map(([id]) => id),
+      confidence: Math.max(0, ...savedState.inside.map(([, confidence]) => confidence)),
+    }));
+    if (savedState.triggered) {
+      onAlertTriggered(savedState.inside.map(([id]) => id));
+    }
+  }, [onAlertTriggered]);
+
+  // Check straight away when the tab comes back, rather than waiting for
+  // the next watchPosition fix
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleVisibility = () => {
+      if (document.visibilityState !== 'visible') return;
+      lastCheckRef.current = 0;
+      navigator.geolocation?.getCurrentPosition(checkProximity, () => {}, {
+        enableHighAccuracy: true,
+        timeout: 5000,
+        maximumAge: 0,
+      });
+    };
+
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => document.removeEventListener('visibilitychange', handleVisibility);
   }, [enabled, checkProximity]);
 
   // Reset alert state when disabled
   useEffect(() => {
     if (!enabled) {
       hasTriggeredAlertRef.current = false;
-      previouslyInProximityRef.current = new Set();
-      setState({
-        isInProximity: false,
-        nearbyReportIds: [],
-        userLocation: null,
-      });
+      previouslyInProximityRef.current = new Map();
+      gpsFilterRef.current = null;
+      lookAheadRef.current = INITIAL_LOOK_AHEAD_STATE;
+      saveAlertState(new Map(), false);
+      setState(INITIAL_STATE);
     }
   }, [enabled]);
 
+  // Forget recent fixes when look-ahead is switched off so a stale
+  // heading isn't used when it comes back on
+  useEffect(() => {
+    if (!lookAheadEnabled) {
+      lookAheadRef.current = INITIAL_LOOK_AHEAD_STATE;
+    }
+  }, [lookAheadEnabled]);
+
   return state;
 }
 
@@ -185,18 +408,21 @@ export function useProximityAlerts({
 export function useSuppressedReports() {
   const [suppressedIds, setSuppressedIds] = useState<string[]>([]);
   const suppressTimers = useRef<Map<string, NodeJS.Timeout>>(new Map());
+  const { settings } = useAlertSettings();
+  const suppressMs = settings.selfReportSuppressMinutes * 60 * 1000;
 
   const suppressReport = useCallback((reportId: string) => {
+    if (suppressMs <= 0) return;
     setSuppressedIds(prev => [...prev, reportId]);
 
-    // Auto-remove after 10 minutes
+    // Auto-remove after the configured time
     const timer = setTimeout(() => {
       setSuppressedIds(prev => prev.filter(id => id !== reportId));
       suppressTimers.current.delete(reportId);
-    }, SELF_REPORT_SUPPRESS_MS);
+    }, suppressMs);
 
     suppressTimers.current.set(reportId, timer);
-  }, []);
+  }, [suppressMs]);
 
   // Cleanup timers on unmount
   useEffect(() => {
@@ -229,3 +455,25 @@ export function useProximityAlertsToggle() {
 
   return { enabled, toggle, setEnabled };
 }
+
+// Helper for the look-ahead localStorage toggle
+export function useLookAheadAlertsToggle() {
+  const [enabled, setEnabled] = useState(true);
+
+  useEffect(() => {
+    const stored = localStorage.getItem('lookAheadAlertsEnabled');
+    if (stored !== null) {
+      setEnabled(stored === 'true');
+    }
+  }, []);
+
+  const toggle = useCallback(() => {
+    setEnabled(prev => {
+      const newValue = !prev;
+      localStorage.setItem('lookAheadAlertsEnabled', String(newValue));
+      return newValue;
+    });
+  }, []);
+
+  return { enabled, toggle, setEnabled };
+}
@@ -0,0 +1,69 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Walk } from './db';
+import { createWalk, appendWalkPoint, addWalkHazards, saveWalk, getActiveWalk } from './walks';
+import { ProximityPositionUpdate } from './useProximityAlerts';
+
+const SAVE_INTERVAL_MS = 15000; // Persist the walk in progress at most this often
+
+// Records a walk from the fixes useProximityAlerts reports via onPosition
+export function useWalkTracker() {
+  const [activeWalk, setActiveWalk] = useState<Walk | null>(null);
+  const walkRef = useRef<Walk | null>(null);
+  const lastSavedRef = useRef(0);
+
+  // Resume a walk left running when the page was closed
+  useEffect(() => {
+    getActiveWalk()
+      .then((walk) => {
+        if (walk && !walkRef.current) {
+          walkRef.current = walk;
+          setActiveWalk(walk);
+        }
+      })
+      .catch(error => console.error('Failed to load active walk:', error));
+  }, []);
+
+  const startWalk = useCallback(async () => {
+    const walk = createWalk();
+    walkRef.current = walk;
+    setActiveWalk(walk);
+    await saveWalk(walk);
+    lastSavedRef.current = Date.now();
+  }, []);
+
+  // Finish the walk; returns it so the caller can show a summary
+  const stopWalk = useCallback(async (): Promise<Walk | null> => {
+    const walk = walkRef.current;
+    if (!walk) return null;
+
+    const finished = { ...walk, endedAt: Date.now() };
+    walkRef.current = null;
+    setActiveWalk(null);
+    await saveWalk(finished);
+    return finished;
+  }, []);
+
+  const recordPosition = useCallback(({ fix, alertedReportIds }: ProximityPositionUpdate) => {
+    const walk = walkRef.current;
+    if (!walk) return;
+
+    const next = addWalkHazards(
+      appendWalkPoint(walk, { lat: fix.lat, lng: fix.lng, t: fix.timestamp }, fix.accuracy),
+      alertedReportIds
+    );
+    if (next === walk) return;
+
+    walkRef.current = next;
+    setActiveWalk(next);
+
+    const now = Date.now();
+    if (now - lastSavedRef.current >= SAVE_INTERVAL_MS) {
+      lastSavedRef.current = now;
+      saveWalk(next).catch(error => console.error('Failed to save walk:', error));
+    }
+  }, []);
+
+  return { activeWalk, startWalk, stopWalk, recordPosition };
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { Walk } from './db';
+import { GpsFix } from './lookAhead';
+import { GpsFilterState, filterFix } from './gpsFilter';
+import {
+  addWalkHazards,
+  appendWalkPoint,
+  createWalk,
+  formatWalkDistance,
+  formatWalkDuration,
+  walkToGpx,
+} from './walks';
+import { TRACE_START, hazardAt, offsetPosition, simulateWalk } from './__fixtures__/walkTraces';
+
+const SEEDS = Array.from({ length: 30 }, (_, i) => i + 1);
+const MINUTE_MS = 60 * 1000;
+
+// Record a trace as the walk tracker does, from the filtered fixes
+function record(fixes: GpsFix[]): Walk {
+  let filterState: GpsFilterState | null = null;
+  let walk = createWalk();
+  for (const raw of fixes) {
+    const { state, fix } = filterFix(filterState, raw);
+    filterState = state;
+    if (fix) walk = appendWalkPoint(walk, { lat: fix.lat, lng: fix.lng, t: fix.timestamp }, fix.accuracy);
+  }
+  return walk;
+}
+
+describe('appendWalkPoint', () => {
+  const start = { ...TRACE_START, t: 0 };
+
+  it('starts the track at the first point', () => {
+    const walk = appendWalkPoint(createWalk(), start);
+    expect(walk.points).toEqual([start]);
+    expect(walk.distanceMeters).toBe(0);
+  });
+
+  it('adds the distance walked', () => {
+    const next = { ...offsetPosition(TRACE_START, 90, 20), t: 15000 };
+    const walk = appendWalkPoint(appendWalkPoint(createWalk(), start), next);
+    expect(walk.points).toEqual([start, next]);
+    expect(walk.distanceMeters).toBeCloseTo(20, 1);
+  });
+
+  it('skips points too close to the last one', () => {
+    const walk = appendWalkPoint(createWalk(), start);
+    expect(appendWalkPoint(walk, { ...offsetPosition(TRACE_START, 90, 3), t: 2000 })).toBe(walk);
+  });
+
+  it('skips steps within twice the fix accuracy', () => {
+    const walk = appendWalkPoint(createWalk(), start);
+    const next = { ...offsetPosition(TRACE_START, 90, 8), t: 5000 };
+    expect(appendWalkPoint(walk, next, 5)).toBe(walk);
+    expect(appendWalkPoint(walk, next, 3).points).toHaveLength(2);
+  });
+
+  it('skips inaccurate fixes', () => {
+    const walk = appendWalkPoint(createWalk(), start);
+    expect(appendWalkPoint(walk, { ...offsetPosition(TRACE_START, 90, 50), t: 2000 }, 60)).toBe(walk);
+  });
+});
+
+describe('recording walks', () => {
+  it('measures a clean walk and keeps a point every few metres', () => {
+    // 60 s at 1.4 m/s with a fix every second, 82.6 m from the first fix
+    const walk = record(simulateWalk([{ bearing: 90, seconds: 60 }], { accuracy: 1 }));
+
+    expect(Math.abs(walk.distanceMeters - 82.6)).toBeLessThan(5);
+    expect(walk.points.length).toBeGreaterThanOrEqual(14);
+    expect(walk.points.length).toBeLessThanOrEqual(18);
+  });
+
+  it('measures a noisy walk close to its true length', () => {
+    // Two 168 m legs with a right-angle turn
+    for (const seed of SEEDS) {
+      const walk = record(simulateWalk([{ bearing: 0, seconds: 120 }, { bearing: 90, seconds: 120 }], { accuracy: 10, seed }));
+      expect(Math.abs(walk.distanceMeters - 336) / 336, `seed ${seed}`).toBeLessThan(0.1);
+      expect(walk.points.length, `seed ${seed}`).toBeLessThan(60);
+    }
+  });
+
+  it('adds little distance while standing still', () => {
+    // Steps as short as the filtered fixes' wander used to add about
+    // 80 m in five minutes at this accuracy
+    const distances = SEEDS.map(seed =>
+      record(simulateWalk([{ bearing: 0, seconds: 300 }], { speed: 0, accuracy: 10, seed })).distanceMeters
+    );
+    expect(Math.max(...distances)).toBeLessThan(30);
+    expect(distances.reduce((sum, distance) => sum + distance, 0) / distances.length).toBeLessThan(5);
+  });
+});
+
+describe('addWalkHazards', () => {
+  it('records each hazard once', () => {
+    const walk = addWalkHazards(addWalkHazards(createWalk(), ['a', 'b']), ['b', 'c']);
+    expect(walk.hazardIds).toEqual(['a', 'b', 'c']);
+    expect(addWalkHazards(walk, ['a'])).toBe(walk);
+  });
+});
+
+describe('formatting', () => {
+  it('shows metres, then kilometres', () => {
+    expect(formatWalkDistance(84.4)).toBe('84 m');
+    expect(formatWalkDistance(999)).toBe('999 m');
+    expect(formatWalkDistance(1234)).toBe('1.23 km');
+  });
+
+  it('shows the duration in minutes, then hours', () => {
+    const walk = { ...createWalk(), startedAt: 0 };
+    expect(formatWalkDuration({ ...walk, endedAt: 45 * MINUTE_MS })).toBe('45 min');
+    expect(formatWalkDuration({ ...walk, endedAt: 65 * MINUTE_MS })).toBe('1 h 5 min');
+  });
+
+  it('times a walk in progress up to now', () => {
+    const walk = { ...createWalk(), startedAt: 0 };
+    expect(formatWalkDuration(walk, 12 * MINUTE_MS)).toBe('12 min');
+  });
+});
+
+describe('walkToGpx', () => {
+  it('writes the track and the hazards passed', () => {
+    const walk = record(simulateWalk([{ bearing: 90, seconds: 20 }], { accuracy: 1 }));
+    const hazard = { ...hazardAt('hazard', TRACE_START), desc: 'Glass & cans <by the gate>' };
+    const gpx = walkToGpx(walk, [hazard]);
+
+    expect(gpx.match(/<trkpt /g)).toHaveLength(walk.points.length);
+    expect(gpx).toContain(`<wpt lat="${TRACE_START.lat}" lon="${TRACE_START.lng}">`);
+    expect(gpx).toContain('<desc>Glass &amp; cans &lt;by the gate&gt;</desc>');
+  });
+});
@@ -0,0 +1,115 @@
+// Walk tracking: GPS tracks and the hazards passed, stored on the device
+
+import { db, Walk, WalkPoint, Report } from './db';
+import { calculateDistance, generateId } from './utils';
+import { HAZARD_CATEGORIES, DEFAULT_HAZARD_CATEGORY } from './hazards';
+
+// Ignore fixes that are too inaccurate or too close to the last point,
+// so GPS jitter while standing still doesn't add distance
+const MIN_POINT_DISTANCE_METERS = 5;
+const MAX_POINT_ACCURACY_METERS = 30;
+const MIN_STEP_ACCURACY_RATIO = 2; // Steps must also be twice the fix's accuracy radius
+
+export function createWalk(): Walk {
+  return {
+    id: generateId(),
+    startedAt: Date.now(),
+    points: [],
+    distanceMeters: 0,
+    hazardIds: [],
+  };
+}
+
+// Add a GPS fix to a walk. Returns the same walk if the fix was skipped.
+export function appendWalkPoint(walk: Walk, point: WalkPoint, accuracy?: number): Walk {
+  if (accuracy !== undefined && accuracy > MAX_POINT_ACCURACY_METERS) return walk;
+
+  const last = walk.points[walk.points.length - 1];
+  if (!last) {
+    return { ...walk, points: [point] };
+  }
+
+  // A step within the fix's own uncertainty may be GPS wander, not walking
+  const step = calculateDistance(last.lat, last.lng, point.lat, point.lng);
+  if (step < Math.max(MIN_POINT_DISTANCE_METERS, (accuracy ?? 0) * MIN_STEP_ACCURACY_RATIO)) return walk;
+
+  return {
+    ...walk,
+    points: [...walk.points, point],
+    distanceMeters: walk.distanceMeters + step,
+  };
+}
+
+// Record hazards alerted on; returns the same walk if nothing is new
+export function addWalkHazards(walk: Walk, reportIds: string[]): Walk {
+  const added = reportIds.filter(id => !walk.hazardIds.includes(id));
+  return added.length > 0 ? { ...walk, hazardIds: [...walk.hazardIds, ...added] } : walk;
+}
+
+export async function saveWalk(walk: Walk): Promise<void> {
+  await db.walks.put(walk);
+}
+
+// Walks, newest first
+export async function getWalks(): Promise<Walk[]> {
+  return await db.walks.orderBy('startedAt').reverse().toArray();
+}
+
+// A walk left unfinished (e.g. the page was closed mid-walk)
+export async function getActiveWalk(): Promise<Walk | undefined> {
+  return await db.walks.filter(walk => walk.endedAt === undefined).first();
+}
+
+export async function deleteWalk(id: string): Promise<void> {
+  await db.walks.delete(id);
+}
+
+export function formatWalkDistance(meters: number): string {
+  return meters >= 1000 ? `${(meters / 1000).toFixed(2)} km` : `${Math.round(meters)} m`;
+}
+
+export function formatWalkDuration(walk: Walk, now: number = Date.now()): string {
+  const minutes = Math.round(((walk.endedAt ?? now) - walk.startedAt) / 60000);
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&'"]/g, char => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' }[char]!));
+}
+
+// GPX 1.1 track, with the hazards passed as waypoints
+export function walkToGpx(walk: Walk, hazards: Report[] = []): string {
+  const trackPoints = walk.points
+    .map(point => `      <trkpt lat="${point.lat}" lon="${point.lng}"><time>${new Date(point.t).toISOString()}</time></trkpt>`)
+    .join('\n');
+  const waypoints = hazards
+    .map(report => {
+      const name = HAZARD_CATEGORIES[report.category ?? DEFAULT_HAZARD_CATEGORY].label;
+      return `  <wpt lat="${report.lat}" lon="${report.lng}"><name>${escapeXml(name)}</name>${report.desc ? `<desc>${escapeXml(report.desc)}</desc>` : ''}</wpt>`;
+    })
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="PawSafe" xmlns="http://www.topografix.com/GPX/1/1">
+  <metadata><time>${new Date(walk.startedAt).toISOString()}</time></metadata>
+${waypoints ? waypoints + '\n' : ''}  <trk>
+    <name>PawSafe walk ${new Date(walk.startedAt).toLocaleString()}</name>
+    <trkseg>
+${trackPoints}
+    </trkseg>
+  </trk>
+</gpx>
+`;
+}
+
+// Save a walk as a GPX file (only when the user asks to export it)
+export function downloadWalkGpx(walk: Walk, hazards: Report[] = []): void {
+  const blob = new Blob([walkToGpx(walk, hazards)], { type: 'application/gpx+xml' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `pawsafe-walk-${new Date(walk.startedAt).toISOString().slice(0, 10)}.gpx`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -130,10 +130,93 @@ self.addEventListener('push', (event) => {
   }
 });
 
-// Handle notification click
+// IndexedDB used by the app (Dexie). Opened without a version so the
+// worker never upgrades or blocks the app's schema.
+const DB_NAME = 'PawSafeDB';
+const PENDING_ACTIONS_STORE = 'pendingAlertActions';
+
+// Messages to open pages and the confirmation tag (keep in sync with lib/alertActions.ts)
+const ALERT_ACTION_QUEUED_MESSAGE = 'pawsafe:alert-action-queued';
+const ALERT_DISMISSED_MESSAGE = 'pawsafe:alert-dismissed';
+const ACTION_CONFIRMATION_TAG = 'alert-action-confirmation';
+
+// Queue a confirmation for the app to apply and sync when it next runs
+function queueAlertAction(item) {
+  return new Promise((resolve, reject) => {
+    const open = indexedDB.open(DB_NAME);
+    open.onerror = () => reject(open.error);
+    open.onsuccess = () => {
+      const database = open.result;
+      // Close if the app upgrades the schema while we hold the connection
+      database.onversionchange = () => database.close();
+      if (!database.objectStoreNames.contains(PENDING_ACTIONS_STORE)) {
+        database.close();
+        reject(new Error('Alert action queue not created yet'));
+        return;
+      }
+      const tx = database.transaction(PENDING_ACTIONS_STORE, 'readwrite');
+      tx.objectStore(PENDING_ACTIONS_STORE).add(item);
+      tx.oncomplete = () => {
+        database.close();
+        resolve();
+      };
+      tx.onerror = () => {
+        database.close();
+        reject(tx.error);
+      };
+    };
+  });
+}
+
+async function postToClients(message) {
+  const windows = await clients.matchAll({ type: 'window', includeUncontrolled: true });
+  windows.forEach((client) => client.postMessage(message));
+}
+
+// Focus an open PawSafe tab, or open one
+async function focusOrOpen(url) {
+  const windows = await clients.matchAll({ type: 'window', includeUncontrolled: true });
+  const existing = windows.find((client) => 'focus' in client);
+  if (existing) return existing.focus();
+  return clients.openWindow(url);
+}
+
+async function handleAlertAction(action, data) {
+  if (action === 'dismiss') {
+    await postToClients({ type: ALERT_DISMISSED_MESSAGE, reportId: data.reportId });
+    return;
+  }
+
+  try {
+    await queueAlertAction({
+      reportId: data.reportId,
+      action,
+      deviceId: data.deviceId,
+      createdAt: Date.now(),
+    });
+    await postToClients({ type: ALERT_ACTION_QUEUED_MESSAGE });
+    await self.registration.showNotification('PawSafe', {
+      body: action === 'cleared' ? 'Thanks! Marked as cleared.' : 'Thanks! Confirmed still there.',
+      icon: '/icons/icon-192x192.png',
+      tag: ACTION_CONFIRMATION_TAG, // Replaced by the app if the vote needs a photo
+    });
+  } catch (error) {
+    console.error('PawSafe: Failed to queue alert action', error);
+    // Let the user confirm in the app instead
+    await focusOrOpen(data.url || '/');
+  }
+}
+
+// Handle notification click and action buttons
 self.addEventListener('notificationclick', (event) => {
   event.notification.close();
-  event.waitUntil(
-    clients.openWindow(event.notification.data || '/')
-  );
+  const data = event.notification.data;
+
+  if (data && typeof data === 'object' && data.reportId && event.action) {
+    event.waitUntil(handleAlertAction(event.action, data));
+    return;
+  }
+
+  const url = typeof data === 'string' ? data : (data && data.url) || '/';
+  event.waitUntil(focusOrOpen(url));
 });